@@ -0,0 +1,47 @@
+import { aiServiceProvider } from '@/services/agentProvider';
+import { rateLimiter } from '@/services/rateLimiter';
+import { Agent } from '@/types/agent';
+
+global.fetch = jest.fn();
+
+jest.mock('@/store/agentStore', () => ({
+  useAgentStore: {
+    getState: jest.fn().mockReturnValue({
+      apiKey: { openai: 'test-key', perplexity: 'test-key', anthropic: 'test-key' },
+      providerSettings: {}
+    })
+  }
+}));
+
+describe('AI service provider', () => {
+  const agent: Agent = {
+    id: 'writer',
+    name: 'Writer',
+    systemPrompt: 'You are a writer',
+    provider: 'openai',
+    model: 'gpt-4o',
+    color: '#000000'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    rateLimiter.reset();
+  });
+
+  it('should answer a repeated large input from the cache', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'Chunk answer' }, finish_reason: 'stop' }] })
+    });
+    const input = 'A long report sentence. '.repeat(500);
+
+    const first = await aiServiceProvider.generate({ agent, systemPrompt: agent.systemPrompt, input, options: {} });
+    const requests = (global.fetch as jest.Mock).mock.calls.length;
+    const second = await aiServiceProvider.generate({ agent, systemPrompt: agent.systemPrompt, input, options: {} });
+
+    expect(requests).toBeGreaterThan(0);
+    expect(second).toBe(first);
+    expect(global.fetch).toHaveBeenCalledTimes(requests);
+  });
+});
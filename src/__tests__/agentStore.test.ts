@@ -83,7 +83,7 @@ describe('Agent Store', () => {
     expect(storedKeys.openai).toBe('encrypted_test-key');
     
     // Reset the store
-    useAgentStore.getState().apiKey = { openai: '', perplexity: '' };
+    useAgentStore.getState().apiKey = { openai: '', perplexity: '', anthropic: '', local: '' };
     
     // Initialize again (simulating a page reload)
     useAgentStore.getState().loadApiKeys();
@@ -92,4 +92,47 @@ describe('Agent Store', () => {
     expect(decryptData).toHaveBeenCalled();
     expect(useAgentStore.getState().apiKey.openai).toBe('test-key');
   });
-}); 
\ No newline at end of file
+
+  it('should cancel in-flight nodes and mark unfinished results as cancelled', () => {
+    const controller = new AbortController();
+    const store = useAgentStore.getState();
+    store.setAbortController('node-1', controller);
+    store.setProcessingApiCalls({ 'node-1': new Promise<string>(() => {}) });
+    store.setExecutionResult({ nodeId: 'node-1', output: '', status: 'running' });
+    store.setExecutionResult({ nodeId: 'node-2', output: 'done', status: 'completed' });
+
+    useAgentStore.getState().cancelRun();
+
+    const state = useAgentStore.getState();
+    expect(controller.signal.aborted).toBe(true);
+    expect(state.abortControllers).toEqual({});
+    expect(state.processingApiCalls).toEqual({});
+    expect(state.executionResults['node-1'].status).toBe('cancelled');
+    expect(state.executionResults['node-2'].status).toBe('completed');
+  });
+
+  it('should keep only the latest output of a node and whether it came from a successful run', () => {
+    useAgentStore.setState({
+      nodes: [{ id: 'node-1', type: 'agent', position: { x: 0, y: 0 }, data: { label: 'Writer', inputs: [], outputs: [] } }]
+    });
+
+    useAgentStore.getState().setNodeOutput('node-1', 'First draft', 'hash-1');
+    useAgentStore.getState().setNodeOutput('node-1', 'Second draft', 'hash-2');
+    expect(useAgentStore.getState().nodes[0].data).toMatchObject({ outputs: ['Second draft'], runHash: 'hash-2' });
+
+    useAgentStore.getState().setNodeOutput('node-1', '[Error: Boom]');
+    expect(useAgentStore.getState().nodes[0].data.runHash).toBeUndefined();
+  });
+
+  it('should add up today\'s spend and start over on a new day', () => {
+    useAgentStore.setState({ dailySpend: { date: '2000-01-01', cost: 5 } });
+
+    useAgentStore.getState().recordSpend(0.25);
+    useAgentStore.getState().recordSpend(0.5);
+
+    const { dailySpend } = useAgentStore.getState();
+    expect(dailySpend.cost).toBe(0.75);
+    expect(dailySpend.date).not.toBe('2000-01-01');
+    expect(JSON.parse(localStorage.getItem('swarmweaver_daily_spend'))).toEqual(dailySpend);
+  });
+});
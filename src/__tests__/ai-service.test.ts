@@ -1,6 +1,27 @@
-import { generateAgentResponse } from '../services/ai-service';
+import { generateAgentResponse, RequestCancelledError, ProviderError, StructuredOutputError, classifyHttpError, parseRetryAfter } from '../services/ai-service';
 import { AIProvider, AIModel } from '@/types/agent';
 import { useAgentStore } from '@/store/agentStore';
+import { rateLimiter } from '@/services/rateLimiter';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom does not provide the encoding APIs used to read streamed responses
+Object.assign(global, { TextDecoder, TextEncoder });
+
+// Build a fetch response whose body streams the given server-sent event chunks
+const streamingResponse = (chunks: string[]) => {
+  const encoded = chunks.map(chunk => new TextEncoder().encode(chunk));
+  return {
+    ok: true,
+    body: {
+      getReader: () => ({
+        read: async () => encoded.length
+          ? { done: false, value: encoded.shift() }
+          : { done: true, value: undefined },
+        cancel: async () => undefined
+      })
+    }
+  };
+};
 
 // Mock the fetch API
 global.fetch = jest.fn();
@@ -9,7 +30,8 @@ global.fetch = jest.fn();
 jest.mock('@/store/agentStore', () => ({
   useAgentStore: {
     getState: jest.fn().mockReturnValue({
-      apiKey: { openai: 'test-key', perplexity: 'test-key' }
+      apiKey: { openai: 'test-key', perplexity: 'test-key', anthropic: 'test-key' },
+      providerSettings: { local: { baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1' } }
     })
   }
 }));
@@ -17,6 +39,10 @@ jest.mock('@/store/agentStore', () => ({
 describe('AI Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    // Responses are cached in localStorage, so start every test with a cold cache
+    localStorage.clear();
+    // Start with full rate limit buckets so earlier tests don't slow later ones down
+    rateLimiter.reset();
   });
 
   it('should call OpenAI API correctly', async () => {
@@ -71,7 +97,7 @@ describe('AI Service', () => {
   it('should handle missing API key', async () => {
     // Override the mock to return no API key
     (useAgentStore.getState as jest.Mock).mockReturnValueOnce({
-      apiKey: { openai: '', perplexity: '' }
+      apiKey: { openai: '', perplexity: '', anthropic: '', local: '' }
     });
 
     // Assertions
@@ -82,4 +108,487 @@ describe('AI Service', () => {
       'Hello'
     )).rejects.toThrow('No API key set for openai');
   });
-}); 
\ No newline at end of file
+
+  it('should call Anthropic Messages API correctly', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        content: [
+          { type: 'text', text: 'Hello from ' },
+          { type: 'text', text: 'Claude' }
+        ],
+        stop_reason: 'end_turn'
+      })
+    });
+
+    const result = await generateAgentResponse(
+      'anthropic',
+      'claude-3-7-sonnet-20250219',
+      'You are a helpful assistant',
+      'Hello'
+    );
+
+    expect(result).toBe('Hello from Claude');
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toEqual(expect.objectContaining({
+      'x-api-key': 'test-key',
+      'anthropic-version': '2023-06-01'
+    }));
+
+    const body = JSON.parse(init.body);
+    expect(body.system).toBe('You are a helpful assistant');
+    expect(body.max_tokens).toBeGreaterThan(0);
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Hello' }] }
+    ]);
+  });
+
+  it('should surface Anthropic API errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } })
+    });
+
+    await expect(generateAgentResponse(
+      'anthropic',
+      'claude-3-5-haiku-20241022',
+      'You are a helpful assistant',
+      'Hello'
+    )).rejects.toThrow('Anthropic API error: invalid x-api-key');
+  });
+
+  it('should call an OpenAI-compatible endpoint with the model from Settings', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'Local response' } }] })
+    });
+
+    const result = await generateAgentResponse(
+      'local',
+      'gpt-4o',
+      'You are a helpful assistant',
+      'Hello'
+    );
+
+    expect(result).toBe('Local response');
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    // No key configured, so no Authorization header should be sent
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body).model).toBe('llama3.1');
+  });
+
+  it('should merge chunked answers with the calling provider\'s largest-context model', async () => {
+    // Two chunk requests, then the cohesion request
+    for (let call = 0; call < 3; call++) {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Part' } }] })
+      });
+    }
+
+    // Two chunks' worth of paragraphs
+    const input = Array(30).fill('A sentence about the topic. '.repeat(15)).join('\n\n');
+    await generateAgentResponse('perplexity', 'sonar', 'You are a helpful assistant', input);
+
+    const calls = (global.fetch as jest.Mock).mock.calls;
+    expect(calls).toHaveLength(3);
+    expect(calls.every(([url]) => url === 'https://api.perplexity.ai/chat/completions')).toBe(true);
+    expect(calls.map(([, init]) => JSON.parse(init.body).model)).toEqual(['sonar', 'sonar', 'sonar-pro']);
+  });
+
+  it('should send inputs with code that fit in one chunk, and chunks with code, without chunking them again', async () => {
+    const anthropicResponse = {
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: 'Reviewed' }], stop_reason: 'end_turn' })
+    };
+    for (let call = 0; call < 4; call++) {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(anthropicResponse);
+    }
+    const paragraph = 'Please review this code and explain what it does. '.repeat(10);
+
+    // About 7,000 characters
+    await generateAgentResponse('anthropic', 'claude-3-5-haiku-20241022', 'You are a reviewer', Array(14).fill(paragraph).join('\n\n'));
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    // Two chunks, each still mentioning code, then the cohesion request
+    await generateAgentResponse('anthropic', 'claude-3-5-haiku-20241022', 'You are a reviewer', Array(24).fill(paragraph).join('\n\n'));
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stream OpenAI tokens and cache only the assembled text', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(streamingResponse([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: {"choices":[{"delta":{},"finish_reason":"stop"}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2}}\n\n',
+      'data: [DONE]\n\n'
+    ]));
+
+    const onToken = jest.fn();
+    const onUsage = jest.fn();
+    const result = await generateAgentResponse(
+      'openai',
+      'gpt-4o',
+      'You are a helpful assistant',
+      'Stream please',
+      { onToken, onUsage }
+    );
+
+    expect(result).toBe('Hello');
+    expect(onToken).toHaveBeenNthCalledWith(1, 'Hel', 'Hel');
+    expect(onToken).toHaveBeenNthCalledWith(2, 'lo', 'Hello');
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.stream).toBe(true);
+    expect(body.stream_options).toEqual({ include_usage: true });
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 12, completionTokens: 2 }));
+
+    // A second identical request is served from the cache without another call
+    const cached = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Stream please');
+    expect(cached).toBe('Hello');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream the cohesion answer of a chunked input', async () => {
+    // The chunk answers are combined, so only the cohesion request streams
+    for (let call = 0; call < 2; call++) {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Part' } }] })
+      });
+    }
+    (global.fetch as jest.Mock).mockResolvedValueOnce(streamingResponse([
+      'data: {"choices":[{"delta":{"content":"All "}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"parts"}}]}\n\ndata: [DONE]\n\n'
+    ]));
+
+    const onToken = jest.fn();
+    const input = Array(30).fill('A sentence about the topic. '.repeat(15)).join('\n\n');
+    const result = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', input, { onToken });
+
+    expect(result).toBe('All parts');
+    expect(onToken).toHaveBeenNthCalledWith(1, 'All ', 'All ');
+    expect(onToken).toHaveBeenLastCalledWith('parts', 'All parts');
+  });
+
+  it('should stream Anthropic text deltas split across reads', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(streamingResponse([
+      'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi "}}\n\nevent: content_block_delta\ndata: {"type":"content_bl',
+      'ock_delta","index":0,"delta":{"type":"text_delta","text":"there"}}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":3}}\n\n'
+    ]));
+
+    const onToken = jest.fn();
+    const onUsage = jest.fn();
+    const result = await generateAgentResponse(
+      'anthropic',
+      'claude-3-5-haiku-20241022',
+      'You are a helpful assistant',
+      'Stream please',
+      { onToken, onUsage }
+    );
+
+    expect(result).toBe('Hi there');
+    expect(onToken).toHaveBeenCalledTimes(2);
+    expect(onUsage).toHaveBeenCalledWith({
+      model: 'claude-3-5-haiku-20241022',
+      promptTokens: 20,
+      completionTokens: 3,
+      cost: (20 * 0.8 + 3 * 4) / 1_000_000
+    });
+  });
+
+  it('should report token usage and cost, estimating counts the provider leaves out', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: 'Priced answer' } }],
+          usage: { prompt_tokens: 1000, completion_tokens: 500 }
+        })
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Local answer' } }] })
+      });
+    const onUsage = jest.fn();
+
+    await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Price me', { onUsage });
+    expect(onUsage).toHaveBeenLastCalledWith({ model: 'gpt-4o', promptTokens: 1000, completionTokens: 500, cost: 0.0075 });
+
+    await generateAgentResponse('local', 'llama3.1' as AIModel, 'You are a helpful assistant', 'Price me', { onUsage });
+    expect(onUsage).toHaveBeenLastCalledWith(expect.objectContaining({ model: 'llama3.1', cost: 0, estimated: true }));
+
+    // Cached answers cost nothing
+    onUsage.mockClear();
+    await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Price me', { onUsage });
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+
+  it('should pass the abort signal to fetch and report cancellation', async () => {
+    const controller = new AbortController();
+    (global.fetch as jest.Mock).mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new DOMException('The user aborted a request.', 'AbortError')));
+    }));
+
+    const request = generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Cancel me', { signal: controller.signal });
+    // Let the request get past the rate limiter and reach fetch before cancelling
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it('should abort requests that outlast their timeout without retrying them', async () => {
+    (global.fetch as jest.Mock).mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new DOMException('The user aborted a request.', 'AbortError')));
+    }));
+
+    const error = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Hang forever', { timeoutMs: 20 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.kind).toBe('timeout');
+    expect(error.message).toContain('timed out after 0.02s');
+    expect(error.fallsBack).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call the API when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Too late', { signal: controller.signal })
+    ).rejects.toThrow('Request was cancelled');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should retry rate limited requests after the Retry-After delay', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'retry-after': '0.01' }),
+        json: async () => ({ error: { message: 'Rate limit reached' } })
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Second time lucky' }, finish_reason: 'stop' }] })
+      });
+
+    const onRetry = jest.fn();
+    const result = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Retry me', { onRetry });
+
+    expect(result).toBe('Second time lucky');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(2, expect.any(ProviderError), 10);
+    expect(onRetry.mock.calls[0][1].kind).toBe('rate_limit');
+  });
+
+  it('should retry network errors whatever the browser calls them', async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new TypeError('NetworkError when attempting to fetch resource.'))
+      .mockRejectedValueOnce(new TypeError('Load failed'))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Back online' }, finish_reason: 'stop' }] })
+      });
+
+    const onRetry = jest.fn();
+    const result = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Reconnect me', {
+      onRetry,
+      retry: { baseDelayMs: 1 }
+    });
+
+    expect(result).toBe('Back online');
+    expect(onRetry.mock.calls.map(([, error]) => error.kind)).toEqual(['network', 'network']);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const unavailable = {
+      ok: false,
+      status: 503,
+      json: async () => ({ error: { message: 'Service unavailable' } })
+    };
+    (global.fetch as jest.Mock).mockResolvedValueOnce(unavailable).mockResolvedValueOnce(unavailable);
+
+    await expect(generateAgentResponse(
+      'openai', 'gpt-4o', 'You are a helpful assistant', 'Still down',
+      { retry: { maxAttempts: 2, baseDelayMs: 0 } }
+    )).rejects.toThrow('OpenAI API error: Service unavailable (after 2 attempts)');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry authentication errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({ error: { message: 'Incorrect API key provided' } })
+    });
+
+    const request = generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Bad key', { retry: { baseDelayMs: 0 } });
+
+    await expect(request).rejects.toMatchObject({ kind: 'auth', status: 401 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify provider errors and parse Retry-After headers', () => {
+    expect(classifyHttpError(429)).toBe('rate_limit');
+    expect(classifyHttpError(529)).toBe('overloaded');
+    expect(classifyHttpError(500)).toBe('overloaded');
+    expect(classifyHttpError(403)).toBe('auth');
+    expect(classifyHttpError(400)).toBe('bad_request');
+    expect(classifyHttpError(undefined, 'Overloaded')).toBe('overloaded');
+    expect(classifyHttpError(400, "This model's maximum context length is 128000 tokens")).toBe('context_overflow');
+    expect(classifyHttpError(400, 'prompt is too long: 210000 tokens > 200000 maximum')).toBe('context_overflow');
+    expect(classifyHttpError(404, 'The model `gpt-4.5-preview` does not exist or you do not have access to it.')).toBe('model_unavailable');
+    expect(new ProviderError('Content filtered', 'content_filter').fallsBack).toBe(true);
+    expect(new ProviderError('Invalid key', 'auth').fallsBack).toBe(false);
+
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }))).toBe(250);
+    expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000);
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+  });
+
+  it('should send generation settings and include them in the cache key', async () => {
+    const okResponse = (content: string) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content }, finish_reason: 'stop' }] })
+    });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse('Warm answer'))
+      .mockResolvedValueOnce(okResponse('Cold answer'))
+      .mockResolvedValueOnce(okResponse('Reasoned answer'));
+
+    const warm = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Tune me', { params: { temperature: 1.2 } });
+    const cold = await generateAgentResponse('openai', 'gpt-4o', 'You are a helpful assistant', 'Tune me', { params: { temperature: 0 } });
+
+    expect(warm).toBe('Warm answer');
+    expect(cold).toBe('Cold answer');
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body).temperature).toBe(0);
+
+    // Settings the model ignores don't produce a separate cache entry
+    await generateAgentResponse('openai', 'o3-mini', 'You are a helpful assistant', 'Tune me', { params: { temperature: 0 } });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    const again = await generateAgentResponse('openai', 'o3-mini', 'You are a helpful assistant', 'Tune me', { params: { temperature: 1 } });
+    expect(again).toBe('Reasoned answer');
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  describe('structured output', () => {
+    const outputSchema = {
+      type: 'object',
+      properties: { summary: { type: 'string' } },
+      required: ['summary']
+    };
+    const anthropicResponse = (text: string) => ({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text }], stop_reason: 'end_turn' })
+    });
+
+    it('should re-prompt with validation errors until the answer matches the schema', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(anthropicResponse('{"title": "Oops"}'))
+        .mockResolvedValueOnce(anthropicResponse('```json\n{"summary": "Fixed"}\n```'));
+
+      const result = await generateAgentResponse(
+        'anthropic', 'claude-3-5-haiku-20241022', 'You are a helpful assistant', 'Summarize this', { outputSchema }
+      );
+
+      expect(JSON.parse(result)).toEqual({ summary: 'Fixed' });
+      const firstBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(firstBody.system).toContain('JSON Schema');
+      const repairBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(repairBody.messages[0].content[0].text).toContain('$.summary is required');
+    });
+
+    it('should fail once the repair attempts are used up', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(anthropicResponse('not json'))
+        .mockResolvedValueOnce(anthropicResponse('{"summary": 1}'))
+        .mockResolvedValueOnce(anthropicResponse('{"summary": 2}'));
+
+      const request = generateAgentResponse(
+        'anthropic', 'claude-3-5-haiku-20241022', 'You are a helpful assistant', 'Summarize that', { outputSchema }
+      );
+
+      await expect(request).rejects.toBeInstanceOf(StructuredOutputError);
+      await expect(request).rejects.toThrow('$.summary should be string but is integer');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('tool calling', () => {
+    const toolCallResponse = (id: string, name: string, args: string) => ({
+      ok: true,
+      json: async () => ({
+        choices: [{
+          message: { content: null, tool_calls: [{ id, type: 'function', function: { name, arguments: args } }] },
+          finish_reason: 'tool_calls'
+        }]
+      })
+    });
+    const answerResponse = (content: string) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content }, finish_reason: 'stop' }] })
+    });
+
+    it('should run requested tools and send their results back until the model answers', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(toolCallResponse('call_1', 'calculator', '{"expression": "6 * 7"}'))
+        .mockResolvedValueOnce(toolCallResponse('call_2', 'calculator', '{"expression": 42}'))
+        .mockResolvedValueOnce(answerResponse('The answer is 42'));
+      const onToolCall = jest.fn();
+
+      const result = await generateAgentResponse(
+        'openai', 'gpt-4o', 'You are a helpful assistant', 'What is 6 times 7?', { tools: ['calculator'], onToolCall }
+      );
+
+      expect(result).toBe('The answer is 42');
+      expect(onToolCall).toHaveBeenNthCalledWith(1, { name: 'calculator', arguments: { expression: '6 * 7' }, result: '42' });
+      // Invalid arguments are reported back to the model instead of failing the node
+      expect(onToolCall.mock.calls[1][0]).toMatchObject({ error: true, result: expect.stringContaining('$.expression should be string') });
+
+      const firstBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(firstBody.tools[0].function.name).toBe('calculator');
+      const lastBody = JSON.parse((global.fetch as jest.Mock).mock.calls[2][1].body);
+      expect(lastBody.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant', 'tool']);
+      expect(lastBody.messages[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_1', content: '42' });
+    });
+
+    it('should stop once the tool step limit is reached', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(toolCallResponse('call_1', 'calculator', '{"expression": "1 + 1"}'))
+        .mockResolvedValueOnce(toolCallResponse('call_2', 'calculator', '{"expression": "2 + 2"}'));
+
+      await expect(generateAgentResponse(
+        'openai', 'gpt-4o', 'You are a helpful assistant', 'Keep counting', { tools: ['calculator'], maxToolSteps: 1 }
+      )).rejects.toThrow('did not finish within 1 tool steps');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send large inputs whole when tools are offered, and reject ones that do not fit', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(answerResponse('Done'));
+
+      const result = await generateAgentResponse(
+        'openai', 'gpt-4o', 'You are a helpful assistant', 'Some data. '.repeat(2000), { tools: ['calculator'] }
+      );
+
+      expect(result).toBe('Done');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).tools[0].function.name).toBe('calculator');
+
+      // gpt-4o has a 128k-token context
+      await expect(generateAgentResponse(
+        'openai', 'gpt-4o', 'You are a helpful assistant', 'Some data. '.repeat(60000), { tools: ['calculator'] }
+      )).rejects.toThrow("inputs of agents with tools can't be split into chunks");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
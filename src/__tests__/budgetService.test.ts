@@ -0,0 +1,92 @@
+import { checkBudget, estimateRequestCost, estimateRunCost, getSpentToday, getTodayKey } from '@/services/budgetService';
+import { Agent, AgentEdge, AgentNode } from '@/types/agent';
+
+describe('Budget service', () => {
+  const agent: Agent = {
+    id: 'agent-1',
+    name: 'Writer',
+    systemPrompt: 'x'.repeat(400),
+    provider: 'openai',
+    model: 'gpt-4o',
+    color: '#000000',
+    generationParams: { maxTokens: 1000 }
+  };
+  const node = (id: string, data: Partial<AgentNode['data']>): AgentNode => ({
+    id,
+    type: data.agentId ? 'agent' : 'output',
+    position: { x: 0, y: 0 },
+    data: { label: 'Agent', inputs: [], outputs: [], ...data }
+  });
+
+  it('should bound a request by the prompt and the whole completion budget', () => {
+    // 100 system + 100 input tokens at $2.50/M, 1000 completion tokens at $10/M
+    expect(estimateRequestCost(agent, agent.systemPrompt, 'y'.repeat(400))).toBeCloseTo(0.0105);
+  });
+
+  it('should estimate every node feeding an Output Box, passing upstream outputs downstream', () => {
+    const nodes = [
+      node('a', { agentId: 'agent-1', inputs: ['y'.repeat(400)] }),
+      node('b', { agentId: 'agent-1' }),
+      node('stray', { agentId: 'agent-1' }),
+      node('out', { label: 'Output Box' })
+    ];
+    const edges: AgentEdge[] = [
+      { id: 'e1', source: 'a', target: 'b' },
+      { id: 'e2', source: 'b', target: 'out' }
+    ];
+
+    const estimate = estimateRunCost(nodes, edges, [agent]);
+
+    expect(Object.keys(estimate.nodes).sort()).toEqual(['a', 'b']);
+    expect(estimate.nodes.a).toBeCloseTo(0.0105);
+    // b reads a's 1000 output tokens on top of its system prompt
+    expect(estimate.nodes.b).toBeCloseTo((1100 * 2.5 + 1000 * 10) / 1_000_000);
+    expect(estimate.total).toBeCloseTo(estimate.nodes.a + estimate.nodes.b);
+  });
+
+  it('should bound a request by the priciest of the agent\'s models', () => {
+    const withFallback: Agent = { ...agent, fallbackModels: [{ provider: 'openai', model: 'gpt-4.5-preview' }] };
+    // gpt-4.5-preview costs $75/M prompt and $150/M completion tokens
+    expect(estimateRequestCost(withFallback, agent.systemPrompt, 'y'.repeat(400))).toBeCloseTo((200 * 75 + 1000 * 150) / 1_000_000);
+  });
+
+  it('should count one request per item after a Map node', () => {
+    const edges: AgentEdge[] = [
+      { id: 'e1', source: 'list', target: 'a' },
+      { id: 'e2', source: 'a', target: 'out' }
+    ];
+    const nodes = (listInputs: string[], listEdges: AgentEdge[] = []): { nodes: AgentNode[]; edges: AgentEdge[] } => ({
+      nodes: [
+        { ...node('list', { inputs: listInputs, map: { split: 'lines' } }), type: 'map' },
+        node('a', { agentId: 'agent-1' }),
+        node('out', { label: 'Output Box' }),
+        node('source', { agentId: 'agent-1', inputs: ['topics'] })
+      ],
+      edges: [...edges, ...listEdges]
+    });
+
+    const single = nodes(['one']);
+    const known = nodes(['one\ntwo\nthree']);
+    const estimate = estimateRunCost(known.nodes, known.edges, [agent]);
+
+    expect(estimate.nodes.a).toBeCloseTo(3 * estimateRunCost(single.nodes, single.edges, [agent]).nodes.a, 4);
+    expect(estimate.lowerBound).toBeUndefined();
+
+    // Items coming from another node are only known during the run
+    const unknown = nodes([], [{ id: 'e0', source: 'source', target: 'list' }]);
+    expect(estimateRunCost(unknown.nodes, unknown.edges, [agent]).lowerBound).toBe(true);
+  });
+
+  it('should report which cap a spend would exceed', () => {
+    const budget = { perRunLimit: 1, perDayLimit: 5 };
+    expect(checkBudget(0.5, budget, 0.25, 1)).toBeNull();
+    expect(checkBudget(0.5, budget, 0.75, 1)).toContain('Run budget of $1.00');
+    expect(checkBudget(0.5, budget, 0, 4.75)).toContain('Daily budget of $5.00');
+    expect(checkBudget(100, { perRunLimit: 0, perDayLimit: 0 }, 0, 0)).toBeNull();
+  });
+
+  it('should only count spend from today', () => {
+    expect(getSpentToday({ date: getTodayKey(), cost: 2 })).toBe(2);
+    expect(getSpentToday({ date: '2000-01-01', cost: 2 })).toBe(0);
+  });
+});
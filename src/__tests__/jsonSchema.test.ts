@@ -0,0 +1,39 @@
+import { validateJsonSchema, extractJson } from '@/utils/jsonSchema';
+
+describe('JSON Schema validation', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      score: { type: 'integer', minimum: 0, maximum: 10 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      status: { enum: ['draft', 'final'] }
+    },
+    required: ['title', 'score'],
+    additionalProperties: false
+  };
+
+  it('should accept values matching the schema', () => {
+    expect(validateJsonSchema({ title: 'Report', score: 7, tags: ['a'], status: 'final' }, schema)).toEqual([]);
+  });
+
+  it('should report every violation with its path', () => {
+    const errors = validateJsonSchema({ score: 12.5, tags: ['a', 1, 'c'], status: 'old', extra: true }, schema);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      '$.title is required',
+      '$.score should be integer but is number',
+      '$.tags should have at most 2 items',
+      '$.tags[1] should be string but is integer',
+      '$.status should be one of "draft", "final"',
+      '$.extra is not allowed'
+    ]));
+  });
+
+  it('should extract JSON from fenced or surrounded answers', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n```json\n{"a": 2}\n```')).toEqual({ a: 2 });
+    expect(extractJson('Result: [1, 2] as requested')).toEqual([1, 2]);
+    expect(() => extractJson('no json here')).toThrow();
+  });
+});
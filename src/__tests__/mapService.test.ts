@@ -0,0 +1,48 @@
+import { joinItems, splitItems } from '@/services/mapService';
+
+describe('Map service', () => {
+  describe('splitItems', () => {
+    it('should split by line, skipping blank lines', () => {
+      expect(splitItems('Acme\n\n  Globex \r\nInitech\n', { split: 'lines' })).toEqual(['Acme', 'Globex', 'Initech']);
+    });
+
+    it('should split by a delimiter', () => {
+      expect(splitItems('a; b;;c', { split: 'delimiter', delimiter: ';' })).toEqual(['a', 'b', 'c']);
+      expect(() => splitItems('a;b', { split: 'delimiter' })).toThrow('no delimiter');
+    });
+
+    it('should split a JSON array, keeping objects as JSON', () => {
+      const input = 'Here you go:\n```json\n["Acme", {"name": "Globex"}]\n```';
+      expect(splitItems(input, { split: 'json' })).toEqual(['Acme', '{\n  "name": "Globex"\n}']);
+      expect(() => splitItems('{"name": "Acme"}', { split: 'json' })).toThrow('not a JSON array');
+      expect(() => splitItems('no json here', { split: 'json' })).toThrow('not a JSON array');
+    });
+
+    it('should split long text into chunks', () => {
+      const paragraph = 'This sentence is about twelve tokens long, give or take a few. ';
+      const text = Array.from({ length: 20 }, () => paragraph.repeat(5)).join('\n\n');
+
+      const chunks = splitItems(text, { split: 'chunks', chunkTokens: 200 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(splitItems('   ', { split: 'chunks' })).toEqual([]);
+    });
+  });
+
+  describe('joinItems', () => {
+    const items = ['{"name": "Acme", "score": 3}', 'Globex is private'];
+
+    it('should join as a JSON array, parsing items that are JSON', () => {
+      expect(JSON.parse(joinItems(items, { format: 'json' }))).toEqual([{ name: 'Acme', score: 3 }, 'Globex is private']);
+    });
+
+    it('should join as a numbered list', () => {
+      expect(joinItems(['first', 'second'], { format: 'numbered' })).toBe('1. first\n\n2. second');
+    });
+
+    it('should concatenate with a separator', () => {
+      expect(joinItems(['a', 'b'], { format: 'concat' })).toBe('a\n\nb');
+      expect(joinItems(['a', 'b'], { format: 'concat', separator: ', ' })).toBe('a, b');
+    });
+  });
+});
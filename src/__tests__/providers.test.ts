@@ -0,0 +1,166 @@
+import { getProviderAdapter, listProviderAdapters, getModelCapabilities, getSupportedParams } from '@/services/providers';
+import { getModelContextSize, getMaxCompletionTokens } from '@/utils/tokenManager';
+
+describe('Provider registry', () => {
+  const baseRequest = {
+    systemPrompt: 'You are a helpful assistant',
+    userPrompt: 'Hello',
+    maxOutputTokens: 1000,
+    credentials: { apiKey: 'test-key' },
+    stream: false
+  };
+
+  it('should register every provider with at least one credential field', () => {
+    const ids = listProviderAdapters().map(adapter => adapter.id);
+    expect(ids).toEqual(['openai', 'perplexity', 'anthropic', 'local']);
+    listProviderAdapters().forEach(adapter => {
+      expect(adapter.credentialFields.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should drive token limits from declared models', () => {
+    expect(getModelContextSize('claude-3-5-haiku-20241022')).toBe(200000);
+    expect(getMaxCompletionTokens('o3-mini')).toBe(8192);
+    // Unknown models still fall back to name matching
+    expect(getModelContextSize('gpt-4-turbo' as never)).toBe(128000);
+  });
+
+  it('should fold the system prompt into the user message for models without a system role', () => {
+    const adapter = getProviderAdapter('openai');
+    const request = adapter.buildRequest({
+      ...baseRequest,
+      model: 'o1-mini',
+      capabilities: getModelCapabilities('openai', 'o1-mini')
+    });
+
+    expect(request.body.messages).toEqual([
+      { role: 'user', content: 'You are a helpful assistant\n\nHello' }
+    ]);
+    expect(request.body).not.toHaveProperty('temperature');
+  });
+
+  it('should request JSON mode only where the model supports it', () => {
+    const prompt = { ...baseRequest, userPrompt: 'Return JSON with a summary' };
+
+    const openaiRequest = getProviderAdapter('openai').buildRequest({
+      ...prompt,
+      model: 'gpt-4o',
+      capabilities: getModelCapabilities('openai', 'gpt-4o')
+    });
+    expect(openaiRequest.expectsJson).toBe(true);
+    expect(openaiRequest.body.response_format).toEqual({ type: 'json_object' });
+
+    const perplexityRequest = getProviderAdapter('perplexity').buildRequest({
+      ...prompt,
+      model: 'sonar',
+      capabilities: getModelCapabilities('perplexity', 'sonar')
+    });
+    expect(perplexityRequest.expectsJson).toBe(false);
+    expect(perplexityRequest.body).not.toHaveProperty('response_format');
+  });
+
+  it('should normalize Anthropic stop reasons', () => {
+    const response = getProviderAdapter('anthropic').parseResponse({
+      content: [{ type: 'text', text: 'Partial' }],
+      stop_reason: 'max_tokens'
+    });
+    expect(response).toEqual({ content: 'Partial', finishReason: 'length' });
+  });
+
+  it('should map agent generation settings onto each provider\'s request fields', () => {
+    const params = { temperature: 0.2, topP: 0.9, maxTokens: 500, frequencyPenalty: 0.5, seed: 42 };
+
+    const openaiRequest = getProviderAdapter('openai').buildRequest({
+      ...baseRequest,
+      model: 'gpt-4o',
+      capabilities: getModelCapabilities('openai', 'gpt-4o'),
+      params
+    });
+    expect(openaiRequest.body).toMatchObject({
+      temperature: 0.2,
+      top_p: 0.9,
+      max_completion_tokens: 500,
+      frequency_penalty: 0.5,
+      seed: 42
+    });
+
+    const anthropicCapabilities = getModelCapabilities('anthropic', 'claude-3-5-haiku-20241022');
+    const anthropicRequest = getProviderAdapter('anthropic').buildRequest({
+      ...baseRequest,
+      model: 'claude-3-5-haiku-20241022',
+      capabilities: anthropicCapabilities,
+      params: getSupportedParams(params, anthropicCapabilities)
+    });
+    expect(anthropicRequest.body).toMatchObject({ temperature: 0.2, top_p: 0.9, max_tokens: 500 });
+    expect(anthropicRequest.body).not.toHaveProperty('seed');
+  });
+
+  it('should only keep generation settings the model supports', () => {
+    const capabilities = getModelCapabilities('openai', 'o3-mini');
+    expect(capabilities.parameters).not.toContain('temperature');
+    expect(getSupportedParams({ temperature: 1, maxTokens: 200 }, capabilities)).toEqual({ maxTokens: 200 });
+    expect(getSupportedParams({ temperature: 1 }, capabilities)).toBeUndefined();
+  });
+
+  it('should send output schemas natively where supported and fall back to JSON mode', () => {
+    const outputSchema = { type: 'object', properties: { summary: { type: 'string' } } };
+
+    const schemaRequest = getProviderAdapter('openai').buildRequest({
+      ...baseRequest,
+      model: 'gpt-4o',
+      capabilities: getModelCapabilities('openai', 'gpt-4o'),
+      outputSchema
+    });
+    expect(schemaRequest.body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'agent_output', schema: outputSchema, strict: false }
+    });
+
+    const fallbackRequest = getProviderAdapter('openai').buildRequest({
+      ...baseRequest,
+      model: 'o1-mini',
+      capabilities: getModelCapabilities('openai', 'o1-mini'),
+      outputSchema
+    });
+    expect(fallbackRequest.body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should replay tool calls and group tool results for Anthropic', () => {
+    const adapter = getProviderAdapter('anthropic');
+    const request = adapter.buildRequest({
+      ...baseRequest,
+      model: 'claude-3-5-haiku-20241022',
+      capabilities: getModelCapabilities('anthropic', 'claude-3-5-haiku-20241022'),
+      tools: [{ name: 'calculator', description: 'Math', parameters: { type: 'object' } }],
+      conversation: [
+        {
+          role: 'assistant',
+          content: 'Let me work that out.',
+          toolCalls: [
+            { id: 'toolu_1', name: 'calculator', arguments: { expression: '1 + 1' } },
+            { id: 'toolu_2', name: 'calculator', arguments: { expression: '2 + 2' } }
+          ]
+        },
+        { role: 'tool', toolCallId: 'toolu_1', name: 'calculator', content: '2' },
+        { role: 'tool', toolCallId: 'toolu_2', name: 'calculator', content: '4' }
+      ]
+    });
+
+    expect(request.body.tools).toEqual([{ name: 'calculator', description: 'Math', input_schema: { type: 'object' } }]);
+    expect(request.body.messages).toHaveLength(3);
+    expect(request.body.messages[1].content[1]).toEqual({ type: 'tool_use', id: 'toolu_1', name: 'calculator', input: { expression: '1 + 1' } });
+    expect(request.body.messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: '2' },
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: '4' }
+      ]
+    });
+
+    const response = adapter.parseResponse({
+      content: [{ type: 'tool_use', id: 'toolu_3', name: 'calculator', input: { expression: '3' } }],
+      stop_reason: 'tool_use'
+    });
+    expect(response).toEqual({ content: '', finishReason: 'tool_calls', toolCalls: [{ id: 'toolu_3', name: 'calculator', arguments: { expression: '3' } }] });
+  });
+});
@@ -0,0 +1,85 @@
+import { rateLimiter } from '../services/rateLimiter';
+
+describe('Rate Limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    rateLimiter.reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cap the number of concurrent requests', async () => {
+    const limits = { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 1 };
+    const first = await rateLimiter.acquire('openai', limits, 10);
+
+    let secondStarted = false;
+    const second = rateLimiter.acquire('openai', limits, 10).then(release => {
+      secondStarted = true;
+      return release;
+    });
+
+    await Promise.resolve();
+    expect(secondStarted).toBe(false);
+    expect(rateLimiter.getQueueLength('openai')).toBe(1);
+
+    first();
+    (await second)();
+    expect(secondStarted).toBe(true);
+  });
+
+  it('should spread requests over the minute once the request bucket is empty', async () => {
+    const limits = { requestsPerMinute: 2, tokensPerMinute: 0, maxConcurrent: 0 };
+    (await rateLimiter.acquire('perplexity', limits, 10))();
+    (await rateLimiter.acquire('perplexity', limits, 10))();
+
+    let thirdStarted = false;
+    const third = rateLimiter.acquire('perplexity', limits, 10).then(release => {
+      thirdStarted = true;
+      release();
+    });
+
+    jest.advanceTimersByTime(29000);
+    await Promise.resolve();
+    expect(thirdStarted).toBe(false);
+
+    // Two requests per minute refill one slot every 30 seconds
+    jest.advanceTimersByTime(1000);
+    await third;
+    expect(thirdStarted).toBe(true);
+  });
+
+  it('should wait for enough tokens in the tokens-per-minute bucket', async () => {
+    const limits = { requestsPerMinute: 0, tokensPerMinute: 1000, maxConcurrent: 0 };
+    (await rateLimiter.acquire('anthropic', limits, 800))();
+
+    let started = false;
+    const next = rateLimiter.acquire('anthropic', limits, 500).then(release => {
+      started = true;
+      release();
+    });
+
+    jest.advanceTimersByTime(17000);
+    await Promise.resolve();
+    expect(started).toBe(false);
+
+    // 300 more tokens are needed, which takes 18 seconds at 1000 tokens per minute
+    jest.advanceTimersByTime(1000);
+    await next;
+    expect(started).toBe(true);
+  });
+
+  it('should stop waiting when the request is aborted', async () => {
+    const limits = { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 1 };
+    const release = await rateLimiter.acquire('local', limits, 10);
+    const controller = new AbortController();
+
+    const waiting = rateLimiter.acquire('local', limits, 10, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(rateLimiter.getQueueLength('local')).toBe(0);
+    release();
+  });
+});
@@ -0,0 +1,76 @@
+import { ELSE_ROUTE_ID, evaluateCondition, selectRoutes } from '@/services/routerService';
+import { RouterConfig } from '@/types/agent';
+
+const noClassifier = jest.fn(async () => null);
+
+describe('Router service', () => {
+  describe('evaluateCondition', () => {
+    it('should match text case-insensitively unless asked otherwise', () => {
+      expect(evaluateCondition({ type: 'contains', text: 'urgent' }, 'This is URGENT')).toBe(true);
+      expect(evaluateCondition({ type: 'contains', text: 'urgent', caseSensitive: true }, 'This is URGENT')).toBe(false);
+    });
+
+    it('should match regex patterns and report invalid ones', () => {
+      expect(evaluateCondition({ type: 'regex', pattern: '^score: \\d+$', flags: 'm' }, 'Review\nscore: 8')).toBe(true);
+      expect(() => evaluateCondition({ type: 'regex', pattern: '(' }, 'text')).toThrow('Invalid route pattern');
+    });
+
+    it('should compare JSON fields, including JSON inside a code fence', () => {
+      const input = 'Verdict:\n```json\n{"review": {"approved": true, "score": 7, "tags": ["ui"]}}\n```';
+      expect(evaluateCondition({ type: 'json', path: 'review.approved', operator: 'equals', value: 'true' }, input)).toBe(true);
+      expect(evaluateCondition({ type: 'json', path: 'review.score', operator: 'greaterThan', value: '8' }, input)).toBe(false);
+      expect(evaluateCondition({ type: 'json', path: 'review.tags', operator: 'contains', value: 'ui' }, input)).toBe(true);
+      expect(evaluateCondition({ type: 'json', path: 'review.owner', operator: 'exists' }, input)).toBe(false);
+      expect(evaluateCondition({ type: 'json', path: 'review.approved', operator: 'equals', value: 'true' }, 'not json')).toBe(false);
+    });
+  });
+
+  describe('selectRoutes', () => {
+    const config: RouterConfig = {
+      routes: [
+        { id: 'a', name: 'Mentions apples', condition: { type: 'contains', text: 'apple' } },
+        { id: 'b', name: 'Mentions fruit', condition: { type: 'regex', pattern: 'apple|pear' } }
+      ]
+    };
+
+    it('should take the first matching route in order', async () => {
+      expect(await selectRoutes(config, 'an apple', noClassifier)).toEqual(['a']);
+      expect(await selectRoutes(config, 'a pear', noClassifier)).toEqual(['b']);
+    });
+
+    it('should take every matching route when asked to', async () => {
+      expect(await selectRoutes({ ...config, matchAll: true }, 'an apple', noClassifier)).toEqual(['a', 'b']);
+    });
+
+    it('should fall back to the else route', async () => {
+      expect(await selectRoutes(config, 'a plum', noClassifier)).toEqual([ELSE_ROUTE_ID]);
+    });
+
+    it('should classify the input once for all classification routes', async () => {
+      const classify = jest.fn(async () => 'billing');
+      const classified: RouterConfig = {
+        routes: [
+          { id: 'tech', name: 'Technical', condition: { type: 'classify', label: 'technical' } },
+          { id: 'bill', name: 'Billing', condition: { type: 'classify', label: 'billing' } }
+        ]
+      };
+
+      expect(await selectRoutes(classified, 'my invoice is wrong', classify)).toEqual(['bill']);
+      expect(classify).toHaveBeenCalledTimes(1);
+      expect(classify).toHaveBeenCalledWith('my invoice is wrong', ['technical', 'billing']);
+    });
+
+    it('should not classify when an earlier route already matched', async () => {
+      const classify = jest.fn(async () => 'other');
+      const mixed: RouterConfig = {
+        routes: [
+          { id: 'a', name: 'Mentions apples', condition: { type: 'contains', text: 'apple' } },
+          { id: 'other', name: 'Other', condition: { type: 'classify', label: 'other' } }
+        ]
+      };
+
+      expect(await selectRoutes(mixed, 'an apple', classify)).toEqual(['a']);
+      expect(classify).not.toHaveBeenCalled();
+    });
+  });
+});
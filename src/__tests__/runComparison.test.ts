@@ -0,0 +1,79 @@
+import { compareRuns, isSameCanvas } from '@/services/runComparison';
+import { Run } from '@/services/runHistory';
+import { Agent, AgentNode } from '@/types/agent';
+
+const agent = (overrides: Partial<Agent> = {}): Agent => ({
+  id: 'writer',
+  name: 'Writer',
+  systemPrompt: 'Write a short essay',
+  provider: 'openai',
+  model: 'gpt-4o',
+  color: '#000000',
+  ...overrides
+});
+
+const node = (id: string, inputs: string[] = []): AgentNode => ({
+  id,
+  type: 'agent',
+  position: { x: 0, y: 0 },
+  data: { agentId: 'writer', label: 'Writer', inputs, outputs: [] }
+});
+
+const run = (id: string, nodes: AgentNode[], agents: Agent[], outputs: Record<string, string>): Run => ({
+  id,
+  startedAt: 0,
+  status: 'completed',
+  scope: { type: 'all' },
+  incremental: false,
+  snapshot: { nodes, edges: [], agents },
+  nodes: Object.fromEntries(Object.entries(outputs).map(([nodeId, output]) => [
+    nodeId,
+    { nodeId, status: 'completed' as const, output, input: nodes.find(n => n.id === nodeId)?.data.inputs.join('') }
+  ])),
+  tokens: 0,
+  cost: 0
+});
+
+describe('Run comparison', () => {
+  it('should show the prompt change that changed an output', () => {
+    const before = run('run-1', [node('a', ['cats'])], [agent()], { a: 'Cats are great pets.' });
+    const after = run('run-2', [node('a', ['cats'])], [agent({ systemPrompt: 'Write a long essay' })], { a: 'Cats are wonderful, loyal pets.' });
+
+    const [comparison] = compareRuns(before, after);
+
+    expect(comparison.changed).toBe(true);
+    expect(comparison.changes).toEqual([{ field: 'systemPrompt', before: 'Write a short essay', after: 'Write a long essay' }]);
+    expect(comparison.outputDiff.filter(part => part.type === 'removed').map(part => part.text)).toEqual(['great']);
+    expect(comparison.outputDiff.filter(part => part.type === 'added').map(part => part.text)).toEqual(['wonderful, loyal']);
+    expect(comparison.inputDiff.every(part => part.type === 'equal')).toBe(true);
+  });
+
+  it('should report node input changes and leave unchanged nodes unmarked', () => {
+    const before = run('run-1', [node('a', ['cats']), node('b', ['dogs'])], [agent()], { a: 'About cats', b: 'About dogs' });
+    const after = run('run-2', [node('a', ['kittens']), node('b', ['dogs'])], [agent()], { a: 'About kittens', b: 'About dogs' });
+
+    const [first, second] = compareRuns(before, after);
+
+    expect(first.changes).toEqual([{ field: 'inputs', before: 'cats', after: 'kittens' }]);
+    expect(second.changed).toBe(false);
+  });
+
+  it('should include nodes that only exist in one of the runs', () => {
+    const before = run('run-1', [node('a'), node('old')], [agent()], { a: 'Same', old: 'Gone' });
+    const after = run('run-2', [node('a')], [agent()], { a: 'Same' });
+
+    const comparisons = compareRuns(before, after);
+
+    expect(comparisons.map(comparison => comparison.nodeId)).toEqual(['a', 'old']);
+    expect(comparisons[1]).toMatchObject({ statusBefore: 'completed', statusAfter: undefined, changed: true });
+  });
+
+  it('should only treat runs that share nodes as the same canvas', () => {
+    const first = run('run-1', [node('a')], [agent()], {});
+    const second = run('run-2', [node('a'), node('b')], [agent()], {});
+    const other = run('run-3', [node('x')], [agent()], {});
+
+    expect(isSameCanvas(first, second)).toBe(true);
+    expect(isSameCanvas(first, other)).toBe(false);
+  });
+});
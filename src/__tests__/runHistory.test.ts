@@ -0,0 +1,73 @@
+import { RunRecorder } from '@/services/runHistory';
+import { AgentProvider, WorkflowEngine, WorkflowGraph } from '@/services/workflowEngine';
+import { Agent, AgentNode } from '@/types/agent';
+
+const agent = (id: string, systemPrompt: string): Agent => ({
+  id,
+  name: id,
+  systemPrompt,
+  provider: 'openai',
+  model: 'gpt-4o',
+  color: '#000000'
+});
+
+const node = (id: string, agentId?: string, inputs: string[] = []): AgentNode => ({
+  id,
+  type: agentId ? 'agent' : 'output',
+  position: { x: 0, y: 0 },
+  data: { agentId, label: agentId ? id : 'Output Box', inputs, outputs: [] }
+});
+
+describe('Run recorder', () => {
+  const graph: WorkflowGraph = {
+    nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')],
+    edges: [{ id: 'a-b', source: 'a', target: 'b' }, { id: 'b-out', source: 'b', target: 'out' }],
+    agents: [agent('writer', 'Write an essay'), agent('critic', '')]
+  };
+
+  it('should record what every node ran with and produced', async () => {
+    const provider: AgentProvider = {
+      generate: async ({ agent, input, options }) => {
+        options.onUsage({ model: 'gpt-4o', promptTokens: 100, completionTokens: 50, cost: 0.001 });
+        return `${agent.name}(${input})`;
+      }
+    };
+    const engine = new WorkflowEngine(graph, provider);
+    const recorder = new RunRecorder(graph);
+    engine.subscribe(recorder.handleEvent);
+
+    await engine.run();
+    const run = recorder.getRun();
+
+    expect(run).toMatchObject({ status: 'completed', scope: { type: 'all' }, tokens: 300, cost: 0.002 });
+    expect(run.finishedAt).toBeGreaterThanOrEqual(run.startedAt);
+    expect(run.nodes.a).toMatchObject({ status: 'completed', systemPrompt: 'Write an essay', input: 'topic', output: 'writer(topic)' });
+    // Agents without a prompt record the default prompt they actually ran with
+    expect(run.nodes.b.systemPrompt).toContain('You are a helpful AI assistant');
+    expect(run.nodes.b.input).toBe('writer(topic)');
+    expect(run.nodes.b.finishedAt).toBeGreaterThanOrEqual(run.nodes.b.startedAt);
+    expect(run.nodes.out.output).toBe('critic(writer(topic))');
+  });
+
+  it('should keep the canvas as it was when the run started', () => {
+    const editable: WorkflowGraph = JSON.parse(JSON.stringify(graph));
+    const recorder = new RunRecorder(editable, { type: 'only', nodeId: 'b' });
+
+    editable.nodes[0].data.inputs.push('a later edit');
+
+    expect(recorder.getRun().snapshot.nodes[0].data.inputs).toEqual(['topic']);
+    expect(recorder.getRun().scope).toEqual({ type: 'only', nodeId: 'b' });
+  });
+
+  it('should record failed nodes with their error', async () => {
+    const provider: AgentProvider = { generate: jest.fn().mockRejectedValue(new Error('Boom')) };
+    const engine = new WorkflowEngine(graph, provider);
+    const recorder = new RunRecorder(graph);
+    engine.subscribe(recorder.handleEvent);
+
+    await engine.run();
+
+    expect(recorder.getRun().nodes.a).toMatchObject({ status: 'error', error: 'API error: Boom', input: 'topic' });
+    expect(recorder.getRun().nodes.b).toMatchObject({ status: 'error', error: 'Dependency error: API error: Boom' });
+  });
+});
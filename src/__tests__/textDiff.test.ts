@@ -0,0 +1,28 @@
+import { diffWords } from '@/utils/textDiff';
+
+describe('Word diff', () => {
+  it('should mark removed and added words', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+      { type: 'added', text: ' jumps' }
+    ]);
+  });
+
+  it('should give back both texts from its parts', () => {
+    const before = 'First line\nSecond line with words\n\nThird';
+    const after = 'First line\nA second line with more words\nThird';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before);
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+  });
+});
@@ -0,0 +1,48 @@
+import { getTool, listTools } from '@/services/tools';
+import { evaluateExpression } from '@/services/tools/calculator';
+import { queryJson } from '@/services/tools/jsonQuery';
+
+describe('Built-in tools', () => {
+  const run = (name: string, args: Record<string, unknown>, context = {}) => getTool(name).execute(args, context);
+
+  it('should register every tool under a unique name with an object schema', () => {
+    const names = listTools().map(tool => tool.name);
+    expect(new Set(names).size).toBe(names.length);
+    listTools().forEach(tool => expect(tool.parameters.type).toBe('object'));
+  });
+
+  it('should evaluate arithmetic with precedence, parentheses and functions', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-sqrt(16) + 10 % 3')).toBe(-3);
+    expect(() => evaluateExpression('alert(1)')).toThrow();
+    expect(() => evaluateExpression('1 +')).toThrow();
+  });
+
+  it('should do date math in UTC', () => {
+    expect(run('date_math', { operation: 'add', date: '2024-01-31T00:00:00Z', amount: 2, unit: 'days' })).toBe('2024-02-02T00:00:00.000Z');
+    expect(run('date_math', { operation: 'difference', date: '2024-01-01', otherDate: '2024-03-01', unit: 'days' })).toBe('60');
+    expect(run('date_math', { operation: 'weekday', date: '2024-07-04' })).toBe('Thursday');
+    expect(() => run('date_math', { operation: 'weekday', date: 'not a date' })).toThrow('Invalid date');
+  });
+
+  it('should query JSON documents by path', () => {
+    const data = { items: [{ name: 'a', price: 1 }, { name: 'b', price: 2 }] };
+    expect(queryJson(data, '$.items[1].name')).toBe('b');
+    expect(queryJson(data, 'items[*].price')).toEqual([1, 2]);
+    expect(queryJson(data, '$.missing.field')).toBeUndefined();
+    expect(run('json_query', { json: '```json\n{"a": {"b": [1, 2]}}\n```', path: 'a.b' })).toBe('[1,2]');
+  });
+
+  it('should extract regex matches or capture groups', () => {
+    expect(run('regex_extract', { text: 'Order #12 and #345', pattern: '#(\\d+)', group: 1 })).toBe('["12","345"]');
+    expect(run('regex_extract', { text: 'Foo foo', pattern: 'foo', flags: 'i' })).toBe('["Foo","foo"]');
+  });
+
+  it('should read other nodes through the tool context', () => {
+    const readNodeOutput = (node: string) => (node === 'Researcher' ? 'Findings' : undefined);
+    expect(run('read_node_output', { node: 'Researcher' }, { readNodeOutput })).toBe('Findings');
+    expect(() => run('read_node_output', { node: 'Nobody' }, { readNodeOutput })).toThrow('No node named');
+  });
+});
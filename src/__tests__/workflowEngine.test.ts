@@ -0,0 +1,980 @@
+import { AgentProvider, ApprovalDecision, DebugCommand, ResumeState, RunSummary, WorkflowEngine, WorkflowEvent, WorkflowGraph } from '@/services/workflowEngine';
+import { ProviderError } from '@/services/ai-service';
+import { Agent, AgentEdge, AgentNode, ApprovalConfig, ErrorPolicy, MapConfig, ReduceConfig, RouterConfig } from '@/types/agent';
+
+const agent = (id: string, overrides: Partial<Agent> = {}): Agent => ({
+  id,
+  name: id,
+  systemPrompt: `You are ${id}`,
+  provider: 'openai',
+  model: 'gpt-4o',
+  color: '#000000',
+  ...overrides
+});
+
+const node = (id: string, agentId?: string, inputs: string[] = []): AgentNode => ({
+  id,
+  type: agentId ? 'agent' : 'output',
+  position: { x: 0, y: 0 },
+  data: { agentId, label: agentId ? id : 'Output Box', inputs, outputs: [] }
+});
+
+const edge = (source: string, target: string): AgentEdge => ({ id: `${source}-${target}`, source, target });
+
+const routerNode = (id: string, router: RouterConfig): AgentNode => ({
+  id,
+  type: 'router',
+  position: { x: 0, y: 0 },
+  data: { label: 'Router', inputs: [], outputs: [], router }
+});
+
+const listNode = (id: string, type: 'map' | 'reduce', config: MapConfig | ReduceConfig, inputs: string[] = []): AgentNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: type, inputs, outputs: [], [type]: config }
+});
+
+const approvalNode = (id: string, approval: ApprovalConfig = {}): AgentNode => ({
+  id,
+  type: 'approval',
+  position: { x: 0, y: 0 },
+  data: { label: 'Approval', inputs: [], outputs: [], approval }
+});
+
+const routeEdge = (source: string, route: string, target: string): AgentEdge => ({
+  id: `${source}-${route}-${target}`, source, target, sourceHandle: route
+});
+
+// Answers with the agent name and its input, so tests can see what flowed where
+const echoProvider = (): AgentProvider & { generate: jest.Mock } => ({
+  generate: jest.fn(async ({ agent, input }) => `${agent.name}(${input})`)
+});
+
+describe('Workflow engine', () => {
+  it('should run dependencies first, once each, and collect results in Output Boxes', async () => {
+    // a feeds both b and c, which both feed the output
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('c', 'editor'), node('out')],
+      edges: [edge('a', 'b'), edge('a', 'c'), edge('b', 'out'), edge('c', 'out')],
+      agents: [agent('writer'), agent('critic'), agent('editor')]
+    };
+    const provider = echoProvider();
+    const engine = new WorkflowEngine(graph, provider);
+    const events: WorkflowEvent[] = [];
+    engine.subscribe(event => events.push(event));
+
+    const summary = await engine.run();
+
+    expect(summary.status).toBe('completed');
+    expect(provider.generate).toHaveBeenCalledTimes(3);
+    expect(summary.results.out.output).toBe('critic(writer(topic))\n\n---\n\neditor(writer(topic))');
+    expect(events.filter(event => event.type === 'nodeCompleted').map(event => 'nodeId' in event && event.nodeId))
+      .toEqual(['a', 'b', 'c', 'out']);
+    expect(events[events.length - 1]).toEqual({ type: 'runFinished', summary });
+  });
+
+  describe('parallel branches', () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'researcher', ['topic A']), node('b', 'analyst', ['topic B']), node('summary', 'summarizer'), node('out')],
+      edges: [edge('a', 'summary'), edge('b', 'summary'), edge('summary', 'out')],
+      agents: [agent('researcher'), agent('analyst'), agent('summarizer')]
+    };
+
+    // Holds every request until the test answers it
+    const deferredProvider = () => {
+      const pending = new Map<string, (output: string) => void>();
+      const provider: AgentProvider = {
+        generate: ({ agent, input }) => new Promise(resolve => {
+          pending.set(agent.name, resolve);
+          if (agent.name === 'summarizer') resolve(`summary(${input})`);
+        })
+      };
+      return { provider, pending };
+    };
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should run independent branches at the same time and combine them in edge order', async () => {
+      const { provider, pending } = deferredProvider();
+      const running = new WorkflowEngine(graph, provider).run();
+
+      await flush();
+      expect([...pending.keys()]).toEqual(['researcher', 'analyst']);
+
+      // The second branch finishing first doesn't change the order of the summarizer's inputs
+      pending.get('analyst')('Finding B');
+      await flush();
+      pending.get('researcher')('Finding A');
+      const summary = await running;
+
+      expect(summary.results.summary.output).toBe('summary(--- INPUT 1 ---\nFinding A\n\n--- INPUT 2 ---\nFinding B)');
+    });
+
+    it('should run no more nodes at once than maxParallelism', async () => {
+      const { provider, pending } = deferredProvider();
+      const running = new WorkflowEngine(graph, provider, { maxParallelism: 1 }).run();
+
+      await flush();
+      expect([...pending.keys()]).toEqual(['researcher']);
+
+      pending.get('researcher')('Finding A');
+      await flush();
+      expect([...pending.keys()]).toEqual(['researcher', 'analyst']);
+
+      pending.get('analyst')('Finding B');
+      expect((await running).status).toBe('completed');
+    });
+
+    it('should fail a node that throws outside its own error handling and finish the run', async () => {
+      // A malformed saved result makes checking the summarizer's incoming edges throw, which
+      // happens before the node's own error handling
+      const resumeFrom = { a: { nodeId: 'a', output: 'Finding A', status: 'completed', routes: {} as string[] } as const };
+
+      const summary = await new WorkflowEngine(graph, echoProvider(), { resumeFrom }).run();
+
+      expect(summary.status).toBe('completed');
+      expect(summary.results.b.status).toBe('completed');
+      expect(summary.results.summary).toMatchObject({ status: 'error', error: expect.stringContaining('Unexpected error:') });
+      expect(summary.results.out.status).toBe('error');
+    });
+  });
+
+  it('should fail downstream nodes when a dependency fails', async () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')],
+      edges: [edge('a', 'b'), edge('b', 'out')],
+      agents: [agent('writer'), agent('critic')]
+    };
+    const provider: AgentProvider = { generate: jest.fn().mockRejectedValue(new Error('Boom')) };
+
+    const summary = await new WorkflowEngine(graph, provider).run();
+
+    expect(summary.results.a).toMatchObject({ status: 'error', error: 'API error: Boom' });
+    expect(summary.results.b).toMatchObject({ status: 'error', error: 'Dependency error: API error: Boom' });
+    expect(summary.results.out.status).toBe('error');
+  });
+
+  it('should report circular dependencies instead of waiting forever', async () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')],
+      edges: [edge('b', 'a'), edge('a', 'b'), edge('b', 'out')],
+      agents: [agent('writer'), agent('critic')]
+    };
+
+    const summary = await new WorkflowEngine(graph, echoProvider()).run();
+
+    expect(summary.results.b.error).toContain('Circular dependency detected');
+    expect(summary.results.out.status).toBe('error');
+  });
+
+  it('should cancel running requests and the nodes waiting on them', async () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')],
+      edges: [edge('a', 'b'), edge('b', 'out')],
+      agents: [agent('writer'), agent('critic')]
+    };
+    const provider: AgentProvider = {
+      generate: ({ options }) => new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+      })
+    };
+    const engine = new WorkflowEngine(graph, provider);
+    engine.subscribe(event => {
+      if (event.type === 'nodeStarted' && event.nodeId === 'a') {
+        setTimeout(() => engine.cancel(), 0);
+      }
+    });
+
+    const summary = await engine.run();
+
+    expect(summary.status).toBe('cancelled');
+    expect(summary.results.a).toMatchObject({ status: 'cancelled', error: 'Cancelled by user' });
+    expect(summary.results.b.status).toBe('cancelled');
+  });
+
+  it('should report progress, usage and tool calls of a running node', async () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('out')],
+      edges: [edge('a', 'out')],
+      agents: [agent('writer')]
+    };
+    const provider: AgentProvider = {
+      generate: async ({ options }) => {
+        options.onToolCall({ name: 'calculator', arguments: { expression: '1 + 1' }, result: '2' });
+        options.onUsage({ model: 'gpt-4o', promptTokens: 100, completionTokens: 20, cost: 0.0005 });
+        return 'Done';
+      }
+    };
+    const engine = new WorkflowEngine(graph, provider);
+    const events: WorkflowEvent[] = [];
+    engine.subscribe(event => events.push(event));
+
+    const summary = await engine.run();
+
+    expect(events.some(event => event.type === 'nodeProgress' && event.result.toolCalls?.length === 1)).toBe(true);
+    expect(events.some(event => event.type === 'usage' && event.usage.cost === 0.0005)).toBe(true);
+    expect(summary.results.a).toMatchObject({ status: 'completed', promptTokens: 100, completionTokens: 20, cost: 0.0005 });
+  });
+
+  describe('partial and incremental runs', () => {
+    const agents = [agent('writer'), agent('critic')];
+    const edges = [edge('a', 'b'), edge('b', 'out')];
+
+    // Canvas nodes as they are after a run, holding each node's latest output and run hash
+    const afterRun = (nodes: AgentNode[], summary: RunSummary): AgentNode[] => nodes.map(n => {
+      const result = summary.results[n.id];
+      return result?.status === 'completed'
+        ? { ...n, data: { ...n.data, outputs: [result.output], runHash: result.runHash } }
+        : n;
+    });
+    const firstRun = async () => {
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')];
+      return afterRun(nodes, await new WorkflowEngine({ nodes, edges, agents }, echoProvider()).run());
+    };
+
+    it('should only re-run nodes whose inputs, agent or upstream outputs changed', async () => {
+      const nodes = await firstRun();
+      const provider = echoProvider();
+
+      const unchanged = await new WorkflowEngine({ nodes, edges, agents }, provider, { incremental: true }).run();
+      expect(provider.generate).not.toHaveBeenCalled();
+      expect(unchanged.results.out).toMatchObject({ status: 'completed', reused: true, output: 'critic(writer(topic))' });
+
+      // Changing the critic's prompt makes it stale; its answer comes out the same, so the Output Box isn't
+      const changedAgents = [agents[0], { ...agents[1], systemPrompt: 'Be harsh' }];
+      const changedPrompt = await new WorkflowEngine({ nodes, edges, agents: changedAgents }, provider, { incremental: true }).run();
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(changedPrompt.results.a.reused).toBe(true);
+      expect(changedPrompt.results.b.reused).toBeUndefined();
+      expect(changedPrompt.results.out.reused).toBe(true);
+
+      // A new input for the writer changes everything after it
+      const changedNodes = nodes.map(n => n.id === 'a' ? { ...n, data: { ...n.data, inputs: ['another topic'] } } : n);
+      const changedInput = await new WorkflowEngine({ nodes: changedNodes, edges, agents }, provider, { incremental: true }).run();
+      expect(provider.generate).toHaveBeenCalledTimes(3);
+      expect(changedInput.results.out).toMatchObject({ output: 'critic(writer(another topic))' });
+      expect(changedInput.results.out.reused).toBeUndefined();
+    });
+
+    it('should run from a node, reusing the outputs before it', async () => {
+      const nodes = await firstRun();
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine({ nodes, edges, agents }, provider, { scope: { type: 'from', nodeId: 'b' } }).run();
+
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(provider.generate.mock.calls[0][0].agent.id).toBe('critic');
+      expect(summary.results.a.reused).toBe(true);
+      expect(summary.results.out).toMatchObject({ status: 'completed', output: 'critic(writer(topic))' });
+    });
+
+    it('should run only a single node', async () => {
+      const nodes = await firstRun();
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine({ nodes, edges, agents }, provider, { scope: { type: 'only', nodeId: 'b' } }).run();
+
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(summary.results.b.status).toBe('completed');
+      expect(summary.results.out).toBeUndefined();
+    });
+
+    it('should not run the nodes before a single node that has no output to use', async () => {
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')];
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine({ nodes, edges, agents }, provider, { scope: { type: 'only', nodeId: 'b' } }).run();
+
+      expect(provider.generate).not.toHaveBeenCalled();
+      expect(summary.results.a.status).toBe('skipped');
+      expect(summary.results.b).toMatchObject({ status: 'skipped', error: 'No output from an earlier run; run the canvas first' });
+    });
+  });
+
+  describe('routers', () => {
+    const router: RouterConfig = {
+      routes: [
+        { id: 'bug', name: 'Bug', condition: { type: 'contains', text: 'crash' } },
+        { id: 'question', name: 'Question', condition: { type: 'regex', pattern: '\\?$' } }
+      ]
+    };
+    // triage -> router -> fixer or answerer or filer (else) -> out
+    const routedGraph = (input: string): WorkflowGraph => ({
+      nodes: [node('triage', 'triager', [input]), routerNode('route', router), node('fix', 'fixer'), node('answer', 'answerer'), node('file', 'filer'), node('out')],
+      edges: [
+        edge('triage', 'route'),
+        routeEdge('route', 'bug', 'fix'),
+        routeEdge('route', 'question', 'answer'),
+        routeEdge('route', 'else', 'file'),
+        edge('fix', 'out'),
+        edge('answer', 'out'),
+        edge('file', 'out')
+      ],
+      agents: [agent('triager'), agent('fixer'), agent('answerer'), agent('filer')]
+    });
+
+    it('should only run the branch of the selected route and pass the input on unchanged', async () => {
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine(routedGraph('the app crashes'), provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(summary.results.route).toMatchObject({ status: 'completed', output: 'triager(the app crashes)', routes: ['bug'] });
+      expect(summary.results.answer).toMatchObject({ status: 'skipped', error: 'Not on the route the router selected' });
+      expect(summary.results.file.status).toBe('skipped');
+      // The join only sees the branch that ran
+      expect(summary.results.out.output).toBe('fixer(triager(the app crashes))');
+      expect(provider.generate.mock.calls.map(([request]) => request.agent.name)).toEqual(['triager', 'fixer']);
+    });
+
+    it('should take the else route when nothing matches', async () => {
+      const summary = await new WorkflowEngine(routedGraph('please add dark mode'), echoProvider()).run();
+
+      expect(summary.results.route.routes).toEqual(['else']);
+      expect(summary.results.out.output).toBe('filer(triager(please add dark mode))');
+    });
+
+    it('should skip everything after a router that only leads to unselected routes', async () => {
+      const graph: WorkflowGraph = {
+        nodes: [routerNode('route', router), node('fix', 'fixer'), node('review', 'reviewer'), node('out')],
+        edges: [routeEdge('route', 'bug', 'fix'), edge('fix', 'review'), edge('review', 'out')],
+        agents: [agent('fixer'), agent('reviewer')]
+      };
+      graph.nodes[0].data.inputs = ['how do I export?'];
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(summary.results.review.status).toBe('skipped');
+      expect(summary.results.out.status).toBe('skipped');
+      expect(provider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should ask the classifier agent for a label', async () => {
+      const graph: WorkflowGraph = {
+        nodes: [
+          routerNode('route', {
+            routes: [
+              { id: 'refund', name: 'Refund', condition: { type: 'classify', label: 'refund' } },
+              { id: 'other', name: 'Other', condition: { type: 'classify', label: 'other' } }
+            ],
+            classifierAgentId: 'classifier'
+          }),
+          node('refunds', 'refunder'),
+          node('support', 'supporter'),
+          node('out')
+        ],
+        edges: [routeEdge('route', 'refund', 'refunds'), routeEdge('route', 'other', 'support'), edge('refunds', 'out'), edge('support', 'out')],
+        agents: [agent('classifier', { tools: ['calculator'] }), agent('refunder'), agent('supporter')]
+      };
+      graph.nodes[0].data.inputs = ['I want my money back'];
+      const provider: AgentProvider & { generate: jest.Mock } = {
+        generate: jest.fn(async ({ agent, input }) => agent.name === 'classifier' ? '{"label": "refund"}' : `${agent.name}(${input})`)
+      };
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(summary.results.route.routes).toEqual(['refund']);
+      expect(summary.results.refunds.status).toBe('completed');
+      expect(summary.results.support.status).toBe('skipped');
+      const [classification] = provider.generate.mock.calls[0];
+      expect(classification.agent.tools).toBeUndefined();
+      expect(classification.options.outputSchema.properties.label.enum).toEqual(['refund', 'other']);
+    });
+  });
+
+  describe('loops', () => {
+    // writer -> critic, critic loops back to writer, and the final draft goes to the output
+    const loopGraph = (loop: AgentEdge['loop']): WorkflowGraph => ({
+      nodes: [node('write', 'writer', ['topic']), node('critique', 'critic'), node('out')],
+      edges: [edge('write', 'critique'), { ...edge('critique', 'write'), loop }, edge('write', 'out')],
+      agents: [agent('writer'), agent('critic')]
+    });
+
+    // The critic approves the given draft number
+    const reviewingProvider = (approveOnCall: number) => {
+      let reviews = 0;
+      return {
+        generate: jest.fn(async ({ agent, input }) => {
+          if (agent.name !== 'critic') return `draft ${input.length}`;
+          reviews++;
+          return JSON.stringify({ approved: reviews === approveOnCall, review: reviews });
+        })
+      };
+    };
+
+    it('should repeat the loop until the stop condition is met and pass the final output on', async () => {
+      const provider = reviewingProvider(2);
+      const graph = loopGraph({ maxIterations: 5, stopWhen: { type: 'json', path: 'approved', operator: 'equals', value: 'true' } });
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(provider.generate).toHaveBeenCalledTimes(4);
+      // The second draft is written with the critic's review
+      const [, , [secondDraft]] = provider.generate.mock.calls;
+      expect(secondDraft.input).toContain('topic');
+      expect(secondDraft.input).toContain('{"approved":false,"review":1}');
+      expect(summary.results.write.iterations).toHaveLength(2);
+      expect(summary.results.critique.iterations).toEqual(['{"approved":false,"review":1}', '{"approved":true,"review":2}']);
+      // The output only sees the last draft
+      expect(summary.results.out.output).toBe(summary.results.write.iterations[1]);
+    });
+
+    it('should stop after the maximum number of iterations', async () => {
+      const provider = reviewingProvider(0);
+
+      const summary = await new WorkflowEngine(loopGraph({ maxIterations: 3, stopWhen: { type: 'regex', pattern: '"approved":true' } }), provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(provider.generate).toHaveBeenCalledTimes(6);
+      expect(summary.results.write.iterations).toHaveLength(3);
+      expect(summary.results.out.status).toBe('completed');
+    });
+
+    it('should stop when a node in the loop fails', async () => {
+      let drafts = 0;
+      const provider = {
+        generate: jest.fn(async ({ agent }) => {
+          if (agent.name === 'critic') return 'Needs work';
+          if (++drafts === 2) throw new Error('Service unavailable');
+          return 'Draft';
+        })
+      };
+
+      const summary = await new WorkflowEngine(loopGraph({ maxIterations: 5 }), provider).run();
+
+      expect(provider.generate).toHaveBeenCalledTimes(3);
+      expect(summary.results.write.status).toBe('error');
+      expect(summary.results.critique.status).toBe('error');
+      expect(summary.results.out.status).toBe('error');
+    });
+  });
+
+  describe('map and reduce', () => {
+    // companies -> research (per company) -> summarize (per company) -> join -> out
+    const mapGraph = (concurrency: number): WorkflowGraph => ({
+      nodes: [
+        listNode('companies', 'map', { split: 'lines', concurrency }, ['Acme\nGlobex\nInitech']),
+        node('research', 'researcher', ['Find their revenue']),
+        node('summarize', 'summarizer'),
+        listNode('join', 'reduce', { format: 'numbered' }),
+        node('out')
+      ],
+      edges: [edge('companies', 'research'), edge('research', 'summarize'), edge('summarize', 'join'), edge('join', 'out')],
+      agents: [agent('researcher'), agent('summarizer')]
+    });
+
+    it('should run the agents after a Map node once per item and join the answers in order', async () => {
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine(mapGraph(2), provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(summary.results.companies.items).toEqual(['Acme', 'Globex', 'Initech']);
+      expect(provider.generate).toHaveBeenCalledTimes(6);
+      // Node inputs are shared context for every item
+      expect(summary.results.research.items[0]).toBe('researcher(--- INPUT 1 ---\nFind their revenue\n\n--- INPUT 2 ---\nAcme)');
+      expect(summary.results.summarize.items[2]).toContain('Initech');
+      expect(summary.results.out.output).toBe(
+        summary.results.summarize.items.map((item, index) => `${index + 1}. ${item}`).join('\n\n')
+      );
+    });
+
+    it('should answer no more items at once than the Map node allows', async () => {
+      let running = 0;
+      let mostRunning = 0;
+      const provider: AgentProvider = {
+        generate: async ({ input }) => {
+          running++;
+          mostRunning = Math.max(mostRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+          return `answer for ${input}`;
+        }
+      };
+
+      const summary = await new WorkflowEngine(mapGraph(2), provider).run();
+
+      expect(summary.status).toBe('completed');
+      expect(mostRunning).toBe(2);
+    });
+
+    it('should fail the node when an item fails', async () => {
+      const provider: AgentProvider = {
+        generate: jest.fn(async ({ input }) => {
+          if (input.includes('Globex')) throw new Error('Rate limit exceeded');
+          return 'Revenue unknown';
+        })
+      };
+
+      const summary = await new WorkflowEngine(mapGraph(1), provider).run();
+
+      expect(summary.results.research).toMatchObject({ status: 'error', error: 'Item 2 of 3: API error: Rate limit exceeded' });
+      // Items after the failing one don't start
+      expect(provider.generate).toHaveBeenCalledTimes(2);
+      expect(summary.results.join.status).toBe('error');
+    });
+
+    it('should join whole outputs when nothing before a Reduce node has items', async () => {
+      const graph: WorkflowGraph = {
+        nodes: [node('a', 'writer', ['x']), node('b', 'critic', ['y']), listNode('join', 'reduce', { format: 'json' }), node('out')],
+        edges: [edge('a', 'join'), edge('b', 'join'), edge('join', 'out')],
+        agents: [agent('writer'), agent('critic')]
+      };
+
+      const summary = await new WorkflowEngine(graph, echoProvider()).run();
+
+      expect(JSON.parse(summary.results.join.output)).toEqual(['writer(x)', 'critic(y)']);
+    });
+  });
+
+  describe('approvals', () => {
+    // draft -> review -> publish on approval, or -> rewrite on rejection
+    const approvalGraph = (approval: ApprovalConfig = {}): WorkflowGraph => ({
+      nodes: [node('draft', 'writer', ['topic']), approvalNode('review', approval), node('publish', 'publisher'), node('rewrite', 'rewriter'), node('out')],
+      edges: [
+        edge('draft', 'review'),
+        routeEdge('review', 'approved', 'publish'),
+        routeEdge('review', 'rejected', 'rewrite'),
+        edge('publish', 'out'),
+        edge('rewrite', 'out')
+      ],
+      agents: [agent('writer'), agent('publisher'), agent('rewriter')]
+    });
+
+    // Answer the first approval request with the given decision
+    const runWithReview = async (engine: WorkflowEngine, decide: (content: string) => ApprovalDecision) => {
+      engine.subscribe(event => {
+        if (event.type === 'approvalRequested') {
+          engine.resolveApproval(event.nodeId, decide(event.approval.content));
+        }
+      });
+      return engine.run();
+    };
+
+    it('should wait for approval and pass on the edited content', async () => {
+      const engine = new WorkflowEngine(approvalGraph(), echoProvider());
+
+      const summary = await runWithReview(engine, content => ({ type: 'approve', content: `${content} (edited)` }));
+
+      expect(summary.status).toBe('completed');
+      expect(summary.results.review).toMatchObject({ output: 'writer(topic) (edited)', routes: ['approved'] });
+      expect(summary.results.publish.output).toBe('publisher(writer(topic) (edited))');
+      expect(summary.results.rewrite.status).toBe('skipped');
+    });
+
+    it('should fail the node when rejected, unless rejections are routed', async () => {
+      const failing = await runWithReview(new WorkflowEngine(approvalGraph(), echoProvider()), () => ({ type: 'reject', note: 'Too long' }));
+      expect(failing.results.review).toMatchObject({ status: 'error', error: 'Rejected by reviewer: Too long' });
+
+      const routed = await runWithReview(
+        new WorkflowEngine(approvalGraph({ onReject: 'route' }), echoProvider()),
+        () => ({ type: 'reject', note: 'Too long' })
+      );
+      expect(routed.results.publish.status).toBe('skipped');
+      expect(routed.results.rewrite.output).toBe('rewriter(writer(topic)\n\nRejected by reviewer: Too long)');
+    });
+
+    it('should resume a paused run without running the settled nodes again', async () => {
+      const first = new WorkflowEngine(approvalGraph(), echoProvider());
+      const paused = new Promise<ResumeState>(resolve => first.subscribe(event => {
+        if (event.type === 'approvalRequested') resolve(first.getResumeState());
+      }));
+      const firstRun = first.run();
+      const state = await paused;
+      // The page is reloaded: the first engine is gone
+      first.cancel();
+      await firstRun;
+
+      const provider = echoProvider();
+      const resumed = new WorkflowEngine(state.graph, provider, { scope: state.scope, resumeFrom: state.results });
+      const summary = await runWithReview(resumed, () => ({ type: 'approve' }));
+
+      expect(summary.status).toBe('completed');
+      expect(provider.generate.mock.calls.map(([request]) => request.agent.name)).toEqual(['publisher']);
+      expect(summary.results.draft.status).toBe('completed');
+      expect(summary.results.out.output).toBe('publisher(writer(topic))');
+    });
+
+    it('should keep a branch that finished while an approval was pending in the resume state', async () => {
+      const graph = approvalGraph();
+      graph.nodes.push(node('side', 'researcher', ['side topic']));
+      graph.edges.push(edge('side', 'out'));
+      graph.agents.push(agent('researcher'));
+      // The researcher answers only once the approval is pending
+      let answerSide: () => void;
+      const provider: AgentProvider = {
+        generate: ({ agent, input }) => new Promise(resolve => {
+          const answer = () => resolve(`${agent.name}(${input})`);
+          if (agent.name === 'researcher') answerSide = answer; else answer();
+        })
+      };
+      const first = new WorkflowEngine(graph, provider);
+      // Saved on every settled node, as the canvas does while an approval is pending
+      let state: ResumeState;
+      first.subscribe(event => {
+        if (event.type === 'approvalRequested') answerSide();
+        if (event.type === 'nodeCompleted' && event.nodeId === 'side') state = first.getResumeState();
+      });
+      const firstRun = first.run();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      first.cancel();
+      await firstRun;
+
+      expect(state.results.side).toMatchObject({ status: 'completed', output: 'researcher(side topic)' });
+      const resumedProvider = echoProvider();
+      const resumed = new WorkflowEngine(state.graph, resumedProvider, { scope: state.scope, resumeFrom: state.results });
+      await runWithReview(resumed, () => ({ type: 'approve' }));
+      expect(resumedProvider.generate.mock.calls.map(([request]) => request.agent.name)).toEqual(['publisher']);
+    });
+  });
+
+  describe('debugging', () => {
+    // a -> b -> c, with a breakpoint on b
+    const debugGraph = (): WorkflowGraph => {
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic'), node('c', 'editor'), node('out')];
+      nodes[1].data.breakpoint = true;
+      return {
+        nodes,
+        edges: [edge('a', 'b'), edge('b', 'c'), edge('c', 'out')],
+        agents: [agent('writer'), agent('critic'), agent('editor')]
+      };
+    };
+
+    // Answer every breakpoint with the next command, recording where the run paused
+    const runWithDebugger = async (engine: WorkflowEngine, commands: DebugCommand[]) => {
+      const pausedAt: string[] = [];
+      engine.subscribe(event => {
+        if (event.type === 'breakpointHit') {
+          pausedAt.push(event.nodeId);
+          engine.resumeBreakpoint(event.nodeId, commands.shift() || { type: 'continue' });
+        }
+      });
+      const summary = await engine.run();
+      return { summary, pausedAt };
+    };
+
+    it('should only pause at breakpoints in debug runs', async () => {
+      const { pausedAt } = await runWithDebugger(new WorkflowEngine(debugGraph(), echoProvider()), []);
+      expect(pausedAt).toEqual([]);
+
+      const debug = await runWithDebugger(new WorkflowEngine(debugGraph(), echoProvider(), { debug: true }), [{ type: 'continue' }]);
+      expect(debug.pausedAt).toEqual(['b']);
+      expect(debug.summary.results.out.output).toBe('editor(critic(writer(topic)))');
+    });
+
+    it('should show the request at a breakpoint and send the edited one', async () => {
+      const engine = new WorkflowEngine(debugGraph(), echoProvider(), { debug: true });
+      const pauses: Record<string, string>[] = [];
+      engine.subscribe(event => {
+        if (event.type === 'breakpointHit') pauses.push({ systemPrompt: event.pause.systemPrompt, input: event.pause.input });
+      });
+
+      const { summary } = await runWithDebugger(engine, [{ type: 'continue', input: 'edited' }]);
+
+      expect(pauses).toEqual([{ systemPrompt: 'You are critic', input: 'writer(topic)' }]);
+      expect(summary.results.b.output).toBe('critic(edited)');
+      // The edited output can't be reused as if it came from the unedited inputs
+      expect(summary.results.b.runHash).toBeUndefined();
+      expect(summary.results.c.runHash).toBeDefined();
+    });
+
+    it('should pause before the next node after a step', async () => {
+      const { pausedAt } = await runWithDebugger(
+        new WorkflowEngine(debugGraph(), echoProvider(), { debug: true }),
+        [{ type: 'step' }, { type: 'continue' }]
+      );
+      expect(pausedAt).toEqual(['b', 'c']);
+    });
+
+    it('should stop the run on abort', async () => {
+      const provider = echoProvider();
+      const { summary } = await runWithDebugger(new WorkflowEngine(debugGraph(), provider, { debug: true }), [{ type: 'abort' }]);
+
+      expect(summary.status).toBe('cancelled');
+      expect(summary.results.b.status).toBe('cancelled');
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error policies', () => {
+    // Fails every request to the writer agent
+    const failingWriter = (): AgentProvider & { generate: jest.Mock } => ({
+      generate: jest.fn(async ({ agent, input }) => {
+        if (agent.name === 'writer') throw new Error('Service unavailable');
+        return `${agent.name}(${input})`;
+      })
+    });
+
+    // a -> b -> out, with a policy on one of the nodes
+    const policyGraph = (nodeId: 'a' | 'b', errorPolicy: ErrorPolicy): WorkflowGraph => {
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')];
+      nodes.find(n => n.id === nodeId).data.errorPolicy = errorPolicy;
+      return {
+        nodes,
+        edges: [edge('a', 'b'), edge('b', 'out')],
+        agents: [agent('writer'), agent('critic'), agent('backup')]
+      };
+    };
+
+    it('should pass on a placeholder and report the degraded input to the Output Box', async () => {
+      const engine = new WorkflowEngine(policyGraph('a', { type: 'placeholder' }), failingWriter());
+
+      const summary = await engine.run();
+
+      expect(summary.results.a).toMatchObject({
+        status: 'completed',
+        output: '[No output from a: API error: Service unavailable]',
+        degraded: 'API error: Service unavailable'
+      });
+      expect(summary.results.a.runHash).toBeUndefined();
+      expect(summary.results.b.output).toBe('critic([No output from a: API error: Service unavailable])');
+      expect(summary.results.out.degradedInputs).toEqual(['a']);
+    });
+
+    it('should substitute default text when a dependency failed', async () => {
+      const engine = new WorkflowEngine(policyGraph('b', { type: 'default', text: 'No review available' }), failingWriter());
+
+      const summary = await engine.run();
+
+      expect(summary.results.a.status).toBe('error');
+      expect(summary.results.b).toMatchObject({ status: 'completed', output: 'No review available' });
+      expect(summary.results.out).toMatchObject({ output: 'No review available', degradedInputs: ['b'] });
+    });
+
+    it('should retry on the fallback agent', async () => {
+      const engine = new WorkflowEngine(policyGraph('a', { type: 'fallback', agentId: 'backup' }), failingWriter());
+
+      const summary = await engine.run();
+
+      expect(summary.results.a).toMatchObject({
+        status: 'completed',
+        output: 'backup(topic)',
+        degraded: 'Answered by fallback agent backup after: API error: Service unavailable'
+      });
+      expect(summary.results.out.output).toBe('critic(backup(topic))');
+    });
+
+    it('should fail with both errors when the fallback agent fails too', async () => {
+      const engine = new WorkflowEngine(policyGraph('a', { type: 'fallback', agentId: 'writer' }), failingWriter());
+
+      const summary = await engine.run();
+
+      expect(summary.results.a).toMatchObject({
+        status: 'error',
+        error: 'API error: Service unavailable; fallback agent: API error: Service unavailable'
+      });
+      expect(summary.results.b.status).toBe('error');
+    });
+
+    it('should pass on an empty output', async () => {
+      const graph = policyGraph('a', { type: 'empty' });
+      // A node whose only input is empty has nothing to answer, so the critic gets notes of its own
+      graph.nodes.find(n => n.id === 'b').data.inputs = ['notes'];
+      const engine = new WorkflowEngine(graph, failingWriter());
+
+      const summary = await engine.run();
+
+      expect(summary.results.a).toMatchObject({ status: 'completed', output: '', degraded: 'API error: Service unavailable' });
+      expect(summary.results.b.status).toBe('completed');
+      expect(summary.results.out.degradedInputs).toEqual(['a']);
+    });
+
+    it('should stop the run, skipping the nodes still running or pending', async () => {
+      // The writer fails while the critic's request is still in flight
+      const provider: AgentProvider = {
+        generate: ({ agent, options }) => new Promise((resolve, reject) => {
+          if (agent.name === 'writer') reject(new Error('Service unavailable'));
+          options.signal.addEventListener('abort', () => reject(new Error('Request was cancelled')));
+        })
+      };
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic', ['draft']), node('out')];
+      nodes[0].data.errorPolicy = { type: 'fail' };
+      const graph: WorkflowGraph = {
+        nodes,
+        edges: [edge('a', 'out'), edge('b', 'out')],
+        agents: [agent('writer'), agent('critic')]
+      };
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(summary.status).toBe('halted');
+      expect(summary.reason).toBe('Run stopped: a failed: API error: Service unavailable');
+      expect(summary.results.a).toMatchObject({ status: 'error', error: 'API error: Service unavailable' });
+      expect(summary.results.b).toMatchObject({ status: 'skipped', error: summary.reason });
+      expect(summary.results.out).toMatchObject({ status: 'skipped', error: summary.reason });
+    });
+  });
+
+  describe('model fallbacks', () => {
+    const fallbackModels: Agent['fallbackModels'] = [
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' }
+    ];
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('out')],
+      edges: [edge('a', 'out')],
+      agents: [agent('writer', { model: 'gpt-4.5-preview', fallbackModels })]
+    };
+
+    // Fails requests to the given models with the given error
+    const failingModels = (models: string[], error: () => Error): AgentProvider & { generate: jest.Mock } => ({
+      generate: jest.fn(async ({ agent, input }) => {
+        if (models.includes(agent.model)) throw error();
+        return `${agent.model}(${input})`;
+      })
+    });
+
+    it('should try the fallback models in order and record which one answered', async () => {
+      const provider = failingModels(['gpt-4.5-preview', 'gpt-4o'], () => new ProviderError('OpenAI API error: overloaded', 'overloaded'));
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(provider.generate.mock.calls.map(([request]) => request.agent.model)).toEqual(['gpt-4.5-preview', 'gpt-4o', 'claude-3-5-sonnet-20241022']);
+      expect(summary.results.a).toMatchObject({
+        status: 'completed',
+        output: 'claude-3-5-sonnet-20241022(topic)',
+        answeredBy: { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' }
+      });
+      // The next incremental run asks the agent's own model again
+      expect(summary.results.a.runHash).toBeUndefined();
+    });
+
+    it('should record the agent\'s own model when it answered', async () => {
+      const summary = await new WorkflowEngine(graph, echoProvider()).run();
+
+      expect(summary.results.a.answeredBy).toEqual({ provider: 'openai', model: 'gpt-4.5-preview' });
+      expect(summary.results.a.runHash).toBeDefined();
+    });
+
+    it('should not fall back on failures another model would hit too', async () => {
+      const provider = failingModels(['gpt-4.5-preview'], () => new ProviderError('OpenAI API error: Incorrect API key', 'auth'));
+
+      const summary = await new WorkflowEngine(graph, provider).run();
+
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(summary.results.a.status).toBe('error');
+    });
+  });
+
+  describe('timeouts', () => {
+    const graph = (errorPolicy?: ErrorPolicy): WorkflowGraph => {
+      const nodes = [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')];
+      nodes[0].data.errorPolicy = errorPolicy;
+      return {
+        nodes,
+        edges: [edge('a', 'b'), edge('b', 'out')],
+        agents: [agent('writer', { timeoutSeconds: 30 }), agent('critic')]
+      };
+    };
+
+    // The writer's requests run out of time
+    const slowWriter = (): AgentProvider & { generate: jest.Mock } => ({
+      generate: jest.fn(async ({ agent, input }) => {
+        if (agent.name === 'writer') throw new ProviderError('OpenAI API request timed out after 30s', 'timeout');
+        return `${agent.name}(${input})`;
+      })
+    });
+
+    it('should send the agent\'s timeout and mark nodes whose request timed out', async () => {
+      const provider = slowWriter();
+
+      const summary = await new WorkflowEngine(graph(), provider).run();
+
+      expect(provider.generate.mock.calls[0][0].options.timeoutMs).toBe(30000);
+      expect(summary.results.a).toMatchObject({ status: 'timeout', error: 'API error: OpenAI API request timed out after 30s' });
+      expect(summary.results.b).toMatchObject({ status: 'error', error: 'Dependency timed out: API error: OpenAI API request timed out after 30s' });
+    });
+
+    it('should apply the node\'s error policy to timeouts', async () => {
+      const summary = await new WorkflowEngine(graph({ type: 'default', text: 'No draft in time' }), slowWriter()).run();
+
+      expect(summary.results.a).toMatchObject({ status: 'completed', output: 'No draft in time' });
+      expect(summary.results.b.output).toBe('critic(No draft in time)');
+    });
+
+    it('should stop the run at its deadline', async () => {
+      // Answers only once the request is aborted
+      const hangingProvider: AgentProvider = {
+        generate: ({ options }) => new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () => reject(new Error('Request was cancelled')));
+        })
+      };
+
+      const summary = await new WorkflowEngine(graph(), hangingProvider, { deadlineMs: 20 }).run();
+
+      expect(summary).toMatchObject({ status: 'timeout', reason: 'Run deadline of 0.02s passed' });
+      expect(summary.results.a).toMatchObject({ status: 'timeout', error: 'Run deadline of 0.02s passed' });
+      expect(summary.results.b).toMatchObject({ status: 'skipped', error: 'Run deadline of 0.02s passed' });
+    });
+  });
+
+  describe('budget', () => {
+    const graph: WorkflowGraph = {
+      nodes: [node('a', 'writer', ['topic']), node('b', 'critic'), node('out')],
+      edges: [edge('a', 'b'), edge('b', 'out')],
+      // Each request costs at most 1000 completion tokens at $10/M, about a cent
+      agents: [agent('writer', { generationParams: { maxTokens: 1000 } }), agent('critic', { generationParams: { maxTokens: 1000 } })]
+    };
+
+    it('should not start a run whose estimate exceeds a cap', async () => {
+      const provider = echoProvider();
+
+      const summary = await new WorkflowEngine(graph, provider, { budget: { perRunLimit: 0.015, perDayLimit: 0 } }).run();
+
+      expect(summary.status).toBe('rejected');
+      expect(summary.reason).toContain('Run budget');
+      expect(provider.generate).not.toHaveBeenCalled();
+      expect(summary.results.a.status).toBe('skipped');
+      expect(summary.results.out.status).toBe('skipped');
+    });
+
+    it('should halt before a request that could exceed the daily cap and skip the rest', async () => {
+      const provider: AgentProvider = {
+        generate: jest.fn(async ({ options }) => {
+          options.onUsage({ model: 'gpt-4o', promptTokens: 100, completionTokens: 1000, cost: 0.025 });
+          return 'Draft';
+        })
+      };
+
+      // The estimate fits the 3 cents left today, but the first request spends more than expected
+      const summary = await new WorkflowEngine(graph, provider, { budget: { perRunLimit: 0, perDayLimit: 1 }, spentToday: 0.97 }).run();
+
+      expect(summary.status).toBe('halted');
+      expect(summary.reason).toContain('Daily budget');
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(summary.results.a.status).toBe('completed');
+      expect(summary.results.b.status).toBe('skipped');
+      expect(summary.results.out.status).toBe('skipped');
+    });
+
+    it('should count requests in flight against the cap when nodes run side by side', async () => {
+      // Three items reach both writers; the estimate before the run can only count one
+      const parallelGraph: WorkflowGraph = {
+        nodes: [
+          node('lister', 'lister', ['topics']),
+          listNode('list', 'map', { split: 'lines' }),
+          node('first', 'writer'),
+          node('second', 'writer'),
+          node('out')
+        ],
+        edges: [edge('lister', 'list'), edge('list', 'first'), edge('list', 'second'), edge('first', 'out'), edge('second', 'out')],
+        agents: [agent('lister', { generationParams: { maxTokens: 1000 } }), agent('writer', { generationParams: { maxTokens: 1000 } })]
+      };
+      // Answers without reporting usage, so nothing is spent while the writers start
+      const provider: AgentProvider & { generate: jest.Mock } = {
+        generate: jest.fn(async ({ agent, input }) => agent.name === 'lister' ? 'one\ntwo\nthree' : `${agent.name}(${input})`)
+      };
+
+      // Each writer needs up to about 3 cents for its three items
+      const summary = await new WorkflowEngine(parallelGraph, provider, { budget: { perRunLimit: 0.04, perDayLimit: 0 } }).run();
+
+      expect(summary.status).toBe('halted');
+      expect(summary.results.first.status).toBe('completed');
+      expect(summary.results.second.status).toBe('skipped');
+      expect(summary.results.second.error).toContain('Run budget');
+    });
+  });
+});
@@ -4,8 +4,13 @@ import { useAgentStore } from '@/store/agentStore';
 import { NodeInputForm } from './NodeInputForm';
 import { Badge } from "@/components/ui/badge";
 import { cn } from '@/lib/utils';
-import { X } from 'lucide-react';
+import { X, Square, Play, FastForward, ShieldAlert } from 'lucide-react';
 import { AgentConfigDialog } from '@/components/sidebar/AgentConfigDialog';
+import { formatCost } from '@/services/pricing';
+import { ErrorPolicy } from '@/types/agent';
+import { RunScope } from '@/services/workflowEngine';
+import { useCanvasRun } from './CanvasRunContext';
+import { ErrorPolicyDialog } from './ErrorPolicyDialog';
 
 interface AgentNodeProps {
   id: string;
@@ -15,16 +20,42 @@ interface AgentNodeProps {
     inputs: string[];
     outputs: string[];
     color?: string;
+    breakpoint?: boolean;
+    errorPolicy?: ErrorPolicy;
   };
   isConnectable: boolean;
 }
 
+// Live view of a streaming answer that keeps the newest text in view
+function StreamingOutput({ text }: { text: string }) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  
+  React.useEffect(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [text]);
+  
+  return (
+    <div ref={containerRef} className="max-h-24 overflow-y-auto text-xs opacity-70 whitespace-pre-wrap">
+      {text}
+    </div>
+  );
+}
+
 export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
   const [isInputFormOpen, setIsInputFormOpen] = React.useState(false);
   const [isAgentDialogOpen, setIsAgentDialogOpen] = React.useState(false);
+  const [isPolicyDialogOpen, setIsPolicyDialogOpen] = React.useState(false);
   const executionResults = useAgentStore((state) => state.executionResults[id]);
   const agents = useAgentStore((state) => state.agents);
+  // Labels of the degraded nodes an Output Box received input from
+  const degradedInputLabels = useAgentStore((state) => (state.executionResults[id]?.degradedInputs || [])
+    .map(nodeId => state.nodes.find(n => n.id === nodeId)?.data.label || nodeId)
+    .join(', '));
   const removeNode = useAgentStore((state) => state.removeNode);
+  const isCancellable = useAgentStore((state) => Boolean(state.abortControllers[id]));
+  const { runWorkflow, isRunning } = useCanvasRun();
   
   // Debug state changes
   React.useEffect(() => {
@@ -39,6 +70,7 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
   }, [id]);
   
   const agent = data.agentId ? agents.find(a => a.id === data.agentId) : null;
+  const hasErrorPolicy = Boolean(data.errorPolicy);
   const backgroundColor = data.color || agent?.color || 'white';
   
   const handleSubmit = (input: string) => {
@@ -61,6 +93,24 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
     removeNode(id);
   };
 
+  const handleCancelNode = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    useAgentStore.getState().cancelNode(id);
+  };
+
+  const toggleBreakpoint = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    useAgentStore.getState().updateNode(id, { data: { ...data, breakpoint: !data.breakpoint } });
+  };
+
+  const handleRun = (e: React.MouseEvent, scope: RunScope) => {
+    e.preventDefault();
+    e.stopPropagation();
+    runWorkflow(scope);
+  };
+
   const closeInputForm = () => {
     console.log('closeInputForm called');
     setIsInputFormOpen(false);
@@ -71,7 +121,7 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
       className={cn(
         "agent-node group transition-all relative",
         data.label === "Output Box" && "output-node",
-        executionResults?.status === 'running' && "animate-pulse-light"
+        (executionResults?.status === 'running' || executionResults?.status === 'paused') && "animate-pulse-light"
       )}
       style={{ 
         borderTop: `4px solid ${backgroundColor}`,
@@ -95,19 +145,141 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
       />
       
       <div className="agent-node-header flex justify-between items-center">
+        {data.label !== "Output Box" && (
+          <button
+            className={cn(
+              "mr-1 h-3 w-3 rounded-full border border-red-500 transition-opacity",
+              data.breakpoint ? "bg-red-500" : "opacity-0 group-hover:opacity-60"
+            )}
+            onClick={toggleBreakpoint}
+            title={data.breakpoint ? 'Remove breakpoint' : 'Add a breakpoint: debug runs pause before this node sends its request'}
+          />
+        )}
         <div className="font-medium truncate flex-1">{data.label}</div>
         {executionResults?.status && (
           <Badge variant={
             executionResults.status === 'completed' ? 'default' : 
             executionResults.status === 'running' ? 'secondary' : 
-            executionResults.status === 'error' ? 'destructive' : 'outline'
+            executionResults.status === 'error' || executionResults.status === 'timeout' ? 'destructive' : 'outline'
           } className="ml-2 text-xs">
             {executionResults.status}
           </Badge>
         )}
+        {executionResults?.attempts > 1 && (
+          <span
+            className="ml-1 text-[10px] text-amber-600"
+            title={`Request needed ${executionResults.attempts} attempts`}
+          >
+            ×{executionResults.attempts}
+          </span>
+        )}
+        {data.label !== "Output Box" && !isRunning && (
+          <div className="ml-1 flex opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              className="h-5 w-5 rounded text-gray-500 hover:text-primary hover:bg-gray-100 flex items-center justify-center"
+              onClick={(e) => handleRun(e, { type: 'only', nodeId: id })}
+              title="Run only this node, using the latest outputs of the nodes before it"
+            >
+              <Play className="h-3 w-3" />
+            </button>
+            <button
+              className="h-5 w-5 rounded text-gray-500 hover:text-primary hover:bg-gray-100 flex items-center justify-center"
+              onClick={(e) => handleRun(e, { type: 'from', nodeId: id })}
+              title="Run from this node: this node and everything after it"
+            >
+              <FastForward className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {data.label !== "Output Box" && (
+          <button
+            className={cn(
+              "ml-1 h-5 w-5 rounded hover:bg-gray-100 flex items-center justify-center transition-opacity",
+              hasErrorPolicy ? "text-amber-600" : "text-gray-500 hover:text-primary opacity-0 group-hover:opacity-100"
+            )}
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setIsPolicyDialogOpen(true);
+            }}
+            title={hasErrorPolicy ? `On failure: ${data.errorPolicy.type === 'fail' ? 'stop the run' : data.errorPolicy.type}` : 'Choose what happens when this node fails'}
+          >
+            <ShieldAlert className="h-3 w-3" />
+          </button>
+        )}
+        {executionResults?.status === 'running' && isCancellable && (
+          <button
+            className="ml-1 h-5 w-5 rounded text-gray-500 hover:text-red-500 hover:bg-red-50 flex items-center justify-center"
+            onClick={handleCancelNode}
+            title="Cancel this node"
+          >
+            <Square className="h-3 w-3" />
+          </button>
+        )}
       </div>
       
       <div className="text-xs text-gray-500 mt-2">
+        {executionResults?.cost !== undefined && (
+          <div className="mb-1 flex gap-1">
+            <Badge
+              variant="outline"
+              className="text-[10px] px-1 py-0 font-normal"
+              title={`${executionResults.promptTokens} prompt + ${executionResults.completionTokens} completion tokens`}
+            >
+              {((executionResults.promptTokens || 0) + (executionResults.completionTokens || 0)).toLocaleString()} tok
+            </Badge>
+            <Badge variant="outline" className="text-[10px] px-1 py-0 font-normal">
+              {formatCost(executionResults.cost)}
+            </Badge>
+          </div>
+        )}
+        {executionResults?.reused && (
+          <div className="mb-1 text-[10px] text-muted-foreground">
+            Unchanged, kept the previous output
+          </div>
+        )}
+        {executionResults?.answeredBy && agent && executionResults.answeredBy.model !== agent.model && (
+          <div className="mb-1 text-[10px] text-amber-600" title={`${agent.model} failed, so a fallback model answered`}>
+            Answered by {executionResults.answeredBy.model}
+          </div>
+        )}
+        {executionResults?.degraded && (
+          <div className="mb-1 text-[10px] text-amber-600 line-clamp-2" title={executionResults.degraded}>
+            Degraded: {executionResults.degraded}
+          </div>
+        )}
+        {degradedInputLabels && (
+          <div className="mb-1 text-[10px] text-amber-600">
+            Degraded inputs: {degradedInputLabels}
+          </div>
+        )}
+        {executionResults?.itemProgress && executionResults.status === 'running' && (
+          <div className="mb-1 text-[10px] text-teal-700">
+            Items: {executionResults.itemProgress.done} of {executionResults.itemProgress.total} done
+          </div>
+        )}
+        {executionResults?.items && executionResults.status === 'completed' && (
+          <div className="mb-1 text-[10px] text-teal-700">
+            Answered {executionResults.items.length} items
+          </div>
+        )}
+        {executionResults?.iterations?.length > 1 && (
+          <div
+            className="mb-1 text-[10px] text-indigo-600"
+            title={executionResults.iterations.map((output, index) => `${index + 1}: ${output.substring(0, 80)}`).join('\n')}
+          >
+            Iterations: {executionResults.iterations.length}
+          </div>
+        )}
+        {executionResults?.toolCalls?.length > 0 && (
+          <div
+            className="mb-1 text-[10px] text-indigo-600"
+            title={executionResults.toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)}) → ${call.result.substring(0, 80)}`).join('\n')}
+          >
+            Tool calls: {executionResults.toolCalls.length}
+            {executionResults.toolCalls.some(call => call.error) && ' (some failed)'}
+          </div>
+        )}
         {data.inputs.length > 0 && (
           <div className="mb-1">
             <div className="font-medium mb-1">Inputs: {data.inputs.length}</div>
@@ -128,7 +300,14 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
           </div>
         )}
         
-        {data.inputs.length === 0 && data.outputs.length === 0 && (
+        {executionResults?.status === 'running' && executionResults.partialOutput && (
+          <div className="mt-1">
+            <div className="font-medium mb-1">Generating:</div>
+            <StreamingOutput text={executionResults.partialOutput} />
+          </div>
+        )}
+        
+        {data.inputs.length === 0 && data.outputs.length === 0 && !executionResults?.partialOutput && (
           <div className="text-center py-2 opacity-50 italic">
             {data.label !== "Output Box" ? "Click to add input" : "Output will appear here"}
           </div>
@@ -160,6 +339,17 @@ export function AgentNode({ id, data, isConnectable }: AgentNodeProps) {
         />
       )}
 
+      {/* Clicks inside the dialog would otherwise reach the node and open its input form */}
+      {isPolicyDialogOpen && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <ErrorPolicyDialog
+            isOpen={isPolicyDialogOpen}
+            onClose={() => setIsPolicyDialogOpen(false)}
+            nodeId={id}
+          />
+        </div>
+      )}
+
       {isAgentDialogOpen && (
         <AgentConfigDialog 
           isOpen={isAgentDialogOpen}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAgentStore } from '@/store/agentStore';
+import { ApprovalConfig } from '@/types/agent';
+import { REJECTED_ROUTE_ID } from '@/services/workflowEngine';
+
+interface ApprovalConfigDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeId: string;
+}
+
+/**
+ * Edits the reviewer instructions of an approval node and what a rejection does
+ */
+export function ApprovalConfigDialog({ isOpen, onClose, nodeId }: ApprovalConfigDialogProps) {
+  const node = useAgentStore((state) => state.nodes.find(n => n.id === nodeId));
+
+  const [label, setLabel] = React.useState(node?.data.label || 'Approval');
+  const [instructions, setInstructions] = React.useState(node?.data.approval?.instructions || '');
+  const [onReject, setOnReject] = React.useState<ApprovalConfig['onReject']>(node?.data.approval?.onReject || 'fail');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!node) return;
+
+    const store = useAgentStore.getState();
+    store.updateNode(nodeId, {
+      data: {
+        ...node.data,
+        label: label.trim() || 'Approval',
+        approval: { instructions: instructions.trim() || undefined, onReject }
+      }
+    });
+
+    // Without a rejected route, its edges have nowhere to leave from
+    if (onReject !== 'route') {
+      store.edges
+        .filter(edge => edge.source === nodeId && edge.sourceHandle === REJECTED_ROUTE_ID)
+        .forEach(edge => store.removeEdge(edge.id));
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Configure Approval</DialogTitle>
+          <DialogDescription>
+            The run pauses here until a reviewer approves the incoming content, edits and approves it, or rejects it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="approval-label">Name</Label>
+            <Input id="approval-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="approval-instructions">Instructions for the reviewer</Label>
+            <Textarea
+              id="approval-instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="e.g. Check the figures against the source before approving"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>When rejected</Label>
+            <Select value={onReject} onValueChange={(value) => setOnReject(value as ApprovalConfig['onReject'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fail">Fail the branch</SelectItem>
+                <SelectItem value="route">Take the Rejected route, with the reviewer's note</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Approval</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
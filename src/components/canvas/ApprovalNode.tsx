@@ -0,0 +1,122 @@
+import React from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { useAgentStore } from '@/store/agentStore';
+import { Badge } from "@/components/ui/badge";
+import { cn } from '@/lib/utils';
+import { X, UserCheck } from 'lucide-react';
+import { ApprovalConfig } from '@/types/agent';
+import { APPROVED_ROUTE_ID, REJECTED_ROUTE_ID } from '@/services/workflowEngine';
+import { ApprovalConfigDialog } from './ApprovalConfigDialog';
+
+interface ApprovalNodeProps {
+  id: string;
+  data: {
+    label: string;
+    inputs: string[];
+    outputs: string[];
+    approval?: ApprovalConfig;
+  };
+  isConnectable: boolean;
+}
+
+/**
+ * Canvas node that pauses the run until a reviewer approves, edits or rejects its content
+ */
+export function ApprovalNode({ id, data, isConnectable }: ApprovalNodeProps) {
+  const [isConfigOpen, setIsConfigOpen] = React.useState(false);
+  const executionResults = useAgentStore((state) => state.executionResults[id]);
+  const removeNode = useAgentStore((state) => state.removeNode);
+  const routesRejections = data.approval?.onReject === 'route';
+
+  const routes = routesRejections
+    ? [{ id: APPROVED_ROUTE_ID, name: 'Approved' }, { id: REJECTED_ROUTE_ID, name: 'Rejected' }]
+    : [{ id: APPROVED_ROUTE_ID, name: 'Approved' }];
+  const selectedRoutes = executionResults?.status === 'completed' ? executionResults.routes || [] : [];
+
+  const handleRemoveNode = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    removeNode(id);
+  };
+
+  return (
+    <div
+      className={cn(
+        "agent-node group transition-all relative pb-6",
+        executionResults?.status === 'waiting' && "animate-pulse-light"
+      )}
+      style={{ borderTop: '4px solid #d97706' }}
+      onClick={() => setIsConfigOpen(true)}
+    >
+      <button
+        className="absolute -top-2 -right-2 h-5 w-5 bg-red-500 rounded-full text-white flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
+        onClick={handleRemoveNode}
+      >
+        <X className="h-3 w-3" />
+      </button>
+
+      <Handle
+        type="target"
+        position={Position.Top}
+        isConnectable={isConnectable}
+        className="transition-all duration-300 opacity-0 group-hover:opacity-100"
+      />
+
+      <div className="agent-node-header flex justify-between items-center">
+        <UserCheck className="h-4 w-4 mr-1 text-amber-600" />
+        <div className="font-medium truncate flex-1">{data.label}</div>
+        {executionResults?.status && (
+          <Badge variant={
+            executionResults.status === 'completed' ? 'default' :
+            executionResults.status === 'running' ? 'secondary' :
+            executionResults.status === 'error' || executionResults.status === 'timeout' ? 'destructive' : 'outline'
+          } className="ml-2 text-xs">
+            {executionResults.status === 'waiting' ? 'awaiting review' : executionResults.status}
+          </Badge>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 mt-2">
+        {data.approval?.instructions && (
+          <div className="opacity-70 truncate">{data.approval.instructions}</div>
+        )}
+        <div>{routesRejections ? 'Rejections take the Rejected route' : 'Rejections fail the branch'}</div>
+        {(executionResults?.status === 'error' || executionResults?.status === 'timeout') && (
+          <div className="text-red-600">{executionResults.error}</div>
+        )}
+      </div>
+
+      {/* One source handle per outcome, labelled underneath */}
+      <div className="absolute bottom-0 left-0 right-0 flex">
+        {routes.map((route) => (
+          <div
+            key={route.id}
+            className={cn(
+              "relative flex-1 text-center text-[10px] truncate px-1 pb-1",
+              selectedRoutes.includes(route.id) ? "text-primary font-medium" : "text-gray-500"
+            )}
+          >
+            {route.name}
+            <Handle
+              type="source"
+              id={route.id}
+              position={Position.Bottom}
+              isConnectable={isConnectable}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Clicks inside the dialog would otherwise reach the node and reopen it */}
+      {isConfigOpen && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <ApprovalConfigDialog
+            isOpen={isConfigOpen}
+            onClose={() => setIsConfigOpen(false)}
+            nodeId={id}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
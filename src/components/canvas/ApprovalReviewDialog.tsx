@@ -0,0 +1,72 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ApprovalDecision, PendingApproval } from '@/services/workflowEngine';
+
+interface ApprovalReviewDialogProps {
+  approval: PendingApproval;
+  label: string;
+  // Approvals still waiting after this one
+  queued: number;
+  onDecide: (decision: ApprovalDecision) => void;
+}
+
+/**
+ * Shows content waiting at an approval node so a reviewer can approve it as is, edit and
+ * approve it, or reject it
+ */
+export function ApprovalReviewDialog({ approval, label, queued, onDecide }: ApprovalReviewDialogProps) {
+  const [content, setContent] = React.useState(approval.content);
+  const [note, setNote] = React.useState('');
+  const edited = content !== approval.content;
+
+  return (
+    // The run waits for a decision, so the dialog can't be dismissed
+    <Dialog open onOpenChange={() => undefined}>
+      <DialogContent className="sm:max-w-3xl glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Review: {label}</DialogTitle>
+          <DialogDescription>
+            {approval.instructions || 'The run is paused until you approve or reject this content.'}
+            {queued > 0 && ` ${queued} more ${queued === 1 ? 'review is' : 'reviews are'} waiting.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="min-h-[45vh] font-mono text-xs"
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note if you reject</Label>
+            <Input
+              id="review-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What needs to change"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={() => onDecide({ type: 'reject', note })}>
+            Reject
+          </Button>
+          {edited && (
+            <Button variant="outline" onClick={() => setContent(approval.content)}>
+              Undo Edits
+            </Button>
+          )}
+          <Button onClick={() => onDecide(edited ? { type: 'approve', content } : { type: 'approve' })}>
+            {edited ? 'Approve Edited' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { FastForward, Square, StepForward } from 'lucide-react';
+import { BreakpointPause, DebugCommand } from '@/services/workflowEngine';
+
+interface BreakpointDialogProps {
+  pause: BreakpointPause;
+  label: string;
+  onCommand: (command: DebugCommand) => void;
+}
+
+/**
+ * Shows the request a node is about to send at a breakpoint, lets it be edited, and steps,
+ * continues or aborts the debug run
+ */
+export function BreakpointDialog({ pause, label, onCommand }: BreakpointDialogProps) {
+  const [systemPrompt, setSystemPrompt] = React.useState(pause.systemPrompt);
+  const [input, setInput] = React.useState(pause.input);
+  const perItem = pause.itemCount !== undefined;
+
+  // Only send what was changed, so an untouched request keeps its run hash
+  const goOn = (type: 'step' | 'continue') => {
+    onCommand({
+      type,
+      systemPrompt: systemPrompt !== pause.systemPrompt ? systemPrompt : undefined,
+      input: !perItem && input !== pause.input ? input : undefined
+    });
+  };
+
+  return (
+    // The run is held until a command is given, so the dialog can't be dismissed
+    <Dialog open onOpenChange={() => undefined}>
+      <DialogContent className="sm:max-w-3xl glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Paused before {label}</DialogTitle>
+          <DialogDescription>
+            This is exactly what will be sent. Edit it to try a change, then step to the next node or continue to
+            the next breakpoint.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="breakpoint-system-prompt">System prompt</Label>
+            <Textarea
+              id="breakpoint-system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              className="min-h-[15vh] font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="breakpoint-input">
+              {perItem ? `Input, sent once per item (${pause.itemCount} items); can't be edited` : 'Input'}
+            </Label>
+            <Textarea
+              id="breakpoint-input"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              readOnly={perItem}
+              className="min-h-[30vh] font-mono text-xs"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={() => onCommand({ type: 'abort' })}>
+            <Square className="h-4 w-4 mr-1" />
+            Abort
+          </Button>
+          <Button variant="outline" onClick={() => goOn('step')} title="Send this request and pause before the next node">
+            <StepForward className="h-4 w-4 mr-1" />
+            Step
+          </Button>
+          <Button onClick={() => goOn('continue')} title="Send this request and run to the next breakpoint">
+            <FastForward className="h-4 w-4 mr-1" />
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
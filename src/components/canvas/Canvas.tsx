@@ -16,19 +16,39 @@ import {
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { toast } from 'sonner';
+import { Bug, History, Play, Square } from 'lucide-react';
 import { AgentNode } from './AgentNode';
+import { RouterNode } from './RouterNode';
+import { MapNode } from './MapNode';
+import { ReduceNode } from './ReduceNode';
+import { ApprovalNode } from './ApprovalNode';
+import { ApprovalReviewDialog } from './ApprovalReviewDialog';
+import { BreakpointDialog } from './BreakpointDialog';
+import { LoopEdgeDialog } from './LoopEdgeDialog';
+import { toFlowEdge } from './edgeDisplay';
 import { useAgentStore } from '@/store/agentStore';
-import { generateAgentResponse } from '@/services/ai-service';
+import { AgentNode as AgentNodeModel } from '@/types/agent';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { saveAs } from 'file-saver';
 import JSZip from 'jszip';
-import { AgentExecutionResult } from '@/types/agent';
 import { formatCombinedInputs } from '@/utils/tokenManager';
-import { processWithChunkedStrategy } from '@/services/optimizationService';
+import { formatCost } from '@/services/pricing';
+import { getSpentToday } from '@/services/budgetService';
+import { ApprovalDecision, BreakpointPause, DebugCommand, PendingApproval, ResumeState, RunScope, WorkflowEngine, WorkflowEvent, getNodeDependencies as getWorkflowDependencies, isOutputNode } from '@/services/workflowEngine';
+import { PausedRun, clearPausedRun, loadPausedRun, savePausedRun } from '@/services/pausedRun';
+import { aiServiceProvider } from '@/services/agentProvider';
+import { CanvasRunContext } from './CanvasRunContext';
+import { RunRecorder, runHistory } from '@/services/runHistory';
+import { RunsPanel } from '@/components/runs/RunsPanel';
 
 const nodeTypes: NodeTypes = {
   agent: AgentNode,
+  router: RouterNode,
+  map: MapNode,
+  reduce: ReduceNode,
+  approval: ApprovalNode,
 };
 
 export function FlowCanvas() {
@@ -36,10 +56,23 @@ export function FlowCanvas() {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [isRunning, setIsRunning] = useState(false);
+  // Only re-run nodes whose inputs, agent or upstream outputs changed since their last run
+  const [incremental, setIncremental] = useState(false);
+  const [runsPanelOpen, setRunsPanelOpen] = useState(false);
+  // Edge whose loop settings are open
+  const [settingsEdgeId, setSettingsEdgeId] = useState<string | null>(null);
   const [downloadDialogOpen, setDownloadDialogOpen] = useState(false);
   const [downloadFilename, setDownloadFilename] = useState('swarm-output');
   const [downloadFormat, setDownloadFormat] = useState<'json' | 'text'>('json');
   const [outputsAvailable, setOutputsAvailable] = useState(false);
+  // Engine of the run in progress, stopped by the Stop button
+  const engineRef = useRef<WorkflowEngine | null>(null);
+  // Content waiting for a reviewer, oldest first
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  // Requests held at breakpoints of a debug run, oldest first
+  const [pauses, setPauses] = useState<BreakpointPause[]>([]);
+  // A run that was waiting for a reviewer when the page was closed
+  const [pausedRun, setPausedRun] = useState<PausedRun | null>(loadPausedRun);
 
   const storeNodes = useAgentStore((state) => state.nodes);
   const storeEdges = useAgentStore((state) => state.edges);
@@ -54,13 +87,13 @@ export function FlowCanvas() {
   useEffect(() => {
     setNodes(storeNodes.map(node => ({
       id: node.id,
-      type: 'agent',
+      type: node.type in nodeTypes ? node.type : 'agent',
       position: node.position,
       data: node.data,
       draggable: true,
     })));
     
-    setEdges(storeEdges);
+    setEdges(storeEdges.map(toFlowEdge));
   }, [storeNodes, storeEdges, setNodes, setEdges]);
 
   // Keep outputsAvailable state in sync with node outputs
@@ -85,6 +118,7 @@ export function FlowCanvas() {
       useAgentStore.getState().addEdge({
         source: connection.source as string,
         target: connection.target as string,
+        sourceHandle: connection.sourceHandle ?? undefined,
         animated: true,
       });
     },
@@ -127,270 +161,126 @@ export function FlowCanvas() {
     []
   );
 
-  const getNodeDependencies = useCallback((nodeId: string): string[] => {
-    const incomingEdges = edges.filter(edge => edge.target === nodeId);
-    return incomingEdges.map(edge => edge.source);
-  }, [edges]);
-
-  const getOutputs = (nodeId: string): string[] => {
-    const node = storeNodes.find(n => n.id === nodeId);
-    return node?.data.outputs || [];
-  };
-
-  const getNodeAgentConfig = (nodeId: string) => {
-    const node = storeNodes.find(n => n.id === nodeId);
-    if (!node || !node.data.agentId) return null;
-    
-    const agent = agents.find(a => a.id === node.data.agentId);
-    if (!agent) return null;
-    
-    return agent;
-  };
-
-  const processNode = async (nodeId: string, processedNodes: Set<string>, processingNodes?: Set<string>, depth: number = 0): Promise<AgentExecutionResult> => {
-    const MAX_DEPTH = 100;
-    if (depth > MAX_DEPTH) {
-      const errorMsg = `Maximum recursion depth (${MAX_DEPTH}) exceeded`;
-      console.error(`Error: ${errorMsg} at node ${nodeId}`);
-      useAgentStore.getState().setExecutionResult({
-        nodeId,
-        output: `[Error: ${errorMsg}]`,
-        status: 'error',
-        error: errorMsg
-      });
-      toast.error(`Error in node "${nodeId}": ${errorMsg}`);
-      return {
-        nodeId,
-        output: `[Error: ${errorMsg}]`,
-        status: 'error',
-        error: errorMsg
-      };
-    }
-
-    processingNodes = processingNodes || new Set<string>();
-
-    if (processingNodes.has(nodeId)) {
-      const errorMsg = 'Circular dependency detected';
-      console.error(`Cycle detected: Node ${nodeId} is already being processed. Aborting to prevent infinite recursion.`);
-      useAgentStore.getState().setExecutionResult({
-        nodeId,
-        output: `[Error: ${errorMsg}]`,
-        status: 'error',
-        error: errorMsg
-      });
-      toast.error(`Error in node "${nodeId}": ${errorMsg}`);
-      return {
-        nodeId,
-        output: `[Error: ${errorMsg}]`,
-        status: 'error',
-        error: errorMsg
-      };
-    }
-
-    processingNodes.add(nodeId);
-
-    console.info(`Starting processing for node ${nodeId} at depth ${depth}`);
+  const getNodeDependencies = useCallback(
+    (nodeId: string): string[] => getWorkflowDependencies(storeEdges, nodeId),
+    [storeEdges]
+  );
 
-    if (processedNodes.has(nodeId)) {
-      const cachedResult = executionResults[nodeId];
-      if (cachedResult) {
-        console.info(`Node ${nodeId} already processed. Returning cached result.`);
-        processingNodes.delete(nodeId);
-        return cachedResult;
+  // Mirror engine events into the store so nodes show their progress
+  const handleWorkflowEvent = (event: WorkflowEvent) => {
+    const store = useAgentStore.getState();
+    switch (event.type) {
+      case 'nodeStarted':
+        store.setAbortController(event.nodeId, event.controller);
+        store.setExecutionResult({ nodeId: event.nodeId, output: '', status: 'running' });
+        break;
+      case 'nodeProgress':
+        store.setExecutionResult(event.result);
+        break;
+      case 'nodeCompleted':
+        store.setNodeOutput(event.nodeId, event.result.output, event.result.runHash);
+        store.setExecutionResult(event.result);
+        store.setAbortController(event.nodeId, null);
+        break;
+      case 'nodeFailed': {
+        setApprovals(current => current.filter(approval => approval.nodeId !== event.nodeId));
+        setPauses(current => current.filter(pause => pause.nodeId !== event.nodeId));
+        store.setNodeOutput(event.nodeId, event.result.output);
+        store.setExecutionResult(event.result);
+        store.setAbortController(event.nodeId, null);
+        const label = store.nodes.find(n => n.id === event.nodeId)?.data.label || event.nodeId;
+        toast.error(event.result.status === 'timeout'
+          ? `Node "${label}" timed out: ${event.result.error}`
+          : `Error in node "${label}": ${event.result.error}`);
+        break;
       }
+      case 'nodeCancelled':
+        setPauses(current => current.filter(pause => pause.nodeId !== event.nodeId));
+        store.setExecutionResult(event.result);
+        store.setAbortController(event.nodeId, null);
+        break;
+      case 'nodeSkipped':
+      case 'nodeReused':
+        store.setExecutionResult(event.result);
+        store.setAbortController(event.nodeId, null);
+        break;
+      case 'usage':
+        store.recordSpend(event.usage.cost);
+        break;
+      case 'approvalRequested':
+        setApprovals(current => [...current, event.approval]);
+        break;
+      case 'breakpointHit':
+        setPauses(current => [...current, event.pause]);
+        break;
     }
+  };
 
-    const node = storeNodes.find(n => n.id === nodeId);
-    if (!node) {
-      const errorMsg = 'Node not found';
-      console.error(`Error: ${errorMsg} for node ${nodeId}`);
-      processingNodes.delete(nodeId);
-      return {
-        nodeId,
-        output: '',
-        status: 'error',
-        error: errorMsg
-      };
+  // `resume` continues a paused run; `debug` pauses at breakpoints
+  const runCanvas = async (scope: RunScope = { type: 'all' }, { resume, debug }: { resume?: ResumeState; debug?: boolean } = {}) => {
+    if (engineRef.current) return;
+    // Read the canvas at the moment the run starts rather than from this render
+    const { nodes: runNodes, edges: runEdges, agents: runAgents, budget, dailySpend, maxParallelism, runDeadlineMinutes } = useAgentStore.getState();
+
+    // A resumed run continues on the canvas it was started from
+    const graph = resume ? resume.graph : { nodes: runNodes, edges: runEdges, agents: runAgents };
+    const runIncremental = resume ? resume.incremental : incremental;
+    if (resume) {
+      useAgentStore.getState().restoreCanvas(resume.graph);
+      setPausedRun(null);
     }
-
-    useAgentStore.getState().setExecutionResult({
-      nodeId,
-      output: '',
-      status: 'running'
-    });
-
-    try {
-      const dependencies = getNodeDependencies(nodeId);
-      console.info(`Node ${nodeId} dependencies:`, dependencies);
-      const dependencyResults: AgentExecutionResult[] = [];
-      for (const depId of dependencies) {
-        const depResult = await processNode(depId, processedNodes, processingNodes, depth + 1);
-        dependencyResults.push(depResult);
-        if (depResult.status === 'error') {
-          break;
-        }
+    console.info(`${resume ? 'Resuming' : 'Starting'} canvas run with`, graph.nodes.length, 'nodes');
+
+    const engine = new WorkflowEngine(
+      graph,
+      aiServiceProvider,
+      {
+        budget,
+        spentToday: getSpentToday(dailySpend),
+        maxParallelism,
+        deadlineMs: runDeadlineMinutes > 0 ? runDeadlineMinutes * 60000 : undefined,
+        scope,
+        incremental: runIncremental,
+        resumeFrom: resume?.results,
+        debug
       }
-
-      const failedDependency = dependencyResults.find(result => result.status === 'error');
-      if (failedDependency) {
-        throw new Error(`Dependency error: ${failedDependency.error}`);
-      }
-
-      const dependencyOutputs = dependencyResults.map(result => result.output);
-
-      let output = '';
-      if (node.data.label === 'Output Box') {
-        output = [...node.data.inputs, ...dependencyOutputs].join('\n\n---\n\n');
-      } else {
-        const agent = getNodeAgentConfig(nodeId);
-        if (!agent) {
-          const errorMsg = 'No agent configuration found for this node';
-          console.error(`Error in node ${nodeId}: ${errorMsg}`);
-          throw new Error(errorMsg);
-        }
-        console.info(`Node ${nodeId} using agent ${agent.id || 'unknown'} (provider: ${agent.provider}, model: ${agent.model})`);
-        console.info(`Agent system prompt: ${agent.systemPrompt ? agent.systemPrompt.substring(0, 50) + '...' : 'EMPTY OR UNDEFINED'}`);
-
-        const systemPrompt = agent.systemPrompt || '';
-        const effectiveSystemPrompt = systemPrompt.trim().length === 0 ?
-          'You are a helpful AI assistant. Respond to the user input below in a clear and concise manner.' :
-          systemPrompt;
-
-        const combinedInput = formatCombinedInputs([
-          ...node.data.inputs,
-          ...dependencyOutputs
-        ]);
-
-        if (!combinedInput) {
-          throw new Error('No input provided for agent');
-        }
-        console.info(`Combined input for node ${nodeId} (length: ${combinedInput.length}): ${combinedInput.substring(0, 50)}...`);
-
-        console.info(`Generating agent response for node ${nodeId}`);
-        try {
-          // Keep track of nodes currently being processed with API calls to prevent race conditions
-          const currentlyProcessing = useAgentStore.getState().processingApiCalls || {};
-          
-          // Check if this exact node is already being processed
-          if (currentlyProcessing[nodeId]) {
-            console.warn(`Node ${nodeId} is already processing an API call, waiting for that to complete...`);
-            output = await currentlyProcessing[nodeId];
-          } else {
-            // Create a new promise for this node's API call
-            const apiPromise = (async () => {
-              try {
-                let result;
-                if (combinedInput.length > 10000) {
-                  console.info(`Node ${nodeId} has large input (${combinedInput.length} chars), using optimized processing`);
-                  const apiKey = useAgentStore.getState().apiKey[agent.provider];
-                  result = await processWithChunkedStrategy(
-                    agent.provider,
-                    agent.model,
-                    effectiveSystemPrompt,
-                    combinedInput,
-                    apiKey
-                  );
-                } else {
-                  result = await generateAgentResponse(
-                    agent.provider,
-                    agent.model,
-                    effectiveSystemPrompt,
-                    combinedInput
-                  );
-                }
-                return result;
-              } finally {
-                // Cleanup: remove this promise when done
-                const updatedProcessing = useAgentStore.getState().processingApiCalls || {};
-                delete updatedProcessing[nodeId];
-                useAgentStore.getState().setProcessingApiCalls(updatedProcessing);
-              }
-            })();
-            
-            // Store the promise in the store
-            const updatedProcessing = {...currentlyProcessing};
-            updatedProcessing[nodeId] = apiPromise;
-            useAgentStore.getState().setProcessingApiCalls(updatedProcessing);
-            
-            // Wait for the API call to complete
-            output = await apiPromise;
-          }
-
-          if (output.startsWith('[Error:')) {
-            throw new Error(output.substring(8, output.length - 1));
-          }
-          if (output.startsWith('[ERROR::')) {
-            const errorMessage = output.substring(8, output.length - 1);
-            console.error(`Error detected in agent response: ${errorMessage}`);
-            throw new Error(errorMessage);
-          }
-          console.info(`Agent response received for node ${nodeId}`);
-        } catch (apiError) {
-          console.error(`API error for node ${nodeId}:`, apiError);
-          throw new Error(`API error: ${apiError.message || 'Unknown API error'}`);
-        }
-      }
-
-      if (!output || output.trim().length === 0) {
-        console.warn(`Empty output returned for node ${nodeId} without error`);
-        output = "[Warning: Empty response received from the API]";
-        const result = {
-          nodeId,
-          output,
-          status: 'error' as const,
-          error: 'Empty response received from the API'
-        };
-        useAgentStore.getState().setExecutionResult(result);
-        console.info(`Node ${nodeId} processed with error: Empty response`);
-        processingNodes.delete(nodeId);
-        return result;
+    );
+    const unsubscribe = engine.subscribe(handleWorkflowEvent);
+    // Keep a record of the run for the Runs panel
+    const recorder = new RunRecorder(graph, scope, runIncremental);
+    const unsubscribeRecorder = engine.subscribe(recorder.handleEvent);
+    // While a reviewer is needed, keep what it takes to resume the run after a reload
+    const unsubscribePause = engine.subscribe((event) => {
+      if (!['approvalRequested', 'nodeCompleted', 'nodeFailed', 'nodeSkipped'].includes(event.type)) return;
+      if (engine.getPendingApprovals().length > 0) {
+        savePausedRun({ ...engine.getResumeState(), pausedAt: Date.now() });
       }
+    });
+    engineRef.current = engine;
 
-      useAgentStore.getState().setNodeOutput(nodeId, output);
-      processedNodes.add(nodeId);
-      const result = {
-        nodeId,
-        output,
-        status: 'completed' as const
-      };
-      useAgentStore.getState().setExecutionResult(result);
-      console.info(`Node ${nodeId} processed successfully`);
-      processingNodes.delete(nodeId);
-      return result;
-    } catch (error: any) {
-      const errorMessage = error.message || 'Unknown error';
-      console.error(`Error processing node ${nodeId}:`, error);
-      const errorOutput = `[Error: ${errorMessage}]`;
-      useAgentStore.getState().setNodeOutput(nodeId, errorOutput);
-      const result = {
-        nodeId,
-        output: errorOutput,
-        status: 'error' as const,
-        error: errorMessage
-      };
-      useAgentStore.getState().setExecutionResult(result);
-      toast.error(`Error in node "${node.data.label}": ${errorMessage}`);
-      processingNodes.delete(nodeId);
-      return result;
-    }
-  };
-
-  const runCanvas = async () => {
-    console.info('Starting canvas run with', storeNodes.length, 'nodes');
     setOutputsAvailable(false); // Reset output availability state when starting a run
+    setIsRunning(true);
     try {
-      const processedNodes = new Set<string>();
-      
-      // Log each output node to be processed
-      console.info('Processing output nodes:', storeNodes.filter(n => n.data.label === 'Output Box').map(n => n.id));
+      const summary = await engine.run();
       
-      for (const outputNode of storeNodes.filter(n => n.data.label === 'Output Box')) {
-        console.info(`Processing output node: ${outputNode.id}`);
-        await processNode(outputNode.id, processedNodes);
+      switch (summary.status) {
+        case 'rejected':
+          toast.error(`Run not started: ${summary.reason}`);
+          return;
+        case 'halted':
+          toast.error(`Run halted: ${summary.reason}`);
+          return;
+        case 'timeout':
+          toast.error(`Run timed out: ${summary.reason}`);
+          return;
+        case 'cancelled':
+          toast.info('Canvas run stopped');
+          console.info('Canvas run was stopped by the user');
+          return;
       }
       
       // Check if any output nodes have data after the run is complete
-      const outputNodes = storeNodes.filter(n => n.data.label === 'Output Box');
+      const outputNodes = useAgentStore.getState().nodes.filter(isOutputNode);
       const hasOutputs = outputNodes.some(node => 
         node.data.outputs && node.data.outputs.length > 0
       );
@@ -402,16 +292,49 @@ export function FlowCanvas() {
         console.warn('No output data found in output nodes after execution');
       }
       
-      toast.success('Canvas execution completed');
+      const reusedCount = Object.values(summary.results).filter(result => result.reused).length;
+      toast.success(reusedCount > 0
+        ? `Canvas execution completed (${reusedCount} unchanged ${reusedCount === 1 ? 'node' : 'nodes'} reused)`
+        : 'Canvas execution completed');
       console.info('Canvas run completed successfully');
     } catch (error: any) {
       toast.error(`Failed to run canvas: ${error.message}`);
       console.error('Run canvas error:', error);
     } finally {
+      unsubscribe();
+      unsubscribeRecorder();
+      unsubscribePause();
+      clearPausedRun();
+      setApprovals([]);
+      setPauses([]);
+      runHistory.saveRun(recorder.getRun()).catch(error => {
+        console.error('Failed to save run history:', error);
+      });
+      engineRef.current = null;
       setIsRunning(false);
     }
   };
 
+  const decideApproval = (nodeId: string, decision: ApprovalDecision) => {
+    setApprovals(current => current.filter(approval => approval.nodeId !== nodeId));
+    engineRef.current?.resolveApproval(nodeId, decision);
+  };
+
+  const sendDebugCommand = (nodeId: string, command: DebugCommand) => {
+    setPauses(current => current.filter(pause => pause.nodeId !== nodeId));
+    engineRef.current?.resumeBreakpoint(nodeId, command);
+  };
+
+  const discardPausedRun = () => {
+    clearPausedRun();
+    setPausedRun(null);
+  };
+
+  const stopCanvas = () => {
+    engineRef.current?.cancel();
+    useAgentStore.getState().cancelRun();
+  };
+
   const parseOutputContent = (outputs: string[]): string => {
     if (downloadFormat === 'json') {
       try {
@@ -505,7 +428,7 @@ export function FlowCanvas() {
       };
 
       useAgentStore.getState().addNode({
-        type: 'agent',
+        type: type in nodeTypes ? type as AgentNodeModel['type'] : 'agent',
         position,
         data: {
           ...data,
@@ -519,6 +442,16 @@ export function FlowCanvas() {
   );
 
   // Memoize expensive calculations
+  // Totals over the latest result of every node
+  const runUsage = useMemo(() => {
+    const results = Object.values(executionResults).filter(result => result.cost !== undefined);
+    if (results.length === 0) return null;
+    return {
+      tokens: results.reduce((sum, result) => sum + (result.promptTokens || 0) + (result.completionTokens || 0), 0),
+      cost: results.reduce((sum, result) => sum + (result.cost || 0), 0)
+    };
+  }, [executionResults]);
+
   const outputNodes = useMemo(() => {
     return storeNodes.filter(node => node.data.label === 'Output Box');
   }, [storeNodes]);
@@ -675,104 +608,201 @@ export function FlowCanvas() {
 
   return (
     <div className="w-full h-full" ref={reactFlowWrapper}>
-      <ReactFlowProvider>
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          onEdgeDoubleClick={(_, edge) => onEdgeDelete(edge)}
-          onNodeDragStop={onNodeDragStop}
-          onNodesDelete={onNodesDelete}
-          nodeTypes={nodeTypes}
-          onDragOver={onDragOver}
-          onDrop={onDrop}
-          fitView
-          className="bg-slate-50"
-        >
-          <Background variant={BackgroundVariant.Dots} gap={20} color="#e2e8f0" />
-          <Controls />
-          <Panel position="top-right" className="flex gap-2">
-            <Button
-              variant="default"
-              onClick={runCanvas}
-              disabled={isRunning || storeNodes.length === 0}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              {isRunning ? 'Running...' : 'Run Canvas'}
-            </Button>
-            <Button
-              variant="outline"
-              onClick={testAllConnections}
-              disabled={isRunning || storeNodes.length === 0}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Test Connections
-            </Button>
-            <Button
-              variant="outline"
-              onClick={generateTestOutputs}
-              disabled={isRunning || storeNodes.length === 0}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Generate Test Data
-            </Button>
-            <Button
-              variant="outline"
-              onClick={saveCanvasState}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Save Canvas
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => {
-                const selectedNode = nodes.find(n => n.selected);
-                if (selectedNode && selectedNode.data.agentId) {
-                  useAgentStore.getState().saveAgentToLibrary(selectedNode);
-                  toast.success('Agent saved to library');
-                } else {
-                  toast.error('Please select an agent node first');
-                }
-              }}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Save Agent to Library
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setDownloadDialogOpen(true)}
-              disabled={isRunning || !outputsAvailable}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Download Output
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={() => {
-                if (confirm("Are you sure you want to clear the canvas? This will remove all nodes and connections.")) {
-                  clearCanvas();
-                }
-              }}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Clear Canvas
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={() => {
-                if (confirm("Are you sure you want to clear all saved agents? This action cannot be undone.")) {
-                  clearAgents();
-                }
-              }}
-              className="shadow-md hover:shadow-lg transition-all"
-            >
-              Clear Saved Agents
-            </Button>
-          </Panel>
-        </ReactFlow>
-      </ReactFlowProvider>
+      <CanvasRunContext.Provider value={{ runWorkflow: runCanvas, isRunning }}>
+        <ReactFlowProvider>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            onEdgeDoubleClick={(_, edge) => onEdgeDelete(edge)}
+            onEdgeContextMenu={(event, edge) => {
+              event.preventDefault();
+              setSettingsEdgeId(edge.id);
+            }}
+            onNodeDragStop={onNodeDragStop}
+            onNodesDelete={onNodesDelete}
+            nodeTypes={nodeTypes}
+            onDragOver={onDragOver}
+            onDrop={onDrop}
+            fitView
+            className="bg-slate-50"
+          >
+            <Background variant={BackgroundVariant.Dots} gap={20} color="#e2e8f0" />
+            <Controls />
+            <Panel position="top-right" className="flex gap-2">
+              <Button
+                variant="default"
+                onClick={() => runCanvas()}
+                disabled={isRunning || storeNodes.length === 0}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                {isRunning ? 'Running...' : 'Run Canvas'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => runCanvas({ type: 'all' }, { debug: true })}
+                disabled={isRunning || storeNodes.length === 0}
+                className="shadow-md hover:shadow-lg transition-all"
+                title="Run the canvas, pausing before nodes with a breakpoint"
+              >
+                <Bug className="h-4 w-4 mr-1" />
+                Debug
+              </Button>
+              <label
+                className="flex items-center gap-2 px-3 rounded-md border bg-background text-sm shadow-md cursor-pointer"
+                title="Reuse the outputs of nodes whose inputs, agent and upstream outputs haven't changed since their last run"
+              >
+                <Checkbox
+                  checked={incremental}
+                  onCheckedChange={(checked) => setIncremental(checked === true)}
+                  disabled={isRunning}
+                />
+                Skip unchanged
+              </label>
+              {isRunning && (
+                <Button
+                  variant="destructive"
+                  onClick={stopCanvas}
+                  className="shadow-md hover:shadow-lg transition-all"
+                >
+                  <Square className="h-4 w-4 mr-1" />
+                  Stop
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={testAllConnections}
+                disabled={isRunning || storeNodes.length === 0}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Test Connections
+              </Button>
+              <Button
+                variant="outline"
+                onClick={generateTestOutputs}
+                disabled={isRunning || storeNodes.length === 0}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Generate Test Data
+              </Button>
+              <Button
+                variant="outline"
+                onClick={saveCanvasState}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Save Canvas
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  const selectedNode = nodes.find(n => n.selected);
+                  if (selectedNode && selectedNode.data.agentId) {
+                    useAgentStore.getState().saveAgentToLibrary(selectedNode);
+                    toast.success('Agent saved to library');
+                  } else {
+                    toast.error('Please select an agent node first');
+                  }
+                }}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Save Agent to Library
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setDownloadDialogOpen(true)}
+                disabled={isRunning || !outputsAvailable}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Download Output
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setRunsPanelOpen(true)}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                <History className="h-4 w-4 mr-1" />
+                Runs
+              </Button>
+              {runUsage && (
+                <div
+                  className="flex items-center px-3 rounded-md border bg-background text-sm shadow-md"
+                  title={`${runUsage.tokens.toLocaleString()} tokens`}
+                >
+                  Run cost: {formatCost(runUsage.cost)}
+                </div>
+              )}
+              <Button
+                variant="destructive"
+                onClick={() => {
+                  if (confirm("Are you sure you want to clear the canvas? This will remove all nodes and connections.")) {
+                    clearCanvas();
+                  }
+                }}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Clear Canvas
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => {
+                  if (confirm("Are you sure you want to clear all saved agents? This action cannot be undone.")) {
+                    clearAgents();
+                  }
+                }}
+                className="shadow-md hover:shadow-lg transition-all"
+              >
+                Clear Saved Agents
+              </Button>
+            </Panel>
+            {pausedRun && !isRunning && (
+              <Panel position="top-center" className="flex items-center gap-2 px-3 py-2 rounded-md border bg-background text-sm shadow-md">
+                <span>
+                  A run was waiting for approval when the page was closed ({new Date(pausedRun.pausedAt).toLocaleString()})
+                </span>
+                <Button size="sm" onClick={() => runCanvas(pausedRun.scope, { resume: pausedRun })}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={discardPausedRun}>
+                  Discard
+                </Button>
+              </Panel>
+            )}
+          </ReactFlow>
+        </ReactFlowProvider>
+      </CanvasRunContext.Provider>
+
+      <RunsPanel isOpen={runsPanelOpen} onClose={() => setRunsPanelOpen(false)} />
+
+      {approvals.length > 0 && (
+        <ApprovalReviewDialog
+          key={approvals[0].nodeId}
+          approval={approvals[0]}
+          label={storeNodes.find(node => node.id === approvals[0].nodeId)?.data.label || approvals[0].nodeId}
+          queued={approvals.length - 1}
+          onDecide={(decision) => decideApproval(approvals[0].nodeId, decision)}
+        />
+      )}
+
+      {pauses.length > 0 && (
+        <BreakpointDialog
+          key={pauses[0].nodeId}
+          pause={pauses[0]}
+          label={storeNodes.find(node => node.id === pauses[0].nodeId)?.data.label || pauses[0].nodeId}
+          onCommand={(command) => sendDebugCommand(pauses[0].nodeId, command)}
+        />
+      )}
+
+      {settingsEdgeId && (
+        <LoopEdgeDialog
+          key={settingsEdgeId}
+          isOpen={Boolean(settingsEdgeId)}
+          onClose={() => setSettingsEdgeId(null)}
+          edgeId={settingsEdgeId}
+        />
+      )}
 
       <Dialog open={downloadDialogOpen} onOpenChange={setDownloadDialogOpen}>
         <DialogContent className="sm:max-w-md glass-panel animate-scale-in">
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import { RunScope } from '@/services/workflowEngine';
+
+interface CanvasRunContextValue {
+  // Start a run of the whole canvas or of part of it
+  runWorkflow: (scope: RunScope) => void;
+  isRunning: boolean;
+}
+
+// Lets nodes start runs, which the canvas owns
+export const CanvasRunContext = createContext<CanvasRunContextValue>({
+  runWorkflow: () => undefined,
+  isRunning: false,
+});
+
+export const useCanvasRun = () => useContext(CanvasRunContext);
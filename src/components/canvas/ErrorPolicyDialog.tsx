@@ -0,0 +1,127 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useAgentStore } from '@/store/agentStore';
+import { ErrorPolicy } from '@/types/agent';
+
+interface ErrorPolicyDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeId: string;
+}
+
+/**
+ * Chooses what a node does when it or a node before it fails
+ */
+export function ErrorPolicyDialog({ isOpen, onClose, nodeId }: ErrorPolicyDialogProps) {
+  const node = useAgentStore((state) => state.nodes.find(n => n.id === nodeId));
+  const agents = useAgentStore((state) => state.agents);
+  const policy = node?.data.errorPolicy;
+
+  // 'none' keeps the default: the node fails, and so do the nodes after it
+  const [type, setType] = React.useState<ErrorPolicy['type'] | 'none'>(policy?.type || 'none');
+  const [text, setText] = React.useState(policy?.type === 'default' ? policy.text : '');
+  const [agentId, setAgentId] = React.useState(policy?.type === 'fallback' ? policy.agentId : undefined);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!node) return;
+
+    let errorPolicy: ErrorPolicy | undefined;
+    switch (type) {
+      case 'fail':
+      case 'empty':
+      case 'placeholder':
+        errorPolicy = { type };
+        break;
+      case 'default':
+        errorPolicy = { type, text };
+        break;
+      case 'fallback':
+        if (!agentId) {
+          toast.error('Choose the agent to fall back to');
+          return;
+        }
+        errorPolicy = { type, agentId };
+        break;
+    }
+
+    useAgentStore.getState().updateNode(nodeId, { data: { ...node.data, errorPolicy } });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>When {node?.data.label || 'this node'} fails</DialogTitle>
+          <DialogDescription>
+            Instead of failing, the node can stop the whole run, or pass on a stand-in so the nodes after it still
+            run. Output Boxes list the inputs that were degraded this way.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Select value={type} onValueChange={(value) => setType(value as ErrorPolicy['type'] | 'none')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Fail, along with the nodes after it</SelectItem>
+              <SelectItem value="fail">Stop the run</SelectItem>
+              <SelectItem value="empty">Pass on an empty output</SelectItem>
+              <SelectItem value="placeholder">Pass on a placeholder naming the error</SelectItem>
+              <SelectItem value="default">Pass on default text</SelectItem>
+              <SelectItem value="fallback">Ask a fallback agent</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {type === 'default' && (
+            <div className="space-y-2">
+              <Label htmlFor="default-output">Default text</Label>
+              <Textarea
+                id="default-output"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="e.g. No summary is available"
+              />
+            </div>
+          )}
+
+          {type === 'fallback' && (
+            <div className="space-y-2">
+              <Label>Fallback agent</Label>
+              <Select value={agentId} onValueChange={setAgentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Agent, e.g. one on another provider or model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.filter(agent => agent.id !== node?.data.agentId).map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name} ({agent.provider} / {agent.model})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used when the node's own request fails. If a node before it failed, there is nothing to ask, so the
+                node fails.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useAgentStore } from '@/store/agentStore';
+import { LoopStopCondition } from '@/types/agent';
+import { DEFAULT_MAX_ITERATIONS } from '@/services/workflowEngine';
+
+interface LoopEdgeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  edgeId: string;
+}
+
+type StopType = 'none' | LoopStopCondition['type'];
+
+/**
+ * Turns an edge into a loop edge that feeds a later node's output back to an earlier one,
+ * with an iteration limit and an optional stop condition
+ */
+export function LoopEdgeDialog({ isOpen, onClose, edgeId }: LoopEdgeDialogProps) {
+  const edge = useAgentStore((state) => state.edges.find(e => e.id === edgeId));
+  const nodes = useAgentStore((state) => state.nodes);
+  const stopWhen = edge?.loop?.stopWhen;
+
+  const [isLoop, setIsLoop] = React.useState(Boolean(edge?.loop));
+  const [maxIterationsText, setMaxIterationsText] = React.useState(String(edge?.loop?.maxIterations || DEFAULT_MAX_ITERATIONS));
+  const [stopType, setStopType] = React.useState<StopType>(stopWhen?.type || 'none');
+  const [stopText, setStopText] = React.useState(
+    stopWhen?.type === 'contains' ? stopWhen.text : stopWhen?.type === 'regex' ? stopWhen.pattern : ''
+  );
+  // JSON stop conditions default to a reviewer answering {"approved": true}
+  const [stopPath, setStopPath] = React.useState(stopWhen?.type === 'json' ? stopWhen.path : 'approved');
+  const [stopValue, setStopValue] = React.useState(stopWhen?.type === 'json' ? stopWhen.value || '' : 'true');
+
+  // The edge can be deleted while the dialog is open
+  if (!edge) return null;
+
+  const sourceLabel = nodes.find(node => node.id === edge.source)?.data.label || edge.source;
+  const targetLabel = nodes.find(node => node.id === edge.target)?.data.label || edge.target;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isLoop) {
+      useAgentStore.getState().updateEdge(edge.id, { loop: undefined });
+      onClose();
+      return;
+    }
+
+    const maxIterations = Number(maxIterationsText);
+    if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+      toast.error('Maximum iterations must be a whole number of at least 1');
+      return;
+    }
+
+    let stopWhen: LoopStopCondition | undefined;
+    if (stopType === 'contains' || stopType === 'regex') {
+      if (!stopText) {
+        toast.error('Enter the text or pattern that ends the loop');
+        return;
+      }
+      if (stopType === 'regex') {
+        try {
+          new RegExp(stopText);
+        } catch (error) {
+          toast.error(`Invalid pattern: ${error.message}`);
+          return;
+        }
+      }
+      stopWhen = stopType === 'contains' ? { type: 'contains', text: stopText } : { type: 'regex', pattern: stopText };
+    } else if (stopType === 'json') {
+      if (!stopPath.trim()) {
+        toast.error('Enter the JSON field that ends the loop');
+        return;
+      }
+      stopWhen = { type: 'json', path: stopPath.trim(), operator: 'equals', value: stopValue };
+    }
+
+    useAgentStore.getState().updateEdge(edge.id, { loop: { maxIterations, stopWhen } });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Connection Settings</DialogTitle>
+          <DialogDescription>
+            {sourceLabel} → {targetLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="flex items-start gap-2 text-sm cursor-pointer">
+            <Checkbox checked={isLoop} onCheckedChange={(checked) => setIsLoop(checked === true)} className="mt-0.5" />
+            <span>
+              Loop back: after {sourceLabel} runs, run {targetLabel} and the nodes between them again, with the output
+              of {sourceLabel} as an extra input
+            </span>
+          </label>
+
+          {isLoop && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="max-iterations">Maximum iterations</Label>
+                <Input
+                  id="max-iterations"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={maxIterationsText}
+                  onChange={(e) => setMaxIterationsText(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Stop early when the output of {sourceLabel}</Label>
+                <Select value={stopType} onValueChange={(value) => setStopType(value as StopType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Never; always run every iteration</SelectItem>
+                    <SelectItem value="contains">contains text</SelectItem>
+                    <SelectItem value="regex">matches a regex</SelectItem>
+                    <SelectItem value="json">has a JSON field equal to</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {(stopType === 'contains' || stopType === 'regex') && (
+                  <Input
+                    value={stopText}
+                    onChange={(e) => setStopText(e.target.value)}
+                    placeholder={stopType === 'contains' ? 'e.g. LGTM' : 'e.g. ^APPROVED'}
+                    className={stopType === 'regex' ? 'font-mono' : undefined}
+                  />
+                )}
+
+                {stopType === 'json' && (
+                  <div className="flex items-center gap-2">
+                    <Input value={stopPath} onChange={(e) => setStopPath(e.target.value)} placeholder="Field, e.g. approved" className="font-mono" />
+                    <span className="text-sm">=</span>
+                    <Input value={stopValue} onChange={(e) => setStopValue(e.target.value)} placeholder="Value" className="w-24" />
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useAgentStore } from '@/store/agentStore';
+import { MapSplitMode } from '@/types/agent';
+import { DEFAULT_CHUNK_TOKENS, DEFAULT_ITEM_CONCURRENCY } from '@/services/mapService';
+
+interface MapConfigDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeId: string;
+}
+
+/**
+ * Edits how a Map node splits its input and how many items are worked on at once
+ */
+export function MapConfigDialog({ isOpen, onClose, nodeId }: MapConfigDialogProps) {
+  const node = useAgentStore((state) => state.nodes.find(n => n.id === nodeId));
+  const config = node?.data.map;
+
+  const [label, setLabel] = React.useState(node?.data.label || 'Map');
+  const [items, setItems] = React.useState(node?.data.inputs[0] || '');
+  const [split, setSplit] = React.useState<MapSplitMode>(config?.split || 'lines');
+  const [delimiter, setDelimiter] = React.useState(config?.delimiter || ',');
+  const [chunkTokensText, setChunkTokensText] = React.useState(String(config?.chunkTokens || DEFAULT_CHUNK_TOKENS));
+  const [concurrencyText, setConcurrencyText] = React.useState(String(config?.concurrency || DEFAULT_ITEM_CONCURRENCY));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!node) return;
+
+    const concurrency = Number(concurrencyText);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      toast.error('Items at a time must be a whole number of at least 1');
+      return;
+    }
+    const chunkTokens = Number(chunkTokensText);
+    if (split === 'chunks' && (!Number.isInteger(chunkTokens) || chunkTokens < 50)) {
+      toast.error('Chunk size must be a whole number of at least 50 tokens');
+      return;
+    }
+    if (split === 'delimiter' && !delimiter) {
+      toast.error('Enter the delimiter to split on');
+      return;
+    }
+
+    useAgentStore.getState().updateNode(nodeId, {
+      data: {
+        ...node.data,
+        label: label.trim() || 'Map',
+        inputs: items.trim() ? [items] : [],
+        map: {
+          split,
+          delimiter: split === 'delimiter' ? delimiter : undefined,
+          chunkTokens: split === 'chunks' ? chunkTokens : undefined,
+          concurrency
+        }
+      }
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Configure Map</DialogTitle>
+          <DialogDescription>
+            The Map node splits its input into items. Agents connected after it answer once per item, and a
+            Reduce node gathers their answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="map-label">Name</Label>
+            <Input id="map-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="map-items">Items</Label>
+            <Textarea
+              id="map-items"
+              value={items}
+              onChange={(e) => setItems(e.target.value)}
+              placeholder="Optional; split together with the output of the nodes before this one"
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Split</Label>
+            <Select value={split} onValueChange={(value) => setSplit(value as MapSplitMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lines">One item per line</SelectItem>
+                <SelectItem value="json">One item per entry of a JSON array</SelectItem>
+                <SelectItem value="delimiter">On a delimiter</SelectItem>
+                <SelectItem value="chunks">Into chunks of a given size</SelectItem>
+              </SelectContent>
+            </Select>
+            {split === 'delimiter' && (
+              <Input value={delimiter} onChange={(e) => setDelimiter(e.target.value)} placeholder="Delimiter, e.g. ;" />
+            )}
+            {split === 'chunks' && (
+              <Input
+                type="number"
+                min={50}
+                step={1}
+                value={chunkTokensText}
+                onChange={(e) => setChunkTokensText(e.target.value)}
+                placeholder="Tokens per chunk"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="map-concurrency">Items at a time</Label>
+            <Input
+              id="map-concurrency"
+              type="number"
+              min={1}
+              step={1}
+              value={concurrencyText}
+              onChange={(e) => setConcurrencyText(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Map</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAgentStore } from '@/store/agentStore';
+import { JoinFormat } from '@/types/agent';
+
+interface ReduceConfigDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeId: string;
+}
+
+// Separators are edited with \n for line breaks
+const escapeSeparator = (separator: string) => separator.replace(/\n/g, '\\n');
+const unescapeSeparator = (separator: string) => separator.replace(/\\n/g, '\n');
+
+/**
+ * Edits how a Reduce node joins items
+ */
+export function ReduceConfigDialog({ isOpen, onClose, nodeId }: ReduceConfigDialogProps) {
+  const node = useAgentStore((state) => state.nodes.find(n => n.id === nodeId));
+  const config = node?.data.reduce;
+
+  const [label, setLabel] = React.useState(node?.data.label || 'Reduce');
+  const [format, setFormat] = React.useState<JoinFormat>(config?.format || 'concat');
+  const [separator, setSeparator] = React.useState(escapeSeparator(config?.separator ?? '\n\n'));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!node) return;
+
+    useAgentStore.getState().updateNode(nodeId, {
+      data: {
+        ...node.data,
+        label: label.trim() || 'Reduce',
+        reduce: {
+          format,
+          separator: format === 'concat' ? unescapeSeparator(separator) : undefined
+        }
+      }
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Configure Reduce</DialogTitle>
+          <DialogDescription>
+            Gathers the answers for each item of a Map node, in item order. Without items before it, it joins
+            the outputs of the nodes connected to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reduce-label">Name</Label>
+            <Input id="reduce-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Join as</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as JoinFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="json">JSON array</SelectItem>
+                <SelectItem value="numbered">Numbered list</SelectItem>
+                <SelectItem value="concat">One after another</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === 'concat' && (
+            <div className="space-y-2">
+              <Label htmlFor="reduce-separator">Separator</Label>
+              <Input
+                id="reduce-separator"
+                value={separator}
+                onChange={(e) => setSeparator(e.target.value)}
+                placeholder="\n\n"
+                className="font-mono"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Reduce</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { useAgentStore } from '@/store/agentStore';
+import { Badge } from "@/components/ui/badge";
+import { cn } from '@/lib/utils';
+import { X, Merge } from 'lucide-react';
+import { ReduceConfig } from '@/types/agent';
+import { ReduceConfigDialog } from './ReduceConfigDialog';
+
+interface ReduceNodeProps {
+  id: string;
+  data: {
+    label: string;
+    inputs: string[];
+    outputs: string[];
+    reduce?: ReduceConfig;
+  };
+  isConnectable: boolean;
+}
+
+const formatLabels: Record<ReduceConfig['format'], string> = {
+  json: 'Joins items as a JSON array',
+  numbered: 'Joins items as a numbered list',
+  concat: 'Joins items one after another',
+};
+
+/**
+ * Canvas node that gathers the answers for each item, in item order, into one output
+ */
+export function ReduceNode({ id, data, isConnectable }: ReduceNodeProps) {
+  const [isConfigOpen, setIsConfigOpen] = React.useState(false);
+  const executionResults = useAgentStore((state) => state.executionResults[id]);
+  const removeNode = useAgentStore((state) => state.removeNode);
+  const config = data.reduce || { format: 'concat' };
+
+  const handleRemoveNode = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    removeNode(id);
+  };
+
+  return (
+    <div
+      className={cn(
+        "agent-node group transition-all relative",
+        executionResults?.status === 'running' && "animate-pulse-light"
+      )}
+      style={{ borderTop: '4px solid #0d9488' }}
+      onClick={() => setIsConfigOpen(true)}
+    >
+      <button
+        className="absolute -top-2 -right-2 h-5 w-5 bg-red-500 rounded-full text-white flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
+        onClick={handleRemoveNode}
+      >
+        <X className="h-3 w-3" />
+      </button>
+
+      <Handle
+        type="target"
+        position={Position.Top}
+        isConnectable={isConnectable}
+        className="transition-all duration-300 opacity-0 group-hover:opacity-100"
+      />
+
+      <div className="agent-node-header flex justify-between items-center">
+        <Merge className="h-4 w-4 mr-1 text-teal-600" />
+        <div className="font-medium truncate flex-1">{data.label}</div>
+        {executionResults?.status && (
+          <Badge variant={
+            executionResults.status === 'completed' ? 'default' :
+            executionResults.status === 'running' ? 'secondary' :
+            executionResults.status === 'error' ? 'destructive' : 'outline'
+          } className="ml-2 text-xs">
+            {executionResults.status}
+          </Badge>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 mt-2 space-y-1">
+        <div>{formatLabels[config.format]}</div>
+        {data.outputs.length > 0 && (
+          <div className="max-h-20 overflow-y-auto opacity-70">
+            {data.outputs[0].substring(0, 50)}
+            {data.outputs[0].length > 50 ? '...' : ''}
+          </div>
+        )}
+        {executionResults?.status === 'error' && (
+          <div className="text-red-600">{executionResults.error}</div>
+        )}
+      </div>
+
+      {/* Clicks inside the dialog would otherwise reach the node and reopen it */}
+      {isConfigOpen && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <ReduceConfigDialog
+            isOpen={isConfigOpen}
+            onClose={() => setIsConfigOpen(false)}
+            nodeId={id}
+          />
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        isConnectable={isConnectable}
+        className="transition-all duration-300 opacity-0 group-hover:opacity-100"
+      />
+    </div>
+  );
+}
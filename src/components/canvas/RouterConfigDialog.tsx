@@ -0,0 +1,325 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAgentStore } from '@/store/agentStore';
+import { JsonComparison, RouteCondition, RouterRoute } from '@/types/agent';
+import { ELSE_ROUTE_ID } from '@/services/routerService';
+
+interface RouterConfigDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeId: string;
+}
+
+const conditionTypes: { value: RouteCondition['type']; label: string }[] = [
+  { value: 'contains', label: 'Contains text' },
+  { value: 'regex', label: 'Matches regex' },
+  { value: 'json', label: 'JSON field' },
+  { value: 'classify', label: 'Classified as' },
+];
+
+const jsonComparisons: { value: JsonComparison; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'greaterThan', label: 'is greater than' },
+  { value: 'lessThan', label: 'is less than' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'exists' },
+];
+
+const emptyCondition = (type: RouteCondition['type']): RouteCondition => {
+  switch (type) {
+    case 'contains': return { type, text: '' };
+    case 'regex': return { type, pattern: '' };
+    case 'json': return { type, path: '', operator: 'equals', value: '' };
+    case 'classify': return { type, label: '' };
+  }
+};
+
+// Message for the first problem in the routes, if any
+function validateRoutes(routes: RouterRoute[], classifierAgentId?: string): string | null {
+  for (const route of routes) {
+    if (!route.name.trim()) return 'Every route needs a name';
+    const condition = route.condition;
+    switch (condition.type) {
+      case 'contains':
+        if (!condition.text) return `Route "${route.name}" needs text to look for`;
+        break;
+      case 'regex':
+        try {
+          new RegExp(condition.pattern, condition.flags);
+        } catch (error) {
+          return `Route "${route.name}" has an invalid pattern: ${error.message}`;
+        }
+        break;
+      case 'json':
+        if (!condition.path.trim()) return `Route "${route.name}" needs a JSON path`;
+        break;
+      case 'classify':
+        if (!condition.label.trim()) return `Route "${route.name}" needs a label`;
+        if (!classifierAgentId) return 'Choose a classifier agent for the classification routes';
+        break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Edits the name and ordered routes of a Router node
+ */
+export function RouterConfigDialog({ isOpen, onClose, nodeId }: RouterConfigDialogProps) {
+  const node = useAgentStore((state) => state.nodes.find(n => n.id === nodeId));
+  const agents = useAgentStore((state) => state.agents);
+
+  const [label, setLabel] = React.useState(node?.data.label || 'Router');
+  const [routes, setRoutes] = React.useState<RouterRoute[]>(node?.data.router?.routes || []);
+  const [matchAll, setMatchAll] = React.useState(Boolean(node?.data.router?.matchAll));
+  const [classifierAgentId, setClassifierAgentId] = React.useState(node?.data.router?.classifierAgentId);
+
+  const hasClassifyRoutes = routes.some(route => route.condition.type === 'classify');
+
+  const updateRoute = (index: number, updates: Partial<RouterRoute>) => {
+    setRoutes(current => current.map((route, i) => i === index ? { ...route, ...updates } : route));
+  };
+
+  const updateCondition = (index: number, updates: Partial<RouteCondition>) => {
+    setRoutes(current => current.map((route, i) => i === index
+      ? { ...route, condition: { ...route.condition, ...updates } as RouteCondition }
+      : route));
+  };
+
+  const addRoute = () => {
+    setRoutes(current => [...current, {
+      id: `route-${Math.random().toString(36).substring(2, 9)}`,
+      name: `Route ${current.length + 1}`,
+      condition: emptyCondition('contains')
+    }]);
+  };
+
+  const moveRoute = (index: number, offset: number) => {
+    setRoutes(current => {
+      const moved = [...current];
+      [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+      return moved;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!node) return;
+
+    const problem = validateRoutes(routes, classifierAgentId);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const store = useAgentStore.getState();
+    store.updateNode(nodeId, {
+      data: {
+        ...node.data,
+        label: label.trim() || 'Router',
+        router: {
+          routes,
+          matchAll,
+          classifierAgentId: hasClassifyRoutes ? classifierAgentId : undefined
+        }
+      }
+    });
+
+    // Edges of deleted routes have nowhere to leave from
+    const routeIds = new Set(routes.map(route => route.id));
+    store.edges
+      .filter(edge => edge.source === nodeId && edge.sourceHandle && edge.sourceHandle !== ELSE_ROUTE_ID && !routeIds.has(edge.sourceHandle))
+      .forEach(edge => store.removeEdge(edge.id));
+
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl glass-panel animate-scale-in">
+        <DialogHeader>
+          <DialogTitle>Configure Router</DialogTitle>
+          <DialogDescription>
+            Routes are checked in order. The input goes down the first matching route, or every matching
+            route when "Take every matching route" is on, and down Else when none match.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="router-label">Name</Label>
+            <Input id="router-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+
+          <ScrollArea className="max-h-[45vh] pr-3">
+            <div className="space-y-3">
+              {routes.map((route, index) => (
+                <div key={route.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={route.name}
+                      onChange={(e) => updateRoute(index, { name: e.target.value })}
+                      placeholder="Route name"
+                      className="flex-1"
+                    />
+                    <Select
+                      value={route.condition.type}
+                      onValueChange={(value) => updateRoute(index, { condition: emptyCondition(value as RouteCondition['type']) })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {conditionTypes.map((conditionType) => (
+                          <SelectItem key={conditionType.value} value={conditionType.value}>
+                            {conditionType.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveRoute(index, -1)} title="Check earlier">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === routes.length - 1} onClick={() => moveRoute(index, 1)} title="Check later">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRoutes(current => current.filter((_, i) => i !== index))} title="Delete route">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {route.condition.type === 'contains' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={route.condition.text}
+                        onChange={(e) => updateCondition(index, { text: e.target.value })}
+                        placeholder="Text the input contains"
+                        className="flex-1"
+                      />
+                      <label className="flex items-center gap-1 text-xs whitespace-nowrap cursor-pointer">
+                        <Checkbox
+                          checked={Boolean(route.condition.caseSensitive)}
+                          onCheckedChange={(checked) => updateCondition(index, { caseSensitive: checked === true })}
+                        />
+                        Match case
+                      </label>
+                    </div>
+                  )}
+
+                  {route.condition.type === 'regex' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={route.condition.pattern}
+                        onChange={(e) => updateCondition(index, { pattern: e.target.value })}
+                        placeholder="Pattern, e.g. ^(yes|approved)\b"
+                        className="flex-1 font-mono"
+                      />
+                      <Input
+                        value={route.condition.flags || ''}
+                        onChange={(e) => updateCondition(index, { flags: e.target.value })}
+                        placeholder="Flags"
+                        className="w-20 font-mono"
+                      />
+                    </div>
+                  )}
+
+                  {route.condition.type === 'json' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={route.condition.path}
+                        onChange={(e) => updateCondition(index, { path: e.target.value })}
+                        placeholder="Path, e.g. review.score"
+                        className="flex-1 font-mono"
+                      />
+                      <Select
+                        value={route.condition.operator}
+                        onValueChange={(value) => updateCondition(index, { operator: value as JsonComparison })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {jsonComparisons.map((comparison) => (
+                            <SelectItem key={comparison.value} value={comparison.value}>
+                              {comparison.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {route.condition.operator !== 'exists' && (
+                        <Input
+                          value={route.condition.value || ''}
+                          onChange={(e) => updateCondition(index, { value: e.target.value })}
+                          placeholder="Value"
+                          className="w-28"
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  {route.condition.type === 'classify' && (
+                    <Input
+                      value={route.condition.label}
+                      onChange={(e) => updateCondition(index, { label: e.target.value })}
+                      placeholder="Label, e.g. complaint"
+                    />
+                  )}
+                </div>
+              ))}
+
+              {routes.length === 0 && (
+                <div className="text-center py-4 text-sm text-muted-foreground">
+                  No routes yet; everything goes down Else
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          <Button type="button" variant="outline" size="sm" onClick={addRoute}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Route
+          </Button>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={matchAll} onCheckedChange={(checked) => setMatchAll(checked === true)} />
+            Take every matching route
+          </label>
+
+          {hasClassifyRoutes && (
+            <div className="space-y-2">
+              <Label>Classifier agent</Label>
+              <Select value={classifierAgentId} onValueChange={setClassifierAgentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Agent that picks a label" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Router</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
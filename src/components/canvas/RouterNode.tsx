@@ -0,0 +1,123 @@
+import React from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { useAgentStore } from '@/store/agentStore';
+import { Badge } from "@/components/ui/badge";
+import { cn } from '@/lib/utils';
+import { X, GitBranch } from 'lucide-react';
+import { RouterConfig } from '@/types/agent';
+import { ELSE_ROUTE_ID } from '@/services/routerService';
+import { RouterConfigDialog } from './RouterConfigDialog';
+
+interface RouterNodeProps {
+  id: string;
+  data: {
+    label: string;
+    inputs: string[];
+    outputs: string[];
+    router?: RouterConfig;
+  };
+  isConnectable: boolean;
+}
+
+/**
+ * Canvas node that passes its input on along the routes whose conditions match, one
+ * source handle per route plus one for when nothing matches
+ */
+export function RouterNode({ id, data, isConnectable }: RouterNodeProps) {
+  const [isConfigOpen, setIsConfigOpen] = React.useState(false);
+  const executionResults = useAgentStore((state) => state.executionResults[id]);
+  const removeNode = useAgentStore((state) => state.removeNode);
+
+  const routes = [
+    ...(data.router?.routes || []).map(route => ({ id: route.id, name: route.name })),
+    { id: ELSE_ROUTE_ID, name: 'Else' }
+  ];
+  const selectedRoutes = executionResults?.status === 'completed' ? executionResults.routes || [] : [];
+
+  const handleRemoveNode = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    removeNode(id);
+  };
+
+  return (
+    <div
+      className={cn(
+        "agent-node group transition-all relative pb-6",
+        executionResults?.status === 'running' && "animate-pulse-light"
+      )}
+      style={{ borderTop: '4px solid #64748b', minWidth: Math.max(180, routes.length * 70) }}
+      onClick={() => setIsConfigOpen(true)}
+    >
+      <button
+        className="absolute -top-2 -right-2 h-5 w-5 bg-red-500 rounded-full text-white flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
+        onClick={handleRemoveNode}
+      >
+        <X className="h-3 w-3" />
+      </button>
+
+      <Handle
+        type="target"
+        position={Position.Top}
+        isConnectable={isConnectable}
+        className="transition-all duration-300 opacity-0 group-hover:opacity-100"
+      />
+
+      <div className="agent-node-header flex justify-between items-center">
+        <GitBranch className="h-4 w-4 mr-1 text-slate-500" />
+        <div className="font-medium truncate flex-1">{data.label}</div>
+        {executionResults?.status && (
+          <Badge variant={
+            executionResults.status === 'completed' ? 'default' :
+            executionResults.status === 'running' ? 'secondary' :
+            executionResults.status === 'error' || executionResults.status === 'timeout' ? 'destructive' : 'outline'
+          } className="ml-2 text-xs">
+            {executionResults.status}
+          </Badge>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 mt-2">
+        {routes.length === 1 && (
+          <div className="text-center py-2 opacity-50 italic">Click to add routes</div>
+        )}
+        {(executionResults?.status === 'error' || executionResults?.status === 'timeout') && (
+          <div className="text-red-600">{executionResults.error}</div>
+        )}
+      </div>
+
+      {/* One source handle per route, labelled underneath */}
+      <div className="absolute bottom-0 left-0 right-0 flex">
+        {routes.map((route) => (
+          <div
+            key={route.id}
+            className={cn(
+              "relative flex-1 text-center text-[10px] truncate px-1 pb-1",
+              selectedRoutes.includes(route.id) ? "text-primary font-medium" : "text-gray-500"
+            )}
+            title={route.name}
+          >
+            {route.name}
+            <Handle
+              type="source"
+              id={route.id}
+              position={Position.Bottom}
+              isConnectable={isConnectable}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Clicks inside the dialog would otherwise reach the node and reopen it */}
+      {isConfigOpen && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <RouterConfigDialog
+            isOpen={isConfigOpen}
+            onClose={() => setIsConfigOpen(false)}
+            nodeId={id}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { Edge } from '@xyflow/react';
+import { AgentEdge } from '@/types/agent';
+import { DEFAULT_MAX_ITERATIONS } from '@/services/workflowEngine';
+
+/**
+ * React Flow edge for a canvas edge; loop edges are dashed and show how often they may repeat
+ */
+export function toFlowEdge(edge: AgentEdge): Edge {
+  if (!edge.loop) return edge;
+  return {
+    ...edge,
+    label: `loop ≤${edge.loop.maxIterations || DEFAULT_MAX_ITERATIONS}×`,
+    style: { strokeDasharray: '6 4' },
+  };
+}
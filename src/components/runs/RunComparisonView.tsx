@@ -0,0 +1,128 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Run } from '@/services/runHistory';
+import { compareRuns } from '@/services/runComparison';
+import { diffWords, DiffPart } from '@/utils/textDiff';
+import { statusBadgeVariant } from './runFormat';
+
+interface RunComparisonViewProps {
+  // Older and newer run; the dialog is closed when null
+  runs: [Run, Run] | null;
+  onClose: () => void;
+}
+
+// Old text with removed words marked on the left, new text with added words marked on the right
+function SideBySideDiff({ parts }: { parts: DiffPart[] }) {
+  const renderSide = (hidden: DiffPart['type'], marked: DiffPart['type'], markClass: string) => (
+    <pre className="whitespace-pre-wrap break-words rounded-md bg-muted p-2 text-xs">
+      {parts.filter(part => part.type !== hidden).map((part, index) => (
+        <span key={index} className={part.type === marked ? markClass : undefined}>{part.text}</span>
+      ))}
+    </pre>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {renderSide('added', 'removed', 'bg-red-100 text-red-800 line-through')}
+      {renderSide('removed', 'added', 'bg-green-100 text-green-800')}
+    </div>
+  );
+}
+
+const fieldLabels: Record<string, string> = {
+  inputs: 'Node inputs',
+  router: 'Routes',
+  map: 'Map settings',
+  reduce: 'Join format',
+  approval: 'Approval settings',
+  errorPolicy: 'Error policy',
+  fallbackModels: 'Fallback models',
+  timeoutSeconds: 'Request timeout',
+  agent: 'Agent',
+  provider: 'Provider',
+  model: 'Model',
+  systemPrompt: 'System prompt',
+  generationParams: 'Generation settings',
+  outputSchema: 'Output schema',
+  tools: 'Tools',
+  maxToolSteps: 'Max tool steps',
+};
+
+/**
+ * Compares two runs of the same canvas node by node
+ */
+export function RunComparisonView({ runs, onClose }: RunComparisonViewProps) {
+  const [changedOnly, setChangedOnly] = React.useState(true);
+  const comparisons = React.useMemo(() => runs ? compareRuns(runs[0], runs[1]) : [], [runs]);
+
+  if (!runs) return null;
+  const [before, after] = runs;
+  const shown = changedOnly ? comparisons.filter(comparison => comparison.changed) : comparisons;
+
+  return (
+    <Dialog open={Boolean(runs)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl glass-panel">
+        <DialogHeader>
+          <DialogTitle>Compare Runs</DialogTitle>
+          <DialogDescription>
+            {new Date(before.startedAt).toLocaleString()} (left) and {new Date(after.startedAt).toLocaleString()} (right)
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={changedOnly} onCheckedChange={(checked) => setChangedOnly(checked === true)} />
+          Only show nodes that changed
+        </label>
+
+        <ScrollArea className="h-[70vh] pr-3">
+          <div className="space-y-4">
+            {shown.map((comparison) => (
+              <div key={comparison.nodeId} className="rounded-md border p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium flex-1">{comparison.label}</span>
+                  <Badge variant={statusBadgeVariant(comparison.statusBefore || 'pending')}>
+                    {comparison.statusBefore || 'not run'}
+                  </Badge>
+                  <span className="text-muted-foreground">→</span>
+                  <Badge variant={statusBadgeVariant(comparison.statusAfter || 'pending')}>
+                    {comparison.statusAfter || 'not run'}
+                  </Badge>
+                </div>
+
+                {comparison.changes.map((change) => (
+                  <div key={change.field} className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">
+                      {fieldLabels[change.field] || change.field} changed
+                    </div>
+                    <SideBySideDiff parts={diffWords(change.before, change.after)} />
+                  </div>
+                ))}
+
+                {comparison.inputDiff.some(part => part.type !== 'equal') && (
+                  <div className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">Combined input</div>
+                    <SideBySideDiff parts={comparison.inputDiff} />
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-muted-foreground">Output</div>
+                  <SideBySideDiff parts={comparison.outputDiff} />
+                </div>
+              </div>
+            ))}
+
+            {shown.length === 0 && (
+              <div className="text-center py-8 text-sm text-muted-foreground">
+                Nothing changed between these runs
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import React from 'react';
+import { Background, BackgroundVariant, Controls, Handle, NodeTypes, Position, ReactFlow, ReactFlowProvider } from '@xyflow/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { NodeRunRecord, Run } from '@/services/runHistory';
+import { formatCost } from '@/services/pricing';
+import { cn } from '@/lib/utils';
+import { toFlowEdge } from '@/components/canvas/edgeDisplay';
+import { describeRunScope, formatDuration, statusBadgeVariant } from './runFormat';
+
+interface RunViewerProps {
+  run: Run | null;
+  onClose: () => void;
+}
+
+interface RunNodeData {
+  label: string;
+  color?: string;
+  record?: NodeRunRecord;
+  selected?: boolean;
+}
+
+// Read-only canvas node showing what happened to it in the run
+function RunNodeView({ data }: { data: RunNodeData }) {
+  const { record } = data;
+  const duration = record?.startedAt !== undefined && record.finishedAt !== undefined
+    ? formatDuration(record.finishedAt - record.startedAt)
+    : undefined;
+
+  return (
+    <div
+      className={cn('agent-node cursor-pointer', data.selected && 'ring-2 ring-primary')}
+      style={{ borderTop: `4px solid ${data.color || 'white'}` }}
+    >
+      <Handle type="target" position={Position.Top} isConnectable={false} className="opacity-0" />
+      <div className="agent-node-header flex justify-between items-center">
+        <div className="font-medium truncate flex-1">{data.label}</div>
+        <Badge variant={statusBadgeVariant(record?.status || 'pending')} className="ml-2 text-xs">
+          {record?.status || 'not run'}
+        </Badge>
+      </div>
+      <div className="text-xs text-gray-500 mt-2 space-y-1">
+        {record?.reused && <div>Unchanged, kept the previous output</div>}
+        {(duration || record?.cost !== undefined) && (
+          <div className="flex gap-2">
+            {duration && <span>{duration}</span>}
+            {record?.cost !== undefined && <span>{formatCost(record.cost)}</span>}
+          </div>
+        )}
+        {record?.output && (
+          <div className="opacity-70">
+            {record.output.substring(0, 50)}
+            {record.output.length > 50 ? '...' : ''}
+          </div>
+        )}
+      </div>
+      <Handle type="source" position={Position.Bottom} isConnectable={false} className="opacity-0" />
+    </div>
+  );
+}
+
+const nodeTypes: NodeTypes = {
+  runNode: RunNodeView,
+};
+
+function DetailSection({ title, text }: { title: string; text?: string }) {
+  if (!text) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <pre className="whitespace-pre-wrap break-words rounded-md bg-muted p-2 text-xs">{text}</pre>
+    </div>
+  );
+}
+
+/**
+ * Shows a past run on the canvas exactly as it executed, with the prompt, input and output of each node
+ */
+export function RunViewer({ run, onClose }: RunViewerProps) {
+  const [selectedNodeId, setSelectedNodeId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setSelectedNodeId(null);
+  }, [run?.id]);
+
+  const flowNodes = React.useMemo(() => (run?.snapshot.nodes || []).map(node => {
+    const agent = run.snapshot.agents.find(a => a.id === node.data.agentId);
+    return {
+      id: node.id,
+      type: 'runNode',
+      position: node.position,
+      data: {
+        label: node.data.label,
+        color: node.data.color || agent?.color,
+        record: run.nodes[node.id],
+        selected: node.id === selectedNodeId,
+      },
+      draggable: false,
+    };
+  }), [run, selectedNodeId]);
+
+  // Run nodes have a single source handle, so router routes aren't kept on the edges
+  const flowEdges = React.useMemo(
+    () => (run?.snapshot.edges || []).map(edge => ({ ...toFlowEdge(edge), sourceHandle: undefined })),
+    [run]
+  );
+
+  if (!run) return null;
+
+  const selectedNode = run.snapshot.nodes.find(node => node.id === selectedNodeId);
+  const selectedRecord = selectedNodeId ? run.nodes[selectedNodeId] : undefined;
+  const selectedAgent = selectedNode?.data.agentId
+    ? run.snapshot.agents.find(agent => agent.id === selectedNode.data.agentId)
+    : undefined;
+
+  return (
+    <Dialog open={Boolean(run)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-6xl glass-panel">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Run of {new Date(run.startedAt).toLocaleString()}
+            <Badge variant={statusBadgeVariant(run.status)}>{run.status}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {describeRunScope(run)}
+            {run.finishedAt !== undefined && ` · ${formatDuration(run.finishedAt - run.startedAt)}`}
+            {` · ${run.tokens.toLocaleString()} tokens · ${formatCost(run.cost)}`}
+            {run.reason && ` · ${run.reason}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_360px] gap-4 h-[70vh]">
+          <div className="rounded-md border overflow-hidden">
+            <ReactFlowProvider>
+              <ReactFlow
+                nodes={flowNodes}
+                edges={flowEdges}
+                nodeTypes={nodeTypes}
+                nodesConnectable={false}
+                nodesDraggable={false}
+                onNodeClick={(_, node) => setSelectedNodeId(node.id)}
+                fitView
+                className="bg-slate-50"
+              >
+                <Background variant={BackgroundVariant.Dots} gap={20} color="#e2e8f0" />
+                <Controls showInteractive={false} />
+              </ReactFlow>
+            </ReactFlowProvider>
+          </div>
+
+          <ScrollArea className="rounded-md border p-3">
+            {!selectedNode ? (
+              <div className="text-sm text-muted-foreground text-center py-8">
+                Click a node to see what it ran with
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">{selectedNode.data.label}</div>
+                  <Badge variant={statusBadgeVariant(selectedRecord?.status || 'pending')}>
+                    {selectedRecord?.status || 'not run'}
+                  </Badge>
+                </div>
+                {selectedAgent && (
+                  <div className="text-xs text-muted-foreground">
+                    {selectedAgent.name} · {selectedAgent.provider} / {selectedAgent.model}
+                  </div>
+                )}
+                {selectedAgent && selectedRecord?.answeredBy && selectedRecord.answeredBy.model !== selectedAgent.model && (
+                  <div className="text-xs text-amber-600">
+                    Answered by fallback model {selectedRecord.answeredBy.provider} / {selectedRecord.answeredBy.model}
+                  </div>
+                )}
+                {selectedRecord?.cost !== undefined && (
+                  <div className="text-xs text-muted-foreground">
+                    {selectedRecord.promptTokens} prompt + {selectedRecord.completionTokens} completion tokens · {formatCost(selectedRecord.cost)}
+                  </div>
+                )}
+                {selectedRecord?.error && (
+                  <div className="text-xs text-destructive">{selectedRecord.error}</div>
+                )}
+                {selectedRecord?.degraded && (
+                  <div className="text-xs text-amber-600">Degraded: {selectedRecord.degraded}</div>
+                )}
+                {selectedRecord?.degradedInputs?.length > 0 && (
+                  <div className="text-xs text-amber-600">
+                    Degraded inputs: {selectedRecord.degradedInputs
+                      .map(nodeId => run.snapshot.nodes.find(n => n.id === nodeId)?.data.label || nodeId)
+                      .join(', ')}
+                  </div>
+                )}
+                <DetailSection title="System prompt" text={selectedRecord?.systemPrompt} />
+                <DetailSection title="Input" text={selectedRecord?.input} />
+                {selectedRecord?.iterations?.slice(0, -1).map((output, index) => (
+                  <DetailSection key={index} title={`Iteration ${index + 1} output`} text={output} />
+                ))}
+                <DetailSection
+                  title={selectedRecord?.iterations?.length > 1 ? `Final output (iteration ${selectedRecord.iterations.length})` : 'Output'}
+                  text={selectedRecord?.output}
+                />
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
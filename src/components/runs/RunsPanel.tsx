@@ -0,0 +1,159 @@
+import React from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MAX_STORED_RUNS, Run, runHistory } from '@/services/runHistory';
+import { isSameCanvas } from '@/services/runComparison';
+import { formatCost } from '@/services/pricing';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { RunViewer } from './RunViewer';
+import { RunComparisonView } from './RunComparisonView';
+import { describeRunScope, formatDuration, statusBadgeVariant } from './runFormat';
+
+interface RunsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists past runs, newest first, opens them in the run viewer and compares two of them
+ */
+export function RunsPanel({ isOpen, onClose }: RunsPanelProps) {
+  const [runs, setRuns] = React.useState<Run[]>([]);
+  const [openedRun, setOpenedRun] = React.useState<Run | null>(null);
+  // Runs ticked for comparison, at most two
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [comparedRuns, setComparedRuns] = React.useState<[Run, Run] | null>(null);
+
+  const loadRuns = React.useCallback(() => {
+    runHistory.listRuns()
+      .then(loadedRuns => {
+        setRuns(loadedRuns);
+        setSelectedIds(current => current.filter(id => loadedRuns.some(run => run.id === id)));
+      })
+      .catch(error => console.error('Failed to load run history:', error));
+  }, []);
+
+  const selectedRuns = runs.filter(run => selectedIds.includes(run.id));
+
+  // Only runs of the same canvas can be compared
+  const canSelect = (run: Run) => selectedIds.includes(run.id)
+    || (selectedRuns.length < 2 && selectedRuns.every(selected => isSameCanvas(selected, run)));
+
+  const toggleSelected = (run: Run) => {
+    setSelectedIds(current => current.includes(run.id)
+      ? current.filter(id => id !== run.id)
+      : [...current, run.id]);
+  };
+
+  const compareSelected = () => {
+    // Older run on the left
+    const [newer, older] = selectedRuns;
+    setComparedRuns([older, newer]);
+    onClose();
+  };
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    loadRuns();
+    return runHistory.subscribe(loadRuns);
+  }, [isOpen, loadRuns]);
+
+  const openRun = (run: Run) => {
+    setOpenedRun(run);
+    onClose();
+  };
+
+  const deleteRun = (e: React.MouseEvent, run: Run) => {
+    e.stopPropagation();
+    runHistory.deleteRun(run.id).catch(error => {
+      console.error('Failed to delete run:', error);
+      toast.error('Failed to delete run');
+    });
+  };
+
+  const clearHistory = () => {
+    if (!confirm('Delete all runs from the history?')) return;
+    runHistory.clear().catch(error => {
+      console.error('Failed to clear run history:', error);
+      toast.error('Failed to clear run history');
+    });
+  };
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <SheetContent className="flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Runs</SheetTitle>
+            <SheetDescription>
+              Open a run to see the canvas as it executed, or tick two runs to compare them. The latest {MAX_STORED_RUNS} runs are kept.
+            </SheetDescription>
+          </SheetHeader>
+
+          <ScrollArea className="flex-1 -mx-2">
+            <div className="space-y-2 px-2">
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className="group rounded-md border p-3 cursor-pointer hover:bg-muted"
+                  onClick={() => openRun(run)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.includes(run.id)}
+                        disabled={!canSelect(run)}
+                        onCheckedChange={() => toggleSelected(run)}
+                        title="Select to compare"
+                      />
+                      <span className="text-sm font-medium">{new Date(run.startedAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={statusBadgeVariant(run.status)} className="text-xs">{run.status}</Badge>
+                      <button
+                        className="h-6 w-6 rounded text-gray-500 hover:text-red-500 flex items-center justify-center opacity-0 group-hover:opacity-100"
+                        onClick={(e) => deleteRun(e, run)}
+                        title="Delete this run"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {describeRunScope(run)}
+                    {run.finishedAt !== undefined && ` · ${formatDuration(run.finishedAt - run.startedAt)}`}
+                    {` · ${formatCost(run.cost)}`}
+                  </div>
+                </div>
+              ))}
+
+              {runs.length === 0 && (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  No runs yet
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          {runs.length > 0 && (
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={clearHistory}>
+                Clear History
+              </Button>
+              <Button className="flex-1" onClick={compareSelected} disabled={selectedRuns.length !== 2}>
+                Compare
+              </Button>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <RunViewer run={openedRun} onClose={() => setOpenedRun(null)} />
+      <RunComparisonView runs={comparedRuns} onClose={() => setComparedRuns(null)} />
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { AgentExecutionResult } from '@/types/agent';
+import { Run } from '@/services/runHistory';
+
+export type StatusBadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline';
+
+// Badge look of a node or run status, matching the canvas nodes
+export const statusBadgeVariant = (status: AgentExecutionResult['status'] | Run['status']): StatusBadgeVariant => {
+  if (status === 'completed') return 'default';
+  if (status === 'running') return 'secondary';
+  if (status === 'error' || status === 'timeout' || status === 'rejected' || status === 'halted') return 'destructive';
+  return 'outline';
+};
+
+// "850ms", "12.3s" or "4m 05s"
+export const formatDuration = (milliseconds: number): string => {
+  if (milliseconds < 1000) return `${Math.round(milliseconds)}ms`;
+  const seconds = milliseconds / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const wholeSeconds = Math.round(seconds);
+  return `${Math.floor(wholeSeconds / 60)}m ${String(wholeSeconds % 60).padStart(2, '0')}s`;
+};
+
+// What part of the canvas a run covered, e.g. "Full run" or "From Researcher"
+export const describeRunScope = (run: Run): string => {
+  if (run.scope.type === 'all') {
+    return run.incremental ? 'Full run, unchanged nodes skipped' : 'Full run';
+  }
+  const nodeId = run.scope.nodeId;
+  const label = run.snapshot.nodes.find(node => node.id === nodeId)?.data.label || nodeId;
+  return run.scope.type === 'from' ? `From ${label}` : `Only ${label}`;
+};
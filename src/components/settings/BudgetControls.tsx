@@ -0,0 +1,80 @@
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAgentStore } from '@/store/agentStore';
+import { BudgetSettings, getSpentToday } from '@/services/budgetService';
+import { formatCost } from '@/services/pricing';
+import { Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+
+const budgetFields: { key: keyof BudgetSettings; label: string }[] = [
+  { key: 'perRunLimit', label: 'Per run (USD)' },
+  { key: 'perDayLimit', label: 'Per day (USD)' },
+];
+
+export function BudgetControls() {
+  const budget = useAgentStore((state) => state.budget);
+  const dailySpend = useAgentStore((state) => state.dailySpend);
+  const setBudget = useAgentStore((state) => state.setBudget);
+  const [drafts, setDrafts] = React.useState(budget);
+
+  useEffect(() => {
+    setDrafts(budget);
+  }, [budget]);
+
+  const updateLimit = (key: keyof BudgetSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setDrafts((current) => ({ ...current, [key]: isNaN(parsed) || parsed < 0 ? 0 : parsed }));
+  };
+
+  const handleSave = () => {
+    setBudget(drafts);
+    toast.success('Budget saved');
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Budget
+        </CardTitle>
+        <CardDescription>
+          Runs that could go over a cap don't start, and a running canvas halts before the request that would exceed it. Use 0 for no cap.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {budgetFields.map((field) => (
+              <div key={field.key} className="grid gap-1">
+                <Label htmlFor={`budget-${field.key}`} className="text-xs text-muted-foreground">
+                  {field.label}
+                </Label>
+                <Input
+                  id={`budget-${field.key}`}
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={drafts[field.key]}
+                  onChange={(e) => updateLimit(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span>Spent today</span>
+            <span className="font-medium">{formatCost(getSpentToday(dailySpend))}</span>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button className="w-full" onClick={handleSave}>
+          Save Budget
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAgentStore } from '@/store/agentStore';
+import { listProviderAdapters, RateLimitSettings } from '@/services/providers';
+import { DEFAULT_MAX_PARALLELISM } from '@/services/workflowEngine';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+const limitFields: { key: keyof RateLimitSettings; label: string }[] = [
+  { key: 'requestsPerMinute', label: 'Requests / min' },
+  { key: 'tokensPerMinute', label: 'Tokens / min' },
+  { key: 'maxConcurrent', label: 'Concurrent' },
+];
+
+export function RateLimitControls() {
+  const rateLimits = useAgentStore((state) => state.rateLimits);
+  const setRateLimits = useAgentStore((state) => state.setRateLimits);
+  const maxParallelism = useAgentStore((state) => state.maxParallelism);
+  const setMaxParallelism = useAgentStore((state) => state.setMaxParallelism);
+  const runDeadlineMinutes = useAgentStore((state) => state.runDeadlineMinutes);
+  const setRunDeadlineMinutes = useAgentStore((state) => state.setRunDeadlineMinutes);
+  const [drafts, setDrafts] = React.useState(rateLimits);
+  const [parallelismDraft, setParallelismDraft] = React.useState(maxParallelism);
+  const [deadlineDraft, setDeadlineDraft] = React.useState(runDeadlineMinutes);
+
+  useEffect(() => {
+    setDrafts(rateLimits);
+  }, [rateLimits]);
+
+  useEffect(() => {
+    setParallelismDraft(maxParallelism);
+  }, [maxParallelism]);
+
+  useEffect(() => {
+    setDeadlineDraft(runDeadlineMinutes);
+  }, [runDeadlineMinutes]);
+
+  const updateLimit = (provider: string, key: keyof RateLimitSettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    setDrafts((current) => ({
+      ...current,
+      [provider]: { ...current[provider], [key]: isNaN(parsed) || parsed < 0 ? 0 : parsed }
+    }));
+  };
+
+  const resetDefaults = () => {
+    setDrafts(Object.fromEntries(
+      listProviderAdapters().map(adapter => [adapter.id, { ...adapter.defaultRateLimits }])
+    ) as typeof rateLimits);
+    setParallelismDraft(DEFAULT_MAX_PARALLELISM);
+    setDeadlineDraft(0);
+  };
+
+  const handleSave = () => {
+    for (const adapter of listProviderAdapters()) {
+      setRateLimits(adapter.id, drafts[adapter.id]);
+    }
+    setMaxParallelism(parallelismDraft);
+    setRunDeadlineMinutes(deadlineDraft);
+    toast.success('Rate limits saved');
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Rate Limits
+        </CardTitle>
+        <CardDescription>
+          Requests wait in line instead of exceeding your account limits. Use 0 for no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col space-y-4">
+          <div className="grid gap-1">
+            <Label htmlFor="max-parallelism">Parallel nodes</Label>
+            <Input
+              id="max-parallelism"
+              type="number"
+              min={1}
+              value={parallelismDraft}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10);
+                setParallelismDraft(isNaN(parsed) || parsed < 1 ? 1 : parsed);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Independent branches of the canvas run side by side, up to this many nodes at once.
+            </p>
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="run-deadline">Run deadline (minutes)</Label>
+            <Input
+              id="run-deadline"
+              type="number"
+              min={0}
+              value={deadlineDraft}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                setDeadlineDraft(isNaN(parsed) || parsed < 0 ? 0 : parsed);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Runs still going after this long are stopped and their running nodes time out. Use 0 for no deadline.
+            </p>
+          </div>
+          {listProviderAdapters().map((adapter) => (
+            <div key={adapter.id} className="grid gap-2">
+              <Label>{adapter.label}</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {limitFields.map((field) => (
+                  <div key={field.key} className="grid gap-1">
+                    <Label htmlFor={`${adapter.id}-${field.key}`} className="text-xs text-muted-foreground">
+                      {field.label}
+                    </Label>
+                    <Input
+                      id={`${adapter.id}-${field.key}`}
+                      type="number"
+                      min={0}
+                      value={drafts[adapter.id]?.[field.key] ?? 0}
+                      onChange={(e) => updateLimit(adapter.id, field.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={resetDefaults}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Defaults
+        </Button>
+        <Button className="flex-1" onClick={handleSave}>
+          Save Limits
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -7,32 +7,63 @@ import { useAgentStore } from '@/store/agentStore';
 import { toast } from 'sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CacheControls } from '@/components/settings/CacheControls';
-import { Key, DatabaseZap } from 'lucide-react';
+import { RateLimitControls } from '@/components/settings/RateLimitControls';
+import { BudgetControls } from '@/components/settings/BudgetControls';
+import { Key, DatabaseZap, Gauge, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AIProvider } from '@/types/agent';
+import { listProviderAdapters } from '@/services/providers';
 
 interface APIKeysDialogProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Current value of every credential field, keyed by provider then field
+type CredentialDrafts = Record<string, Record<string, string>>;
+
 export function APIKeysDialog({ isOpen, onClose }: APIKeysDialogProps) {
   const apiKeys = useAgentStore((state) => state.apiKey);
+  const providerSettings = useAgentStore((state) => state.providerSettings);
   const setApiKey = useAgentStore((state) => state.setApiKey);
+  const setProviderSettings = useAgentStore((state) => state.setProviderSettings);
+  
+  const getStoredCredentials = React.useCallback((): CredentialDrafts => Object.fromEntries(
+    listProviderAdapters().map(adapter => [
+      adapter.id,
+      { ...providerSettings[adapter.id], apiKey: apiKeys[adapter.id] || '' }
+    ])
+  ), [apiKeys, providerSettings]);
   
-  const [openaiKey, setOpenaiKey] = React.useState(apiKeys.openai || '');
-  const [perplexityKey, setPerplexityKey] = React.useState(apiKeys.perplexity || '');
+  const [credentials, setCredentials] = React.useState<CredentialDrafts>(getStoredCredentials);
   const [activeTab, setActiveTab] = React.useState('api-keys');
   
   // Update local state when store changes or dialog opens
   useEffect(() => {
-    setOpenaiKey(apiKeys.openai || '');
-    setPerplexityKey(apiKeys.perplexity || '');
-  }, [apiKeys, isOpen]);
+    setCredentials(getStoredCredentials());
+  }, [getStoredCredentials, isOpen]);
+  
+  const updateCredential = (provider: AIProvider, key: string, value: string) => {
+    setCredentials((current) => ({
+      ...current,
+      [provider]: { ...current[provider], [key]: value }
+    }));
+  };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    setApiKey('openai', openaiKey.trim());
-    setApiKey('perplexity', perplexityKey.trim());
+    for (const adapter of listProviderAdapters()) {
+      const { apiKey = '', ...settings } = credentials[adapter.id] || {};
+      setApiKey(adapter.id, apiKey.trim());
+      
+      const settingFields = adapter.credentialFields.filter(field => field.key !== 'apiKey');
+      if (settingFields.length > 0) {
+        setProviderSettings(adapter.id, Object.fromEntries(
+          settingFields.map(field => [field.key, (settings[field.key] || '').trim()])
+        ));
+      }
+    }
     
     toast.success('API keys saved');
     onClose();
@@ -49,7 +80,7 @@ export function APIKeysDialog({ isOpen, onClose }: APIKeysDialogProps) {
         </DialogHeader>
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="api-keys" className="flex items-center gap-2">
               <Key className="h-4 w-4" />
               API Keys
@@ -58,38 +89,51 @@ export function APIKeysDialog({ isOpen, onClose }: APIKeysDialogProps) {
               <DatabaseZap className="h-4 w-4" />
               Cache
             </TabsTrigger>
+            <TabsTrigger value="limits" className="flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              Limits
+            </TabsTrigger>
+            <TabsTrigger value="budget" className="flex items-center gap-2">
+              <Wallet className="h-4 w-4" />
+              Budget
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="api-keys" className="mt-4">
             <form onSubmit={handleSubmit}>
               <div className="grid gap-4 py-4">
-                <div className="grid gap-2">
-                  <Label htmlFor="openai-api-key">OpenAI API Key</Label>
-                  <Input
-                    id="openai-api-key"
-                    type="password"
-                    placeholder="sk-..."
-                    value={openaiKey}
-                    onChange={(e) => setOpenaiKey(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Get your key from <a href="https://platform.openai.com/account/api-keys" target="_blank" rel="noreferrer" className="text-primary underline">OpenAI</a>
-                  </p>
-                </div>
-                
-                <div className="grid gap-2">
-                  <Label htmlFor="perplexity-api-key">Perplexity API Key</Label>
-                  <Input
-                    id="perplexity-api-key"
-                    type="password"
-                    placeholder="pplx-..."
-                    value={perplexityKey}
-                    onChange={(e) => setPerplexityKey(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Get your key from <a href="https://www.perplexity.ai/settings/api" target="_blank" rel="noreferrer" className="text-primary underline">Perplexity</a>
-                  </p>
-                </div>
+                {listProviderAdapters().map((adapter) => (
+                  <div
+                    key={adapter.id}
+                    className={cn("grid gap-2", adapter.credentialFields.length > 1 && "border-t pt-4")}
+                  >
+                    {adapter.credentialFields.length > 1 && (
+                      <Label htmlFor={`${adapter.id}-${adapter.credentialFields[0].key}`}>{adapter.label}</Label>
+                    )}
+                    {adapter.credentialFields.map((field) => (
+                      <React.Fragment key={field.key}>
+                        {adapter.credentialFields.length === 1 && (
+                          <Label htmlFor={`${adapter.id}-${field.key}`}>{field.label}</Label>
+                        )}
+                        <Input
+                          id={`${adapter.id}-${field.key}`}
+                          type={field.secret ? 'password' : 'text'}
+                          placeholder={field.placeholder || field.label}
+                          value={credentials[adapter.id]?.[field.key] || ''}
+                          onChange={(e) => updateCredential(adapter.id, field.key, e.target.value)}
+                        />
+                        {field.helpUrl && (
+                          <p className="text-xs text-muted-foreground">
+                            Get your key from <a href={field.helpUrl} target="_blank" rel="noreferrer" className="text-primary underline">{adapter.label}</a>
+                          </p>
+                        )}
+                        {field.helpText && (
+                          <p className="text-xs text-muted-foreground">{field.helpText}</p>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </div>
+                ))}
               </div>
               
               <DialogFooter>
@@ -101,6 +145,14 @@ export function APIKeysDialog({ isOpen, onClose }: APIKeysDialogProps) {
           <TabsContent value="cache" className="mt-4">
             <CacheControls />
           </TabsContent>
+          
+          <TabsContent value="limits" className="mt-4">
+            <RateLimitControls />
+          </TabsContent>
+          
+          <TabsContent value="budget" className="mt-4">
+            <BudgetControls />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
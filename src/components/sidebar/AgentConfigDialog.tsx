@@ -7,9 +7,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { useAgentStore } from '@/store/agentStore';
 import { toast } from 'sonner';
-import { AIProvider, AIModel } from '@/types/agent';
+import { AIProvider, AIModel, GenerationParamName, GenerationParams, JsonSchema, ModelChoice } from '@/types/agent';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowDown, ArrowUp, ChevronDown, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
 import { encryptData, decryptData } from '@/utils/encryption';
+import { getProviderAdapter, getModelCapabilities, listProviderAdapters } from '@/services/providers';
+import { listTools } from '@/services/tools';
+import { DEFAULT_MAX_TOOL_STEPS } from '@/services/ai-service';
+import { DEFAULT_REQUEST_TIMEOUT_SECONDS } from '@/services/workflowEngine';
 
 interface AgentConfigDialogProps {
   isOpen: boolean;
@@ -29,10 +36,30 @@ const agentColors = [
   '#f97316', // orange
 ];
 
+// Generation settings shown in the Advanced section, in display order
+const generationParamFields: { key: GenerationParamName; label: string; min?: number; max?: number; step: number; placeholder: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: 'Default (0.7)' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: 'Default' },
+  { key: 'maxTokens', label: 'Max Tokens', min: 1, step: 1, placeholder: 'Automatic' },
+  { key: 'frequencyPenalty', label: 'Frequency Penalty', min: -2, max: 2, step: 0.1, placeholder: 'Default (0)' },
+  { key: 'presencePenalty', label: 'Presence Penalty', min: -2, max: 2, step: 0.1, placeholder: 'Default (0)' },
+  { key: 'seed', label: 'Seed', step: 1, placeholder: 'Random' },
+];
+
+// Form values are kept as text so fields can be left empty
+type GenerationParamDrafts = Partial<Record<GenerationParamName, string>>;
+
+const toParamDrafts = (params: GenerationParams = {}): GenerationParamDrafts => Object.fromEntries(
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, String(value)])
+);
+
 export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialogProps) {
   const addAgent = useAgentStore((state) => state.addAgent);
   const updateAgent = useAgentStore((state) => state.updateAgent);
   const agents = useAgentStore((state) => state.agents);
+  const providerSettings = useAgentStore((state) => state.providerSettings);
   
   const existingAgent = agentId ? agents.find(a => a.id === agentId) : undefined;
   
@@ -42,6 +69,50 @@ export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialo
   const [model, setModel] = React.useState<AIModel>(existingAgent?.model || 'gpt-4o');
   const [color, setColor] = React.useState(existingAgent?.color || agentColors[0]);
   const [saveToLibrary, setSaveToLibrary] = React.useState(false);
+  const [paramDrafts, setParamDrafts] = React.useState<GenerationParamDrafts>(toParamDrafts(existingAgent?.generationParams));
+  const [outputSchemaText, setOutputSchemaText] = React.useState(
+    existingAgent?.outputSchema ? JSON.stringify(existingAgent.outputSchema, null, 2) : ''
+  );
+  const [selectedTools, setSelectedTools] = React.useState<string[]>(existingAgent?.tools || []);
+  const [maxToolStepsText, setMaxToolStepsText] = React.useState(
+    existingAgent?.maxToolSteps !== undefined ? String(existingAgent.maxToolSteps) : ''
+  );
+  const [fallbackModels, setFallbackModels] = React.useState<ModelChoice[]>(existingAgent?.fallbackModels || []);
+  const [timeoutText, setTimeoutText] = React.useState(
+    existingAgent?.timeoutSeconds !== undefined ? String(existingAgent.timeoutSeconds) : ''
+  );
+  const [advancedOpen, setAdvancedOpen] = React.useState(false);
+  
+  const adapter = getProviderAdapter(provider);
+  // Some providers serve a free-text model configured in Settings instead of a fixed list
+  const configuredModel = adapter?.configuredModelField
+    ? providerSettings[provider]?.[adapter.configuredModelField] || ''
+    : undefined;
+  // Only offer the generation settings the chosen model accepts (o1/o3 reject temperature, for example)
+  const supportedParams = getModelCapabilities(provider, configuredModel ?? model).parameters;
+  const visibleParamFields = generationParamFields.filter(field => supportedParams.includes(field.key));
+  const supportsTools = getModelCapabilities(provider, configuredModel ?? model).tools;
+  
+  // A provider's first model, or none for providers whose model is set in Settings
+  const defaultModelFor = (providerId: string) => (getProviderAdapter(providerId)?.models[0]?.id || '') as AIModel;
+
+  const updateFallback = (index: number, choice: ModelChoice) => {
+    setFallbackModels((current) => current.map((existing, i) => i === index ? choice : existing));
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    setFallbackModels((current) => {
+      const moved = [...current];
+      [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+      return moved;
+    });
+  };
+
+  const toggleTool = (toolName: string, checked: boolean) => {
+    setSelectedTools((current) => checked
+      ? [...current, toolName]
+      : current.filter(name => name !== toolName));
+  };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -56,13 +127,75 @@ export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialo
       return;
     }
     
+    if (configuredModel === '') {
+      toast.error(`Set a model for ${adapter.label} in Settings first`);
+      return;
+    }
+    
+    // Models configured in Settings are free text rather than one of the known models
+    const agentModel = configuredModel !== undefined ? configuredModel as AIModel : model;
+    
+    // Parse the advanced settings, keeping only filled-in values the model supports
+    const generationParams: GenerationParams = {};
+    for (const field of visibleParamFields) {
+      const draft = paramDrafts[field.key]?.trim();
+      if (!draft) continue;
+      const value = Number(draft);
+      if (isNaN(value) || (field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        toast.error(field.max !== undefined
+          ? `${field.label} must be a number between ${field.min} and ${field.max}`
+          : `${field.label} must be a valid number`);
+        return;
+      }
+      generationParams[field.key] = field.step === 1 ? Math.round(value) : value;
+    }
+    
+    let outputSchema: JsonSchema | undefined;
+    if (outputSchemaText.trim()) {
+      try {
+        outputSchema = JSON.parse(outputSchemaText);
+      } catch (error) {
+        toast.error(`Output schema is not valid JSON: ${error.message}`);
+        return;
+      }
+      if (!outputSchema || typeof outputSchema !== 'object' || Array.isArray(outputSchema)) {
+        toast.error('Output schema must be a JSON Schema object');
+        return;
+      }
+    }
+    
+    let maxToolSteps: number | undefined;
+    if (maxToolStepsText.trim()) {
+      maxToolSteps = Number(maxToolStepsText);
+      if (!Number.isInteger(maxToolSteps) || maxToolSteps < 1) {
+        toast.error('Max tool steps must be a whole number of at least 1');
+        return;
+      }
+    }
+    let timeoutSeconds: number | undefined;
+    if (timeoutText.trim()) {
+      timeoutSeconds = Number(timeoutText);
+      if (!(timeoutSeconds > 0)) {
+        toast.error('Request timeout must be a positive number of seconds');
+        return;
+      }
+    }
+    // Models without tool calling keep their selection hidden rather than losing it
+    const tools = selectedTools.length > 0 ? selectedTools : undefined;
+    
     if (existingAgent) {
       updateAgent(existingAgent.id, {
         name,
         systemPrompt,
         provider,
-        model,
-        color
+        model: agentModel,
+        color,
+        generationParams,
+        outputSchema,
+        tools,
+        maxToolSteps,
+        fallbackModels: fallbackModels.length > 0 ? fallbackModels : undefined,
+        timeoutSeconds
       });
       
       if (saveToLibrary) {
@@ -71,8 +204,14 @@ export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialo
           name: `${name} (Copy)`,
           systemPrompt,
           provider,
-          model,
-          color
+          model: agentModel,
+          color,
+          generationParams,
+          outputSchema,
+          tools,
+          maxToolSteps,
+          fallbackModels: fallbackModels.length > 0 ? fallbackModels : undefined,
+          timeoutSeconds
         };
         
         addAgent(newAgent);
@@ -85,8 +224,14 @@ export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialo
         name,
         systemPrompt,
         provider,
-        model,
-        color
+        model: agentModel,
+        color,
+        generationParams,
+        outputSchema,
+        tools,
+        maxToolSteps,
+        fallbackModels: fallbackModels.length > 0 ? fallbackModels : undefined,
+        timeoutSeconds
       });
       toast.success(`Agent "${name}" created`);
     }
@@ -156,48 +301,212 @@ export function AgentConfigDialog({ isOpen, onClose, agentId }: AgentConfigDialo
                 <Label htmlFor="provider">AI Provider</Label>
                 <Select
                   value={provider}
-                  onValueChange={(value) => setProvider(value as AIProvider)}
+                  onValueChange={(value) => {
+                    setProvider(value as AIProvider);
+                    const defaultModel = getProviderAdapter(value)?.models[0];
+                    if (defaultModel) {
+                      setModel(defaultModel.id);
+                    }
+                  }}
                 >
                   <SelectTrigger id="provider">
                     <SelectValue placeholder="Select provider" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="openai">OpenAI</SelectItem>
-                    <SelectItem value="perplexity">Perplexity</SelectItem>
+                    {listProviderAdapters().map((providerAdapter) => (
+                      <SelectItem key={providerAdapter.id} value={providerAdapter.id}>
+                        {providerAdapter.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="model">AI Model</Label>
-                <Select
-                  value={model}
-                  onValueChange={(value) => setModel(value as AIModel)}
-                >
-                  <SelectTrigger id="model">
-                    <SelectValue placeholder="Select model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {provider === 'openai' ? (
-                      <>
-                        <SelectItem value="gpt-4.5-preview">GPT-4.5 Preview</SelectItem>
-                        <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                        <SelectItem value="o1-mini">O1-mini</SelectItem>
-                        <SelectItem value="o3-mini">O3-mini</SelectItem>
-                      </>
-                    ) : (
-                      <>
-                        <SelectItem value="sonar-deep-research">Sonar Deep Research</SelectItem>
-                        <SelectItem value="sonar-reasoning-pro">Sonar Reasoning Pro</SelectItem>
-                        <SelectItem value="sonar-reasoning">Sonar Reasoning</SelectItem>
-                        <SelectItem value="sonar-pro">Sonar Pro</SelectItem>
-                        <SelectItem value="sonar">Sonar</SelectItem>
-                      </>
-                    )}
-                  </SelectContent>
-                </Select>
+                {configuredModel !== undefined ? (
+                  <Input
+                    id="model"
+                    value={configuredModel}
+                    placeholder="Set in Settings"
+                    readOnly
+                  />
+                ) : (
+                  <Select
+                    value={model}
+                    onValueChange={(value) => setModel(value as AIModel)}
+                  >
+                    <SelectTrigger id="model">
+                      <SelectValue placeholder="Select model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {adapter?.models.map((modelInfo) => (
+                        <SelectItem key={modelInfo.id} value={modelInfo.id}>
+                          {modelInfo.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
             </div>
+            
+            <Collapsible open={advancedOpen} onOpenChange={setAdvancedOpen}>
+              <CollapsibleTrigger asChild>
+                <Button type="button" variant="ghost" size="sm" className="px-0 text-muted-foreground">
+                  <ChevronDown className={cn("h-4 w-4 mr-1 transition-transform", advancedOpen && "rotate-180")} />
+                  Advanced
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <div className="grid grid-cols-3 gap-4 pt-2">
+                  {visibleParamFields.map((field) => (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={`param-${field.key}`} className="text-xs">{field.label}</Label>
+                      <Input
+                        id={`param-${field.key}`}
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        placeholder={field.placeholder}
+                        value={paramDrafts[field.key] || ''}
+                        onChange={(e) => setParamDrafts((current) => ({ ...current, [field.key]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground pt-2">
+                  Leave a field empty to use the provider's default.
+                </p>
+                <div className="space-y-2 pt-4">
+                  <Label htmlFor="outputSchema" className="text-xs">Output JSON Schema</Label>
+                  <Textarea
+                    id="outputSchema"
+                    value={outputSchemaText}
+                    onChange={(e) => setOutputSchemaText(e.target.value)}
+                    placeholder={'{\n  "type": "object",\n  "properties": { "summary": { "type": "string" } },\n  "required": ["summary"]\n}'}
+                    className="h-28 font-mono text-xs"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Optional. The agent must answer with JSON matching this schema; invalid answers are sent back for repair.
+                  </p>
+                </div>
+                <div className="space-y-2 pt-4">
+                  <Label className="text-xs">Fallback models</Label>
+                  {fallbackModels.map((choice, index) => {
+                    const fallbackAdapter = getProviderAdapter(choice.provider);
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={choice.provider}
+                          onValueChange={(value) => updateFallback(index, { provider: value as AIProvider, model: defaultModelFor(value) })}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {listProviderAdapters().map((providerAdapter) => (
+                              <SelectItem key={providerAdapter.id} value={providerAdapter.id}>
+                                {providerAdapter.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {fallbackAdapter?.configuredModelField ? (
+                          <div className="flex-1 text-xs text-muted-foreground">Model set in Settings</div>
+                        ) : (
+                          <Select
+                            value={choice.model}
+                            onValueChange={(value) => updateFallback(index, { ...choice, model: value as AIModel })}
+                          >
+                            <SelectTrigger className="flex-1">
+                              <SelectValue placeholder="Select model" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {fallbackAdapter?.models.map((modelInfo) => (
+                                <SelectItem key={modelInfo.id} value={modelInfo.id}>
+                                  {modelInfo.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveFallback(index, -1)} title="Try earlier">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === fallbackModels.length - 1} onClick={() => moveFallback(index, 1)} title="Try later">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setFallbackModels((current) => current.filter((_, i) => i !== index))} title="Remove">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFallbackModels((current) => [...current, { provider, model: defaultModelFor(provider) }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Fallback Model
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    Tried in order when the agent's model is still rate limited after retries, is down or unavailable,
+                    can't fit the input in its context, or refuses it through a content filter.
+                  </p>
+                </div>
+                <div className="space-y-2 pt-4">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="timeoutSeconds" className="text-xs whitespace-nowrap">Request timeout (seconds)</Label>
+                    <Input
+                      id="timeoutSeconds"
+                      type="number"
+                      min={1}
+                      className="w-32"
+                      placeholder={`Default (${DEFAULT_REQUEST_TIMEOUT_SECONDS})`}
+                      value={timeoutText}
+                      onChange={(e) => setTimeoutText(e.target.value)}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Requests still unanswered after this long are aborted and count as timed out; fallback models are tried next.
+                  </p>
+                </div>
+                {supportsTools && (
+                  <div className="space-y-2 pt-4">
+                    <Label className="text-xs">Tools</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {listTools().map((tool) => (
+                        <div key={tool.name} className="flex items-center space-x-2" title={tool.description}>
+                          <Checkbox
+                            id={`tool-${tool.name}`}
+                            checked={selectedTools.includes(tool.name)}
+                            onCheckedChange={(checked) => toggleTool(tool.name, checked === true)}
+                          />
+                          <Label htmlFor={`tool-${tool.name}`} className="text-xs font-normal">{tool.label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 pt-2">
+                      <Label htmlFor="maxToolSteps" className="text-xs whitespace-nowrap">Max tool steps</Label>
+                      <Input
+                        id="maxToolSteps"
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="w-28"
+                        placeholder={`Default (${DEFAULT_MAX_TOOL_STEPS})`}
+                        value={maxToolStepsText}
+                        onChange={(e) => setMaxToolStepsText(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
           </div>
           
           {existingAgent && (
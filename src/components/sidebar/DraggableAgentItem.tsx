@@ -13,6 +13,8 @@ interface DraggableAgentItemProps {
   data: any;
   agentId?: string;
   isUserDefined?: boolean;
+  // Canvas node type created on drop
+  nodeType?: 'agent' | 'router' | 'map' | 'reduce' | 'approval';
 }
 
 export function DraggableAgentItem({ 
@@ -21,14 +23,15 @@ export function DraggableAgentItem({
   isCollapsed, 
   data, 
   agentId,
-  isUserDefined = false 
+  isUserDefined = false,
+  nodeType = 'agent'
 }: DraggableAgentItemProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
   const [isAgentDialogOpen, setIsAgentDialogOpen] = React.useState(false);
   const removeAgent = useAgentStore((state) => state.removeAgent);
 
   const onDragStart = (event: React.DragEvent) => {
-    event.dataTransfer.setData('application/reactflow', 'agent');
+    event.dataTransfer.setData('application/reactflow', nodeType);
     event.dataTransfer.setData('application/reactflow/data', JSON.stringify(data));
     event.dataTransfer.effectAllowed = 'move';
   };
@@ -65,6 +65,61 @@ export function Sidebar() {
               outputs: []
             }}
           />
+
+          {/* Router that sends its input down the routes whose conditions match */}
+          <DraggableAgentItem
+            label="Router"
+            color="#64748b"
+            isCollapsed={isCollapsed}
+            nodeType="router"
+            data={{
+              label: "Router",
+              inputs: [],
+              outputs: [],
+              router: { routes: [] }
+            }}
+          />
+
+          {/* Map splits its input into items for the agents after it; Reduce gathers their answers */}
+          <DraggableAgentItem
+            label="Map"
+            color="#0d9488"
+            isCollapsed={isCollapsed}
+            nodeType="map"
+            data={{
+              label: "Map",
+              inputs: [],
+              outputs: [],
+              map: { split: 'lines' }
+            }}
+          />
+
+          <DraggableAgentItem
+            label="Reduce"
+            color="#0d9488"
+            isCollapsed={isCollapsed}
+            nodeType="reduce"
+            data={{
+              label: "Reduce",
+              inputs: [],
+              outputs: [],
+              reduce: { format: 'numbered' }
+            }}
+          />
+
+          {/* Approval pauses the run until someone approves, edits or rejects what reaches it */}
+          <DraggableAgentItem
+            label="Approval"
+            color="#d97706"
+            isCollapsed={isCollapsed}
+            nodeType="approval"
+            data={{
+              label: "Approval",
+              inputs: [],
+              outputs: [],
+              approval: { onReject: 'fail' }
+            }}
+          />
           
           <Separator className={cn("my-4", isCollapsed && "w-8")} />
           
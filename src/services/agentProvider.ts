@@ -0,0 +1,12 @@
+import { generateAgentResponse } from './ai-service';
+import { AgentProvider } from './workflowEngine';
+
+/**
+ * Answers agent requests through the configured AI providers. Large inputs are split into
+ * chunks inside generateAgentResponse, after its cache lookup, so re-running the same large
+ * input is answered from the cache as well.
+ */
+export const aiServiceProvider: AgentProvider = {
+  generate: ({ agent, systemPrompt, input, options }) =>
+    generateAgentResponse(agent.provider, agent.model, systemPrompt, input, options),
+};
@@ -1,8 +1,149 @@
-import { AIModel, AIProvider } from '@/types/agent';
+import { AIModel, GenerationParams, JsonSchema, TokenUsage, ToolCallRecord } from '@/types/agent';
 import { useAgentStore } from '@/store/agentStore';
-import { calculateMaxOutputTokens, getMaxCompletionTokens, estimateTokenCount, getModelContextSize } from '@/utils/tokenManager';
+import { calculateMaxOutputTokens, getMaxCompletionTokens, estimateTokenCount, getModelContextSize, MAX_SAFE_TOKENS_PER_CHUNK } from '@/utils/tokenManager';
 import { processWithChunkedStrategy } from './optimizationService';
 import { responseCache } from './cacheService';
+import { getProviderAdapter, getModelCapabilities, getSupportedParams, ProviderAdapter, ProviderHttpRequest, ProviderResponse, ProviderUsage, ToolSpec, ToolCall, ConversationTurn } from './providers';
+import { getTool, ToolContext, ToolDefinition } from './tools';
+import { readServerSentEvents } from '@/utils/sse';
+import { rateLimiter } from './rateLimiter';
+import { calculateCost } from './pricing';
+import { extractJson, validateJsonSchema } from '@/utils/jsonSchema';
+
+/**
+ * Optional behaviour for a single generation request
+ */
+export interface GenerateOptions {
+  // Stream the answer and report each new piece of text along with everything received so far
+  onToken?: (delta: string, text: string) => void;
+  // Abort the request (and any chunked follow-up requests) when this signal fires
+  signal?: AbortSignal;
+  // Give up on each provider request that hasn't finished after this many milliseconds
+  timeoutMs?: number;
+  // Agent generation settings; ones the model does not support are ignored
+  params?: GenerationParams;
+  // Require a JSON answer matching this schema, re-prompting the model to repair invalid answers
+  outputSchema?: JsonSchema;
+  // Override the default retry policy for this request
+  retry?: Partial<RetryPolicy>;
+  // Called before each retry with the number of the upcoming attempt and the error that caused it
+  onRetry?: (attempt: number, error: ProviderError, delayMs: number) => void;
+  // Names of built-in tools the model may call; ignored for models without tool support
+  tools?: string[];
+  // Maximum rounds of tool calls before the model has to answer
+  maxToolSteps?: number;
+  // What tools may read from the running canvas
+  toolContext?: ToolContext;
+  // Called after every tool call with its arguments and result
+  onToolCall?: (record: ToolCallRecord) => void;
+  // Called with the tokens and cost of every provider call made for the request, including
+  // chunk, prompt-shortening and cohesion calls; cached answers cost nothing and report nothing
+  onUsage?: (usage: TokenUsage) => void;
+  // Send the input in one request even if it is large; set on the chunked strategy's own requests
+  noChunk?: boolean;
+}
+
+/**
+ * Thrown when an answer still does not match the agent's output schema after all repair attempts
+ */
+export class StructuredOutputError extends Error {
+  validationErrors: string[];
+
+  constructor(message: string, validationErrors: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.validationErrors = validationErrors;
+  }
+}
+
+// Re-prompts allowed after the first answer fails schema validation
+const MAX_SCHEMA_REPAIRS = 2;
+
+// Tool-call rounds allowed when the agent doesn't set its own limit
+export const DEFAULT_MAX_TOOL_STEPS = 5;
+
+// Longer tool results are cut off before they are handed back to the model
+const MAX_TOOL_RESULT_LENGTH = 20000;
+
+/**
+ * How failed provider requests are retried
+ */
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry; doubled for every following retry
+  baseDelayMs: number;
+  // Upper bound for a single delay. A Retry-After longer than this fails the request instead of waiting
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'auth'
+  | 'bad_request'
+  | 'network'
+  // The prompt doesn't fit the model's context window
+  | 'context_overflow'
+  // The provider refused to answer because of its content filter
+  | 'content_filter'
+  // The model doesn't exist (any more) or the account can't use it
+  | 'model_unavailable'
+  // No complete answer arrived within the request's timeout
+  | 'timeout'
+  | 'unknown';
+
+// Errors that usually go away on their own when the request is repeated later
+const RETRYABLE_ERROR_KINDS: ProviderErrorKind[] = ['rate_limit', 'overloaded', 'network'];
+
+// Errors another model may not run into; once retries are used up, an agent's fallback models are tried.
+// Timeouts aren't retried, since a request that hung once likely hangs again, but another model may answer.
+const FALLBACK_ERROR_KINDS: ProviderErrorKind[] = [...RETRYABLE_ERROR_KINDS, 'context_overflow', 'content_filter', 'model_unavailable', 'timeout'];
+
+/**
+ * A failed provider request, classified so callers can decide whether to retry
+ */
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  attempts: number = 1;
+
+  constructor(message: string, kind: ProviderErrorKind, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_ERROR_KINDS.includes(this.kind);
+  }
+
+  /**
+   * Whether a fallback model should be asked instead
+   */
+  get fallsBack(): boolean {
+    return FALLBACK_ERROR_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Thrown when a request is aborted through its AbortSignal
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request was cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
 
 // Add a validation function to check for common input issues
 function validateInput(input: string): { valid: boolean; issues: string[] } {
@@ -44,39 +185,311 @@ function validateInput(input: string): { valid: boolean; issues: string[] } {
   };
 }
 
+/**
+ * Classify an HTTP error status (and error body text) from a provider
+ */
+export function classifyHttpError(status: number | undefined, message: string = ''): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  // 529 is Anthropic's "overloaded" status; 408 is a server-side request timeout
+  if (status === 408 || status === 529 || (status !== undefined && status >= 500)) return 'overloaded';
+  if (status === 404 || status === 410) return 'model_unavailable';
+  // Context overflows and unknown models usually come back as plain bad requests
+  const kind = classifyErrorMessage(message);
+  if (status !== undefined && status >= 400) {
+    return kind === 'context_overflow' || kind === 'model_unavailable' ? kind : 'bad_request';
+  }
+  return kind;
+}
+
+// Classify errors that only come with a message, such as error events inside a stream
+function classifyErrorMessage(message: string): ProviderErrorKind {
+  const text = message.toLowerCase();
+  if (text.includes('overloaded')) return 'overloaded';
+  if (text.includes('rate limit') || text.includes('rate_limit')) return 'rate_limit';
+  if (['context length', 'context_length', 'context window', 'prompt is too long'].some(phrase => text.includes(phrase))) {
+    return 'context_overflow';
+  }
+  if (text.includes('model_not_found') || (text.includes('model') && text.includes('does not exist'))) {
+    return 'model_unavailable';
+  }
+  return 'unknown';
+}
+
+/**
+ * Read how long the provider asked us to wait from the Retry-After headers, in milliseconds
+ */
+export function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  if (!headers?.get) return undefined;
+
+  // OpenAI also sends the delay in milliseconds
+  const retryAfterMs = parseFloat(headers.get('retry-after-ms') || '');
+  if (!isNaN(retryAfterMs)) return Math.max(0, retryAfterMs);
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter: a random delay between half and all of the doubled base delay
+function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+// Wait before retrying, giving up early when the request is cancelled
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a provider request, retrying rate limits, overloaded servers and network errors
+ * @param request Function performing a single attempt
+ * @param options Request options providing the retry policy, abort signal and retry callback
+ * @returns Result of the first successful attempt
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: GenerateOptions = {}): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!(error instanceof ProviderError) || options.signal?.aborted) {
+        throw error;
+      }
+      error.attempts = attempt;
+      if (!error.retryable || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+      
+      // Honour the provider's Retry-After, but don't wait longer than the policy allows
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxDelayMs) {
+        console.warn(`Provider asked to retry after ${error.retryAfterMs}ms, which exceeds the ${policy.maxDelayMs}ms limit`);
+        throw error;
+      }
+      const delayMs = error.retryAfterMs ?? getBackoffDelay(attempt, policy);
+      
+      console.warn(`${error.message} (${error.kind}). Retrying in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      options.onRetry?.(attempt + 1, error, delayMs);
+      await waitForRetry(delayMs, options.signal);
+    }
+  }
+}
+
+// Collect the credential values configured for a provider (secret key plus plain settings)
+function getProviderCredentials(provider: string): Record<string, string> {
+  const state = useAgentStore.getState();
+  return {
+    ...(state.providerSettings?.[provider] || {}),
+    apiKey: state.apiKey[provider] || ''
+  };
+}
+
 // Helper function to simulate the original API call
-async function originalGenerateAgentResponse(provider: string, model: any, systemPrompt: string, query: string): Promise<string> {
+async function originalGenerateAgentResponse(provider: string, model: any, systemPrompt: string, query: string, options: GenerateOptions = {}): Promise<string> {
   // Don't use the placeholder mock implementation
   // Instead, call the actual API implementation
   
   console.log(`Making real API call to ${provider} with model ${model}`);
   
-  // Get the API key from the store
-  const apiKey = useAgentStore.getState().apiKey[provider];
-  if (!apiKey) {
-    throw new Error(`No API key set for ${provider}`);
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${provider}`);
   }
   
-  // Choose the appropriate API call based on provider
-  if (provider === 'openai') {
-    return callOpenAI(apiKey, model, systemPrompt, query);
-  } else if (provider === 'perplexity') {
-    return callPerplexity(apiKey, model, systemPrompt, query);
-  } else {
-    throw new Error(`Unsupported provider: ${provider}`);
+  // Make sure every required credential for this provider is configured
+  const credentials = getProviderCredentials(provider);
+  for (const field of adapter.credentialFields) {
+    if (!field.optional && !credentials[field.key]) {
+      throw new Error(field.key === 'apiKey'
+        ? `No API key set for ${provider}`
+        : `No ${field.label} set for ${adapter.label}`);
+    }
   }
+  
+  if (options.outputSchema) {
+    return callWithOutputSchema(adapter, credentials, model, systemPrompt, query, options);
+  }
+  return runModel(adapter, credentials, model, systemPrompt, query, options);
+}
+
+// Get an answer from the model, going through the tool-call loop when the agent has tools
+async function runModel(
+  adapter: ProviderAdapter,
+  credentials: Record<string, string>,
+  model: AIModel,
+  systemPrompt: string,
+  userPrompt: string,
+  options: GenerateOptions
+): Promise<string> {
+  const tools = resolveTools(adapter, model, options.tools);
+  if (tools.length > 0) {
+    return callWithTools(adapter, credentials, model, systemPrompt, userPrompt, tools, options);
+  }
+  const { content } = await callProvider(adapter, credentials, model, systemPrompt, userPrompt, options);
+  return content;
+}
+
+// Look up the agent's tools, dropping unknown ones and all of them for models that can't call tools
+function resolveTools(adapter: ProviderAdapter, model: AIModel, names: string[] = []): ToolDefinition[] {
+  if (names.length === 0) return [];
+  if (!getModelCapabilities(adapter.id, model).tools) {
+    console.warn(`${model} does not support tool calling; running without tools`);
+    return [];
+  }
+  return names
+    .map(name => {
+      const tool = getTool(name);
+      if (!tool) console.warn(`Ignoring unknown tool: ${name}`);
+      return tool;
+    })
+    .filter(Boolean);
+}
+
+// Let the model call tools and feed the results back until it answers or runs out of steps
+async function callWithTools(
+  adapter: ProviderAdapter,
+  credentials: Record<string, string>,
+  model: AIModel,
+  systemPrompt: string,
+  userPrompt: string,
+  tools: ToolDefinition[],
+  options: GenerateOptions
+): Promise<string> {
+  const specs: ToolSpec[] = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const maxSteps = options.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
+  const conversation: ConversationTurn[] = [];
+  
+  for (let step = 0; ; step++) {
+    const response = await callProvider(adapter, credentials, model, systemPrompt, userPrompt, options, { tools: specs, conversation });
+    if (!response.toolCalls?.length) {
+      return response.content;
+    }
+    if (step >= maxSteps) {
+      throw new Error(`Agent did not finish within ${maxSteps} tool steps`);
+    }
+    
+    conversation.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      const record = await executeToolCall(call, tools, options.toolContext || {});
+      options.onToolCall?.(record);
+      conversation.push({ role: 'tool', toolCallId: call.id, name: call.name, content: record.result });
+    }
+  }
+}
+
+// Run one tool call; failures are reported back to the model so it can correct itself
+async function executeToolCall(call: ToolCall, tools: ToolDefinition[], context: ToolContext): Promise<ToolCallRecord> {
+  const tool = tools.find(candidate => candidate.name === call.name);
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.name}"`);
+    }
+    const errors = validateJsonSchema(call.arguments, tool.parameters);
+    if (errors.length > 0) {
+      throw new Error(`Invalid arguments: ${errors.join('; ')}`);
+    }
+    
+    let result = await tool.execute(call.arguments, context);
+    if (result.length > MAX_TOOL_RESULT_LENGTH) {
+      result = `${result.substring(0, MAX_TOOL_RESULT_LENGTH)}\n[truncated]`;
+    }
+    console.info(`Tool ${call.name} called with ${JSON.stringify(call.arguments)}`);
+    return { name: call.name, arguments: call.arguments, result };
+  } catch (error) {
+    console.warn(`Tool ${call.name} failed:`, error);
+    return { name: call.name, arguments: call.arguments, result: `Error: ${error.message}`, error: true };
+  }
+}
+
+// Ask for an answer matching the output schema, feeding validation errors back to the model until it complies
+async function callWithOutputSchema(
+  adapter: ProviderAdapter,
+  credentials: Record<string, string>,
+  model: AIModel,
+  systemPrompt: string,
+  query: string,
+  options: GenerateOptions
+): Promise<string> {
+  const schema = options.outputSchema;
+  const schemaText = JSON.stringify(schema, null, 2);
+  
+  // Models that can't be given the schema natively get it as part of the instructions
+  const schemaSystemPrompt = getModelCapabilities(adapter.id, model).jsonSchema
+    ? systemPrompt
+    : `${systemPrompt}\n\nRespond only with JSON that matches this JSON Schema, without any other text:\n${schemaText}`;
+  
+  let userPrompt = query;
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_SCHEMA_REPAIRS; attempt++) {
+    const content = await runModel(adapter, credentials, model, schemaSystemPrompt, userPrompt, options);
+    
+    try {
+      const value = extractJson(content);
+      errors = validateJsonSchema(value, schema);
+      if (errors.length === 0) {
+        return JSON.stringify(value, null, 2);
+      }
+    } catch (parseError) {
+      errors = [`The answer is not valid JSON: ${parseError.message}`];
+    }
+    
+    console.warn(`${adapter.label} answer does not match the output schema (attempt ${attempt + 1}/${MAX_SCHEMA_REPAIRS + 1}):`, errors);
+    userPrompt = `${query}\n\n---\n\nYour previous answer was:\n${content}\n\nIt does not match the required JSON Schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nRespond again with only corrected JSON that matches this schema:\n${schemaText}`;
+  }
+  
+  throw new StructuredOutputError(
+    `Output did not match the JSON schema after ${MAX_SCHEMA_REPAIRS} repair attempts: ${errors.slice(0, 3).join('; ')}`,
+    errors
+  );
 }
 
 // Modified generateAgentResponse with persistent caching using localStorage
-export async function generateAgentResponse(provider: string, model: any, systemPrompt: string, query: string): Promise<string> {
+export async function generateAgentResponse(provider: string, model: any, systemPrompt: string, query: string, options: GenerateOptions = {}): Promise<string> {
+  // Providers with a model configured in Settings serve that model regardless of the agent,
+  // so resolve it before building the cache key to avoid returning answers from a different model
+  const adapter = getProviderAdapter(provider);
+  if (adapter?.configuredModelField) {
+    model = getProviderCredentials(provider)[adapter.configuredModelField] || model;
+  }
+  
+  // Only settings the model accepts change its answer, so only those take part in the cache key
+  const params = getSupportedParams(options.params, getModelCapabilities(provider, model));
+  options = { ...options, params };
+  const outputSchema = options.outputSchema;
+  
   // Create a cache key by stringifying the parameters and encoding them in base64
-  const cacheKey = "agent-response-" + btoa(unescape(encodeURIComponent(JSON.stringify({ provider, model, systemPrompt, query }))));
+  const cacheKey = "agent-response-" + btoa(unescape(encodeURIComponent(JSON.stringify({ provider, model, systemPrompt, query, params, outputSchema }))));
+  
+  // Tool results depend on more than the prompt (the current date, other nodes' outputs),
+  // so answers from agents with tools are never cached
+  const cacheable = !options.tools?.length;
   
   // Add logging to track how many cache hits/misses we're getting
   console.debug(`API Request - Provider: ${provider}, Model: ${model}, System prompt length: ${systemPrompt?.length || 0}, Query length: ${query?.length || 0}`);
   
   // Check if we have a cached response in localStorage
-  const cached = localStorage.getItem(cacheKey);
+  const cached = cacheable ? localStorage.getItem(cacheKey) : null;
   if (cached) {
     // Validate cached response - must be non-empty and not an error
     if (cached.length > 0 && !cached.startsWith('[Error:') && !cached.startsWith('[ERROR::')) {
@@ -91,375 +504,302 @@ export async function generateAgentResponse(provider: string, model: any, system
   
   console.info("❌ Cache miss - making real API call for key: " + cacheKey);
   
+  if (options.signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+  
   // If not cached, call the original function
-  const response = await originalGenerateAgentResponse(provider, model, systemPrompt, query);
+  const response = await originalGenerateAgentResponse(provider, model, systemPrompt, query, options);
   
-  // Only cache valid responses
-  if (response && response.length > 0 && !response.startsWith('[Error:') && !response.startsWith('[ERROR::')) {
+  // Only cache valid responses (streamed answers are cached once fully assembled)
+  if (cacheable && response && response.length > 0 && !response.startsWith('[Error:') && !response.startsWith('[ERROR::')) {
     localStorage.setItem(cacheKey, response);
   }
   
   return response;
 }
 
-async function callOpenAI(
-  apiKey: string,
+// Call a provider through its adapter, handling chunking, HTTP errors and empty responses.
+// During the tool-call loop, `toolTurn` carries the tools and the conversation so far
+async function callProvider(
+  adapter: ProviderAdapter,
+  credentials: Record<string, string>,
   model: AIModel,
   systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  if (!apiKey) {
-    console.error('❌ No OpenAI API key provided');
-    throw new Error('OpenAI API key is required');
-  }
+  userPrompt: string,
+  options: GenerateOptions = {},
+  toolTurn: { tools?: ToolSpec[]; conversation?: ConversationTurn[] } = {}
+): Promise<ProviderResponse> {
+  const label = adapter.label;
+  // Tool calls are only read from complete responses, so requests offering tools are not streamed
+  const stream = Boolean(options.onToken && adapter.parseStreamEvent && !toolTurn.tools?.length);
+  
+  try {
+    // Get the estimated token count of the entire input
+    const estimatedSystemTokens = estimateTokenCount(systemPrompt || '');
+    const estimatedUserTokens = estimateTokenCount(userPrompt || '');
+    const totalEstimatedTokens = estimatedSystemTokens + estimatedUserTokens;
+    
+    // Get the model's context size
+    const modelContextSize = getModelContextSize(model);
+    
+    // Check if we need to use chunked processing
+    // More proactive checks to determine when chunking is needed:
+    // 1. If the input is very large (over 10k chars) - as before
+    // 2. If the estimated tokens are over 60% of the model's context window
+    // 3. If the user prompt is complex (contains code) and over the size of one chunk
+    // Chunk requests can't call tools, so a request offering them is sent whole or not at all
+    const offersTools = Boolean(toolTurn.tools?.length);
+    if (offersTools && totalEstimatedTokens > modelContextSize) {
+      throw new ProviderError(
+        `Input of ~${totalEstimatedTokens} tokens does not fit the ${modelContextSize}-token context of ${model}, and inputs of agents with tools can't be split into chunks`,
+        'context_overflow'
+      );
+    }
+    const useChunking = !options.noChunk && !offersTools && (
+      userPrompt.length > 10000 || 
+      totalEstimatedTokens > modelContextSize * 0.6 ||
+      (estimatedUserTokens > MAX_SAFE_TOKENS_PER_CHUNK && (userPrompt.includes("```") || userPrompt.includes("code"))));
+    
+    if (useChunking) {
+      console.info(`Using chunked processing strategy: Input is large (${userPrompt.length} chars, ~${totalEstimatedTokens} tokens, model context: ${modelContextSize})`);
+      return { content: await processWithChunkedStrategy(adapter.id, model, systemPrompt, userPrompt, credentials.apiKey, chunkedOptions(options)) };
+    }
 
-  let isTryingFallbackParameters = false;
+    // Log the request information
+    console.info(`Calling ${label} API with model: ${model}`);
+    
+    // Calculate appropriate max_tokens based on input size and model, unless the agent sets its own
+    const maxOutputTokens = options.params?.maxTokens ?? calculateMaxOutputTokens(systemPrompt, userPrompt, model);
+    console.info(`Calculated max output tokens: ${maxOutputTokens} (model limit: ${getMaxCompletionTokens(model)})`);
+    
+    const request = adapter.buildRequest({
+      model,
+      systemPrompt,
+      userPrompt,
+      maxOutputTokens,
+      capabilities: getModelCapabilities(adapter.id, model),
+      credentials,
+      stream,
+      params: options.params,
+      outputSchema: options.outputSchema,
+      tools: toolTurn.tools,
+      conversation: toolTurn.conversation
+    });
 
-  const tryCall = async (useAlternativeParameter = false) => {
-    try {
-      // Get the estimated token count of the entire input
-      const estimatedSystemTokens = estimateTokenCount(systemPrompt || '');
-      const estimatedUserTokens = estimateTokenCount(userPrompt || '');
-      const totalEstimatedTokens = estimatedSystemTokens + estimatedUserTokens;
-      
-      // Get the model's context size
-      const modelContextSize = getModelContextSize(model);
-      
-      // Check if we need to use chunked processing
-      // More proactive checks to determine when chunking is needed:
-      // 1. If the input is very large (over 10k chars) - as before
-      // 2. If the estimated tokens are over 60% of the model's context window
-      // 3. If the user prompt is complex (contains lots of code blocks or is very large)
-      const useChunking = 
-        userPrompt.length > 10000 || 
-        totalEstimatedTokens > modelContextSize * 0.6 ||
-        (userPrompt.length > 6000 && (userPrompt.includes("```") || userPrompt.includes("code")));
-      
-      if (useChunking) {
-        console.info(`Using chunked processing strategy: Input is large (${userPrompt.length} chars, ~${totalEstimatedTokens} tokens, model context: ${modelContextSize})`);
-        return processWithChunkedStrategy('openai', model, systemPrompt, userPrompt, apiKey);
+    // Log the actual request for debugging
+    console.info(`${label} request body preview (first 200 chars): ${JSON.stringify(request.body).substring(0, 200)}...`);
+    
+    // Every attempt waits for capacity under the provider's rate limits
+    const limits = useAgentStore.getState().rateLimits?.[adapter.id] || adapter.defaultRateLimits;
+    const requestTokens = totalEstimatedTokens + maxOutputTokens;
+    const response = await withRetry(async () => {
+      const release = await rateLimiter.acquire(adapter.id, limits, requestTokens, options.signal);
+      try {
+        return await sendProviderRequest(adapter, request, stream, options);
+      } finally {
+        release();
       }
-
-      // Log the request information
-      console.info(`Calling OpenAI API with model: ${model}`);
-      
-      // Calculate appropriate max_tokens based on input size and model
-      const maxOutputTokens = calculateMaxOutputTokens(systemPrompt, userPrompt, model);
-      const maxAllowedCompletionTokens = getMaxCompletionTokens(model);
-      console.info(`Calculated max output tokens: ${maxOutputTokens} (model limit: ${maxAllowedCompletionTokens})`);
-      
-      // Base payload with required parameters
-      const payload: any = {
-        model,
-        messages: []
-      };
-      
-      // Different models require different parameter names for token limits
-      const modelStr = String(model).toLowerCase();
+    }, options);
+    const { content, finishReason } = response;
+    console.info(`${label} API response content length: ${content.length}, finish reason: ${finishReason || 'unknown'}`);
+    
+    // Tokens are billed even when the answer turns out to be unusable
+    const promptText = [systemPrompt, userPrompt, ...(toolTurn.conversation || []).map(turn => turn.content)].join('\n');
+    const completionText = content + (response.toolCalls ? JSON.stringify(response.toolCalls) : '');
+    reportUsage(model, response.usage, promptText, completionText, options.onUsage);
+    
+    if (!content && !response.toolCalls?.length) {
+      console.error(`❌ Empty content in ${label} response (finish reason: ${finishReason || 'unknown'})`);
       
-      // For OpenAI models, we're removing max_tokens and max_completion_tokens parameters
-      // as per the user's request since they're optional
-      // We'll still keep tracking the token counts for logging and chunking decisions
-      
-      // Only add token limits for non-OpenAI models
-      if (!modelStr.startsWith('gpt-')) {
-        if (useAlternativeParameter) {
-          // For non-OpenAI models, we might need to try the alternative parameter
-          if (payload.max_tokens) {
-            delete payload.max_tokens;
-            payload.max_completion_tokens = maxOutputTokens;
-            console.info(`Fallback: Switching to 'max_completion_tokens' for model ${model}`);
-          } else {
-            payload.max_tokens = maxOutputTokens;
-            console.info(`Fallback: Switching to 'max_tokens' for model ${model}`);
-          }
-        } else if (modelStr.includes('claude') || modelStr.includes('perplexity')) {
-          payload.max_tokens = maxOutputTokens;
-          console.info(`Using 'max_tokens' parameter for model ${model}`);
-        }
+      // Check if it's due to length constraint
+      if (finishReason === 'length' && !options.noChunk) {
+        console.warn('Response was truncated due to length constraints. Switching to chunked processing strategy...');
+        
+        // Directly switch to chunked processing for more reliable handling of complex/long prompts
+        return { content: await processWithChunkedStrategy(adapter.id, model, systemPrompt, userPrompt, credentials.apiKey, chunkedOptions(options)) };
+      } else if (finishReason === 'content_filter') {
+        throw new ProviderError(`The ${model} API returned an empty response due to content filter. Please modify your input and try again.`, 'content_filter');
       } else {
-        console.info(`Skipping token limit parameters for OpenAI model ${model} as they're optional`);
+        throw new Error(`The ${model} API returned an empty response. Please check your API key and configuration.`);
       }
-
-      // Handle messages based on model type
-      // o1 and o3 models don't support 'system' role
-      if (modelStr.startsWith('o1') || modelStr.startsWith('o3')) {
-        // For o1/o3 models, convert system message to a user message prefix
-        if (systemPrompt) {
-          payload.messages.push({ 
-            role: 'user', 
-            content: `${systemPrompt}\n\n${userPrompt}` 
-          });
-          console.info(`o1/o3 model: Combined system+user prompt length: ${(systemPrompt + userPrompt).length}`);
-        } else {
-          payload.messages.push({ role: 'user', content: userPrompt });
-          console.info(`o1/o3 model: User prompt only (no system prompt), length: ${userPrompt.length}`);
-        }
-      } else {
-        // For other models, use standard system and user messages
-        if (systemPrompt) {
-          payload.messages.push({ role: 'system', content: systemPrompt });
-          console.info(`Standard model: System prompt length: ${systemPrompt.length}`);
-        } else {
-          console.warn(`Standard model: No system prompt provided!`);
-        }
-        payload.messages.push({ role: 'user', content: userPrompt });
-        console.info(`Standard model: User prompt length: ${userPrompt.length}`);
+    }
+    
+    // Check if content is valid JSON when requested
+    if (request.expectsJson && !response.toolCalls?.length) {
+      try {
+        JSON.parse(content);
+      } catch (jsonError) {
+        console.warn('Response was supposed to be JSON but failed to parse:', jsonError);
       }
+    }
+    
+    return response;
+  } catch (error) {
+    // Handle network errors or other exceptions
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError(`${label} API request was cancelled`);
+    }
+    console.error(`${label} API call failed:`, error);
+    if (error instanceof ProviderError && error.attempts > 1) {
+      error.message = `${error.message} (after ${error.attempts} attempts)`;
+    }
+    throw error;
+  }
+}
 
-      // Check if we should request JSON output format - be more selective to avoid unnecessary use
-      const jsonFormatPatterns = [
-        'return json',
-        'respond in json',
-        'output in json',
-        'json format',
-        'json response',
-        'return a json',
-        'provide json',
-        'as json',
-        'json object'
-      ];
-      
-      // Check if any of the patterns are present in the prompts
-      const requestsJson = jsonFormatPatterns.some(pattern => {
-        const inSystemPrompt = systemPrompt?.toLowerCase().includes(pattern);
-        const inUserPrompt = userPrompt.toLowerCase().includes(pattern);
-        if (inSystemPrompt || inUserPrompt) {
-          console.info(`JSON format detected: found pattern "${pattern}" in ${inSystemPrompt ? 'system prompt' : 'user prompt'}`);
-          return true;
-        }
-        return false;
-      });
-      
-      if (requestsJson) {
-        // OpenAI requires the word "json" to be in the messages when using JSON response format
-        payload.response_format = { type: "json_object" };
-        console.info('Requesting JSON response format');
-        
-        // Make sure "json" appears in at least one message to satisfy OpenAI's requirement
-        const containsJsonWord = payload.messages.some(msg => {
-          const contains = msg.content && msg.content.toLowerCase().includes('json');
-          if (contains) {
-            console.info(`Message with role ${msg.role} already contains the word "json"`);
-          }
-          return contains;
-        });
-        
-        if (!containsJsonWord) {
-          console.info('Adding "json" requirement to the user message to satisfy OpenAI API');
-          
-          // Find the user message to append to
-          const userMsgIndex = payload.messages.findIndex(msg => msg.role === 'user');
-          
-          if (userMsgIndex >= 0) {
-            // Append to existing user message
-            payload.messages[userMsgIndex].content += '\n\nPlease provide your response in JSON format.';
-          } else if (payload.messages.length > 0) {
-            // Append to the last message if no user message found
-            payload.messages[payload.messages.length - 1].content += '\n\nPlease provide your response in JSON format.';
-          }
-        }
-      }
+// Options handed on to the chunked strategy's own requests
+function chunkedOptions(options: GenerateOptions): GenerateOptions {
+  return { signal: options.signal, timeoutMs: options.timeoutMs, params: options.params, onUsage: options.onUsage, onToken: options.onToken };
+}
 
-      // Only add temperature for models that support it
-      // Reasoning models (o1, o1-mini, o3-mini) don't support temperature
-      if (!modelStr.startsWith('o1') && !modelStr.startsWith('o3')) {
-        payload.temperature = 0.7;
-      }
+// Report what a provider call cost, estimating token counts the provider didn't return
+function reportUsage(
+  model: AIModel,
+  usage: ProviderUsage | undefined,
+  promptText: string,
+  completionText: string,
+  onUsage?: (usage: TokenUsage) => void
+): void {
+  const promptTokens = usage?.promptTokens ?? estimateTokenCount(promptText);
+  const completionTokens = usage?.completionTokens ?? estimateTokenCount(completionText);
+  const estimated = usage?.promptTokens === undefined || usage?.completionTokens === undefined;
+  const cost = calculateCost(model, promptTokens, completionTokens);
+  console.info(`Usage for ${model}: ${promptTokens} prompt + ${completionTokens} completion tokens${estimated ? ' (estimated)' : ''}, $${cost.toFixed(6)}`);
+  onUsage?.({ model, promptTokens, completionTokens, cost, ...(estimated ? { estimated } : {}) });
+}
 
-      console.info(`Payload structure: ${JSON.stringify({
-        model: payload.model,
-        messageCount: payload.messages.length,
-        firstMessageRole: payload.messages[0]?.role,
-        messageTypes: payload.messages.map(m => m.role).join(','),
-        tokenParam: payload.max_tokens ? 'max_tokens' : 'max_completion_tokens',
-        tokenValue: payload.max_tokens || payload.max_completion_tokens,
-        modelMaxLimit: getMaxCompletionTokens(model),
-        estimatedPromptTokens: estimateTokenCount(systemPrompt || '') + estimateTokenCount(userPrompt || ''),
-        responseFormat: payload.response_format?.type || 'text'
-      })}`);
-
-      // Log the actual request for debugging
-      const reqBody = JSON.stringify(payload);
-      console.info(`OpenAI request body preview (first 200 chars): ${reqBody.substring(0, 200)}...`);
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: reqBody,
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Unknown error';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error?.message || 
-                        errorData.error?.code || 
-                        `HTTP error ${response.status}`;
-          console.error('OpenAI API error details:', JSON.stringify(errorData));
-        } catch (parseError) {
-          errorMessage = `HTTP error ${response.status}: ${response.statusText}`;
-        }
-        throw new Error(`OpenAI API error: ${errorMessage}`);
-      }
+// Make a single HTTP request to a provider and read its answer, classifying any failure.
+// The request's own controller aborts it when the caller's signal fires or the timeout runs out,
+// which covers reading a streamed answer as well as waiting for the response.
+async function sendProviderRequest(
+  adapter: ProviderAdapter,
+  request: ProviderHttpRequest,
+  stream: boolean,
+  options: GenerateOptions
+): Promise<ProviderResponse> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  let timedOut = false;
+  const timer = options.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs)
+    : undefined;
 
-      const data = await response.json();
-      console.info(`OpenAI API response status: ${response.status}, data structure: ${JSON.stringify({
-        id: data.id?.substring(0, 10) || 'missing',
-        object: data.object || 'missing',
-        model: data.model || 'missing',
-        choicesLength: data.choices?.length || 0,
-        contentLength: data.choices?.[0]?.message?.content?.length || 0,
-        finishReason: data.choices?.[0]?.finish_reason || 'unknown'
-      })}`);
-      
-      // Validate response structure
-      if (!data || !data.choices || !data.choices.length) {
-        console.error('❌ Invalid response structure from OpenAI:', JSON.stringify(data));
-        throw new Error('Invalid response structure from OpenAI API');
-      }
-      
-      const content = data.choices[0]?.message?.content;
-      
-      if (!content) {
-        console.error('❌ Empty content in OpenAI response:', JSON.stringify(data.choices[0]));
-        
-        // Enhanced logging for troubleshooting empty content issues
-        console.error('Response debug info:', {
-          model,
-          finishReason: data.choices[0]?.finish_reason,
-          promptLength: (systemPrompt?.length || 0) + (userPrompt?.length || 0), 
-          tokensRequested: payload.max_tokens || 'not specified', // Updated to handle missing token parameters
-          modelMaxLimit: getMaxCompletionTokens(model),
-          tokensAvailable: data.model_context_size || 'unknown',
-          promptTokens: data.usage?.prompt_tokens || 'unknown',
-          completionTokens: data.usage?.completion_tokens || 'unknown',
-          totalTokens: data.usage?.total_tokens || 'unknown'
-        });
-        
-        // Check if it's due to length constraint
-        if (data.choices[0]?.finish_reason === 'length') {
-          console.warn('Response was truncated due to length constraints. Switching to chunked processing strategy...');
-          
-          // Directly switch to chunked processing for more reliable handling of complex/long prompts
-          console.info('Using chunked processing to handle length constraint issue');
-          return processWithChunkedStrategy('openai', model, systemPrompt, userPrompt, apiKey);
-          
-        } else if (data.choices[0]?.finish_reason === 'content_filter') {
-          throw new Error(`The ${model} API returned an empty response due to content filter. Please modify your input and try again.`);
-        } else {
-          throw new Error(`The ${model} API returned an empty response. Please check your API key and configuration.`);
-        }
-      }
-      
-      // Check if content is valid JSON when requested
-      if (payload.response_format?.type === 'json_object') {
-        try {
-          JSON.parse(content);
-        } catch (jsonError) {
-          console.warn('Response was supposed to be JSON but failed to parse:', jsonError);
-        }
-      }
-      
-      return content;
-    } catch (error: any) {
-      // Handle errors more robustly based on error message content
-      if (!isTryingFallbackParameters) {
-        // Check for parameter errors
-        const errorMsg = error.message || '';
-        const isParameterError = errorMsg.includes('Unsupported parameter') || 
-                                errorMsg.includes('is not supported with this model');
-        
-        // Skip parameter fallback logic for OpenAI models since we're removing those parameters
-        if (isParameterError && !String(model).toLowerCase().startsWith('gpt-')) {
-          console.warn('Parameter error detected. Trying alternative parameter format...');
-          isTryingFallbackParameters = true;
-          throw new Error(`[Parameter error] ${error.message}. Attempting to use alternative parameter.`);
-        }
-      }
-      
-      throw error; // Let the outer catch handle other errors
+  try {
+    return await fetchProviderResponse(adapter, request, stream, { ...options, signal: controller.signal });
+  } catch (error) {
+    if (timedOut && !options.signal?.aborted) {
+      throw new ProviderError(`${adapter.label} API request timed out after ${options.timeoutMs / 1000}s`, 'timeout');
     }
-  };
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+}
 
+async function fetchProviderResponse(
+  adapter: ProviderAdapter,
+  request: ProviderHttpRequest,
+  stream: boolean,
+  options: GenerateOptions
+): Promise<ProviderResponse> {
+  const label = adapter.label;
+  
+  let response: Response;
   try {
-    return await tryCall();
-  } catch (error: any) {
-    // If we got a parameter error and haven't tried the alternative yet, try with the other parameter
-    if (!isTryingFallbackParameters) {
-      const errorMsg = error.message || '';
-      const isParameterError = errorMsg.includes('Unsupported parameter') || 
-                              errorMsg.includes('is not supported with this model');
-      
-      // Skip parameter fallback logic for OpenAI models since we're removing those parameters
-      if (isParameterError && !String(model).toLowerCase().startsWith('gpt-')) {
-        console.warn('Parameter error detected in outer handler. Trying alternative parameter format...');
-        isTryingFallbackParameters = true;
-        try {
-          return await tryCall(true);
-        } catch (fallbackError: any) {
-          console.error('Fallback attempt also failed:', fallbackError);
-          throw fallbackError; // Propagate the error from the fallback attempt
-        }
-      }
+    response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal: options.signal,
+    });
+  } catch (error) {
+    // fetch rejects with a TypeError on network failures, worded differently by each browser
+    // ("Failed to fetch", "NetworkError when attempting to fetch resource", "Load failed");
+    // aborted requests reject with an AbortError instead
+    if (error.name === 'TypeError' && !options.signal?.aborted) {
+      throw new ProviderError(`Network error when calling ${label} API: ${error.message}`, 'network');
     }
+    throw error;
+  }
 
-    // Handle network errors or other exceptions
-    if (error.name === 'AbortError') {
-      throw new Error('OpenAI API request timed out');
-    }
-    if (error.name === 'TypeError' && error.message.includes('Failed to fetch')) {
-      throw new Error('Network error when calling OpenAI API');
+  if (!response.ok) {
+    let errorMessage = 'Unknown error';
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.error?.message || 
+                    errorData.error?.code || 
+                    `HTTP error ${response.status}`;
+      console.error(`${label} API error details:`, JSON.stringify(errorData));
+    } catch (parseError) {
+      errorMessage = `HTTP error ${response.status}: ${response.statusText}`;
     }
-    console.error('OpenAI API call failed:', error);
-    throw error;
+    throw new ProviderError(
+      `${label} API error: ${errorMessage}`,
+      classifyHttpError(response.status, errorMessage),
+      response.status,
+      parseRetryAfter(response.headers)
+    );
   }
+
+  return stream
+    ? readProviderStream(adapter, response, options.onToken)
+    : readProviderResponse(adapter, response);
 }
 
-async function callPerplexity(
-  apiKey: string,
-  model: AIModel,
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
+// Read a complete (non-streamed) provider response
+async function readProviderResponse(adapter: ProviderAdapter, response: Response): Promise<ProviderResponse> {
+  const data = await response.json();
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000, // Perplexity API uses max_tokens
-      }),
-    });
+    return adapter.parseResponse(data);
+  } catch (parseError) {
+    console.error(`❌ Invalid response structure from ${adapter.label}:`, JSON.stringify(data));
+    throw new Error(`Invalid response structure from ${adapter.label} API`);
+  }
+}
 
-    if (!response.ok) {
-      let errorMessage = 'Unknown error';
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.error?.message || `HTTP error ${response.status}`;
-      } catch (parseError) {
-        errorMessage = `HTTP error ${response.status}: ${response.statusText}`;
-      }
-      throw new Error(`Perplexity API error: ${errorMessage}`);
+// Assemble a streamed provider response, reporting every new piece of text as it arrives
+async function readProviderStream(
+  adapter: ProviderAdapter,
+  response: Response,
+  onToken: (delta: string, text: string) => void
+): Promise<ProviderResponse> {
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: ProviderUsage | undefined;
+
+  await readServerSentEvents(response, (data) => {
+    // OpenAI-style streams end with a literal [DONE] marker
+    if (data === '[DONE]') return;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch (parseError) {
+      console.warn(`Ignoring malformed ${adapter.label} stream event: ${data.substring(0, 100)}`);
+      return;
     }
 
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
-  } catch (error: any) {
-    if (error.name === 'TypeError' && error.message.includes('Failed to fetch')) {
-      throw new Error('Network error when calling Perplexity API');
+    const chunk = adapter.parseStreamEvent(event);
+    if (chunk.error) {
+      throw new ProviderError(`${adapter.label} API error: ${chunk.error}`, classifyErrorMessage(chunk.error));
     }
-    throw error;
-  }
+    if (chunk.delta) {
+      content += chunk.delta;
+      onToken(chunk.delta, content);
+    }
+    if (chunk.finishReason) {
+      finishReason = chunk.finishReason;
+    }
+    if (chunk.usage) {
+      usage = { ...usage, ...chunk.usage };
+    }
+  });
+
+  return { content, finishReason, usage };
 }
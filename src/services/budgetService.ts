@@ -0,0 +1,170 @@
+import { Agent, AgentEdge, AgentNode } from '@/types/agent';
+import { estimateTokenCount, formatCombinedInputs, getMaxCompletionTokens } from '@/utils/tokenManager';
+import { calculateCost, formatCost } from './pricing';
+import { splitItems } from './mapService';
+
+/**
+ * Spending caps in USD; 0 means no cap
+ */
+export interface BudgetSettings {
+  perRunLimit: number;
+  perDayLimit: number;
+}
+
+/**
+ * What has been spent on the given (local) day
+ */
+export interface DailySpend {
+  date: string;
+  cost: number;
+}
+
+/**
+ * Upper-bound cost of a canvas run
+ */
+export interface RunCostEstimate {
+  total: number;
+  // Estimated cost of every node on a path to an Output Box
+  nodes: Record<string, number>;
+  // Set when nodes answer once per item of a list that only exists once the run gets there;
+  // those nodes are counted for one item, so the total is a lower bound
+  lowerBound?: boolean;
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = { perRunLimit: 0, perDayLimit: 0 };
+
+/**
+ * Today's date as used for the daily spend, e.g. 2024-05-01
+ */
+export function getTodayKey(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Amount spent today, ignoring a spend record left over from an earlier day
+ */
+export function getSpentToday(dailySpend: DailySpend): number {
+  return dailySpend.date === getTodayKey() ? dailySpend.cost : 0;
+}
+
+// The agent's own model and its fallback models; any of them may end up answering
+const getModelChain = (agent: Agent) => [agent.model, ...(agent.fallbackModels || []).map(choice => choice.model)];
+
+// Agents may answer with up to their max tokens setting, or the model's completion limit
+function getCompletionBound(agent: Agent): number {
+  return Math.max(...getModelChain(agent).map(model => agent.generationParams?.maxTokens ?? getMaxCompletionTokens(model)));
+}
+
+// Most a request with this many prompt tokens can cost on whichever model of the chain answers it
+function getRequestBound(agent: Agent, promptTokens: number): number {
+  return Math.max(...getModelChain(agent).map(model =>
+    calculateCost(model, promptTokens, agent.generationParams?.maxTokens ?? getMaxCompletionTokens(model))
+  ));
+}
+
+/**
+ * Estimate the most a single agent request can cost
+ * @param agent Agent making the request
+ * @param systemPrompt System prompt that will be sent
+ * @param input User input that will be sent
+ * @returns Cost in USD, assuming the answer uses the whole completion budget of the priciest
+ * model among the agent's own and its fallback models
+ */
+export function estimateRequestCost(agent: Agent, systemPrompt: string, input: string): number {
+  const promptTokens = estimateTokenCount(systemPrompt) + estimateTokenCount(input);
+  return getRequestBound(agent, promptTokens);
+}
+
+/**
+ * Estimate the most a canvas run can cost before any request is made. Outputs of nodes
+ * that haven't run yet are assumed to use their whole completion budget. Nodes after a Map
+ * node answer once per item; when the items come from other nodes their number isn't known
+ * yet, and the estimate is marked as a lower bound.
+ * @param nodes Canvas nodes
+ * @param edges Canvas edges
+ * @param agents Agent configurations the nodes refer to
+ * @returns Total and per-node cost in USD for every node that feeds an Output Box
+ */
+export function estimateRunCost(nodes: AgentNode[], edges: AgentEdge[], agents: Agent[]): RunCostEstimate {
+  const estimate: RunCostEstimate = { total: 0, nodes: {} };
+  // Estimated output tokens of each visited node
+  const outputTokens = new Map<string, number>();
+  // Number of items each visited node answers or passes on; undefined when it has none
+  const itemCounts = new Map<string, number | undefined>();
+
+  // Items of a Map node that only splits its own inputs; undefined when they come from other nodes
+  const countMapItems = (node: AgentNode): number | undefined => {
+    if (edges.some(edge => edge.target === node.id && !edge.loop)) return undefined;
+    try {
+      return node.data.inputs.flatMap(input => splitItems(input, node.data.map || { split: 'lines' })).length;
+    } catch (error) {
+      return undefined;
+    }
+  };
+
+  const visit = (nodeId: string): number => {
+    if (outputTokens.has(nodeId)) return outputTokens.get(nodeId);
+    // Mark the node before descending so cycles don't recurse forever
+    outputTokens.set(nodeId, 0);
+
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return 0;
+    const dependencyTokens = edges
+      .filter(edge => edge.target === nodeId)
+      .reduce((sum, edge) => sum + visit(edge.source), 0);
+    const inputTokens = estimateTokenCount(formatCombinedInputs(node.data.inputs)) + dependencyTokens;
+
+    // Items reach a node from the Map node before it, or from an agent answering those items
+    let items: number | undefined;
+    if (node.type === 'map') {
+      items = countMapItems(node);
+      if (items === undefined) estimate.lowerBound = true;
+      items = items ?? 1;
+    } else if (node.type !== 'reduce') {
+      items = edges
+        .filter(edge => edge.target === nodeId && !edge.loop)
+        .map(edge => itemCounts.get(edge.source))
+        .find(count => count !== undefined);
+    }
+
+    const agent = node.data.agentId ? agents.find(a => a.id === node.data.agentId) : undefined;
+    if (node.data.label === 'Output Box' || !agent) {
+      // Output Boxes, Map and Reduce nodes only pass on or join their inputs
+      itemCounts.set(nodeId, node.type === 'map' ? items : undefined);
+      outputTokens.set(nodeId, inputTokens);
+      return inputTokens;
+    }
+
+    const requests = items ?? 1;
+    const completionTokens = getCompletionBound(agent) * requests;
+    const cost = getRequestBound(agent, estimateTokenCount(agent.systemPrompt || '') + inputTokens) * requests;
+    estimate.nodes[nodeId] = cost;
+    estimate.total += cost;
+    itemCounts.set(nodeId, items);
+    outputTokens.set(nodeId, completionTokens);
+    return completionTokens;
+  };
+
+  nodes.filter(node => node.data.label === 'Output Box').forEach(node => visit(node.id));
+  return estimate;
+}
+
+/**
+ * Check whether spending another amount stays within the caps
+ * @param cost Amount about to be spent
+ * @param budget Configured caps
+ * @param spentThisRun Amount the current run has already spent
+ * @param spentToday Amount spent today, including the current run
+ * @returns Why the spend is not allowed, or null when it is
+ */
+export function checkBudget(cost: number, budget: BudgetSettings, spentThisRun: number, spentToday: number): string | null {
+  if (budget.perRunLimit > 0 && spentThisRun + cost > budget.perRunLimit) {
+    return `Run budget of ${formatCost(budget.perRunLimit)} would be exceeded (spent ${formatCost(spentThisRun)}, needs up to ${formatCost(cost)})`;
+  }
+  if (budget.perDayLimit > 0 && spentToday + cost > budget.perDayLimit) {
+    return `Daily budget of ${formatCost(budget.perDayLimit)} would be exceeded (spent ${formatCost(spentToday)} today, needs up to ${formatCost(cost)})`;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+import { MapConfig, ReduceConfig } from '@/types/agent';
+import { extractJson } from '@/utils/jsonSchema';
+import { chunkText } from '@/utils/tokenManager';
+
+export const DEFAULT_CHUNK_TOKENS = 1000;
+export const DEFAULT_ITEM_CONCURRENCY = 4;
+
+/**
+ * Split a Map node's input into items
+ * @param input Text the Map node received
+ * @param config How to split it
+ * @returns Non-empty items, in order
+ * @throws Error when JSON splitting gets no JSON array, or delimiter splitting has no delimiter
+ */
+export function splitItems(input: string, config: MapConfig): string[] {
+  switch (config.split) {
+    case 'lines':
+      return input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    case 'delimiter':
+      if (!config.delimiter) {
+        throw new Error('Map node has no delimiter to split on');
+      }
+      return input.split(config.delimiter).map(item => item.trim()).filter(Boolean);
+    case 'chunks':
+      return input.trim() ? chunkText(input, config.chunkTokens || DEFAULT_CHUNK_TOKENS) : [];
+    case 'json': {
+      let data: unknown;
+      try {
+        data = extractJson(input);
+      } catch (error) {
+        throw new Error(`Map input is not a JSON array: ${error.message}`);
+      }
+      if (!Array.isArray(data)) {
+        throw new Error('Map input is not a JSON array');
+      }
+      // Objects stay JSON so the agent sees every field
+      return data.map(item => typeof item === 'string' ? item : JSON.stringify(item, null, 2));
+    }
+  }
+}
+
+// Items that are JSON join JSON arrays as values rather than strings
+function parseItem(item: string): unknown {
+  const trimmed = item.trim();
+  if (!/^[[{`]/.test(trimmed)) return item;
+  try {
+    return extractJson(trimmed);
+  } catch (error) {
+    return item;
+  }
+}
+
+/**
+ * Join items gathered by a Reduce node
+ * @param items Items in order
+ * @param config Join format
+ * @returns The joined text
+ */
+export function joinItems(items: string[], config: ReduceConfig): string {
+  switch (config.format) {
+    case 'json':
+      return JSON.stringify(items.map(parseItem), null, 2);
+    case 'numbered':
+      return items.map((item, index) => `${index + 1}. ${item}`).join('\n\n');
+    case 'concat':
+      return items.join(config.separator ?? '\n\n');
+  }
+}
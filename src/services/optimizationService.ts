@@ -1,16 +1,23 @@
 import { AIModel } from "@/types/agent";
-import { generateAgentResponse } from "./ai-service";
+import { generateAgentResponse, GenerateOptions, RequestCancelledError } from "./ai-service";
+import { getLargestContextModel } from "./providers";
 
 /**
  * Uses GPT-4o to shorten a system prompt while preserving critical instructions
  * @param systemPrompt Original system prompt
  * @param targetLength Target maximum length in characters
+ * @param provider Provider to run the optimization on (defaults to OpenAI)
+ * @param model Model to run the optimization on (defaults to GPT-4o)
+ * @param options Request options; the abort signal, timeout and usage callback are forwarded
  * @returns Shortened system prompt
  */
 export async function shortenSystemPrompt(
   systemPrompt: string,
   targetLength: number,
-  apiKey: string
+  apiKey: string,
+  provider: string = 'openai',
+  model: AIModel = 'gpt-4o',
+  options: GenerateOptions = {}
 ): Promise<string> {
   if (!systemPrompt || systemPrompt.length <= targetLength) {
     return systemPrompt;
@@ -38,10 +45,11 @@ The shortened prompt should be less than ${targetLength} characters.
 Return ONLY the shortened prompt with no explanation or additional text.`;
 
     const shortenedPrompt = await generateAgentResponse(
-      'openai',
-      'gpt-4o' as AIModel,
+      provider,
+      model,
       'You are a prompt optimization assistant. Shorten prompts while preserving their functionality.',
-      optimizationPrompt
+      optimizationPrompt,
+      { signal: options.signal, timeoutMs: options.timeoutMs, onUsage: options.onUsage }
     );
 
     // Return the original if something went wrong
@@ -131,6 +139,8 @@ Return ONLY the JSON with no additional explanation. The JSON should be formatte
  * @param systemPrompt System prompt
  * @param input User input to process
  * @param apiKey API key
+ * @param options Request options; the abort signal, timeout, generation settings and usage callback are forwarded to the chunk requests,
+ * and the token callback to the request whose answer is returned whole (the direct or cohesion request)
  * @returns Combined output from all chunks
  */
 export async function processWithChunkedStrategy(
@@ -138,18 +148,20 @@ export async function processWithChunkedStrategy(
   model: AIModel,
   systemPrompt: string,
   input: string,
-  apiKey: string
+  apiKey: string,
+  options: GenerateOptions = {}
 ): Promise<string> {
-  const { estimateTokenCount } = await import('@/utils/tokenManager');
+  // The strategy's own requests are sent as they are, never chunked again
+  const requestOptions: GenerateOptions = { signal: options.signal, timeoutMs: options.timeoutMs, params: options.params, onUsage: options.onUsage, noChunk: true };
+  // Chunk answers are combined before anyone sees them, so only a request giving the final answer streams
+  const finalRequestOptions: GenerateOptions = { ...requestOptions, onToken: options.onToken };
+
+  const { estimateTokenCount, MAX_SAFE_TOKENS_PER_CHUNK } = await import('@/utils/tokenManager');
   
   // Calculate appropriate chunk size based on model
   const estimatedInputTokens = estimateTokenCount(input);
   const estimatedSystemTokens = estimateTokenCount(systemPrompt);
   
-  // Target 30% of model's context size for each chunk to leave room for response
-  // We'll dynamically calculate this based on token count rather than character count
-  const MAX_SAFE_TOKENS_PER_CHUNK = 2000; // Default safe limit
-  
   console.info(`Using chunked processing strategy: Input ~${estimatedInputTokens} tokens, System ~${estimatedSystemTokens} tokens`);
   
   // If input is small enough, process directly
@@ -158,15 +170,17 @@ export async function processWithChunkedStrategy(
       provider as any,
       model,
       systemPrompt,
-      input
+      input,
+      finalRequestOptions
     );
   }
   
   try {
-    // Use GPT-4o to help optimize the system prompt if it's large
+    // Shorten a large system prompt with the agent's own provider and model, whose key the user
+    // configured; a local endpoint may be all that's reachable (e.g. offline runs)
     let optimizedPrompt = systemPrompt;
     if (systemPrompt.length > 1000) {
-      optimizedPrompt = await shortenSystemPrompt(systemPrompt, 1000, apiKey);
+      optimizedPrompt = await shortenSystemPrompt(systemPrompt, 1000, apiKey, provider, model, { signal: options.signal, timeoutMs: options.timeoutMs, onUsage: options.onUsage });
     }
     
     // Prepare a processing instruction to tell the model about chunking
@@ -188,37 +202,25 @@ Your response for each chunk will be combined with responses for other chunks la
     // Add special marker to system prompt to prevent cache conflicts with non-chunked requests
     const markedSystemPrompt = `${optimizedPrompt}\n\n[CHUNKED_PROCESSING]`;
     
-    // Process chunks with limited parallelism instead of all at once or fully sequentially
-    const results: string[] = [];
+    // Process chunks in parallel; the provider's rate limiter decides how many requests run at once
     const API_CALL_LIMIT = 3; // maximum number of API calls we allow
-    let apiCallCount = 0;
-    const BATCH_SIZE = 3; // limit concurrent API calls
-    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-      const availableCalls = API_CALL_LIMIT - apiCallCount;
-      if (availableCalls <= 0) {
-        console.warn('API call limit reached. Skipping remaining chunks.');
-        break;
-      }
-      // Slice the batch, and if the batch size is larger than availableCalls, trim it
-      let batch = chunks.slice(i, i + BATCH_SIZE);
-      if (batch.length > availableCalls) {
-        batch = batch.slice(0, availableCalls);
-      }
-      const batchPromises = batch.map((chunk, index) => {
-        const actualIndex = apiCallCount + index; // use global count for numbering
-        const chunkPrompt = `${chunkingInstruction}\n\nCHUNK ${actualIndex + 1} OF ${chunks.length}:\n${chunk}`;
-        console.info(`Processing chunk ${actualIndex + 1}/${chunks.length}...`);
-        return generateAgentResponse(provider as any, model, markedSystemPrompt, chunkPrompt)
-          .then(res => {
-            console.info(`Chunk ${actualIndex + 1} processed; result length: ${res.length}`);
-            return res;
-          });
-      });
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-      apiCallCount += batch.length;
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError('Chunked processing was cancelled');
     }
-    // End of limited parallel chunk processing
+    const chunksToProcess = chunks.slice(0, API_CALL_LIMIT);
+    if (chunksToProcess.length < chunks.length) {
+      console.warn('API call limit reached. Skipping remaining chunks.');
+    }
+    const results = await Promise.all(chunksToProcess.map((chunk, index) => {
+      const chunkPrompt = `${chunkingInstruction}\n\nCHUNK ${index + 1} OF ${chunks.length}:\n${chunk}`;
+      console.info(`Processing chunk ${index + 1}/${chunks.length}...`);
+      return generateAgentResponse(provider as any, model, markedSystemPrompt, chunkPrompt, requestOptions)
+        .then(res => {
+          console.info(`Chunk ${index + 1} processed; result length: ${res.length}`);
+          return res;
+        });
+    }));
+    let apiCallCount = chunksToProcess.length;
     
     // Combine the results
     const combinedOutput = results.join('\n\n---\n\n');
@@ -239,9 +241,9 @@ ${results.map((result, i) => `--- OUTPUT CHUNK ${i + 1} ---\n${result}`).join('\
 
 Create a single cohesive response that properly integrates all these outputs. Ensure there is no redundancy or repetition while preserving all unique information and insights. The final response should flow naturally as if it was generated from the complete input at once.`;
 
-        // Use the model with the largest context window for cohesion processing
-        // Claude-3-Opus or GPT-4-Turbo have the largest context windows
-        const largeContextModel = 'gpt-4-turbo' as AIModel; // 128k context window
+        // Use the provider's model with the largest context window for cohesion processing;
+        // a local endpoint declares no models, so it keeps the agent's
+        const largeContextModel = getLargestContextModel(provider, model);
         
         console.info(`Using large context model (${largeContextModel}) for final coherence processing`);
         
@@ -252,10 +254,11 @@ Create a single cohesive response that properly integrates all these outputs. En
         console.info(`Making additional cohesion API call (${apiCallCount + 1}/${API_CALL_LIMIT})`);
         
         const cohesiveOutput = await generateAgentResponse(
-          'openai',
+          provider,
           largeContextModel,
           cohesionSystemPrompt,
-          cohesionPrompt
+          cohesionPrompt,
+          finalRequestOptions
         );
         
         apiCallCount++; // Count the cohesion processing as an API call
@@ -264,6 +267,9 @@ Create a single cohesive response that properly integrates all these outputs. En
           return cohesiveOutput;
         }
       } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
         console.error('Error creating cohesive output:', error);
       }
     }
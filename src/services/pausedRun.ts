@@ -0,0 +1,35 @@
+import { ResumeState } from './workflowEngine';
+
+const PAUSED_RUN_KEY = 'swarmweaver_paused_run';
+
+/**
+ * A run waiting for a reviewer, kept so it can be resumed after the page is reloaded
+ */
+export interface PausedRun extends ResumeState {
+  pausedAt: number;
+}
+
+/**
+ * The run that was waiting for approval when the page was last open, if any
+ */
+export function loadPausedRun(): PausedRun | null {
+  try {
+    const stored = localStorage.getItem(PAUSED_RUN_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load paused run from localStorage:', error);
+    return null;
+  }
+}
+
+export function savePausedRun(run: PausedRun): void {
+  try {
+    localStorage.setItem(PAUSED_RUN_KEY, JSON.stringify(run));
+  } catch (error) {
+    console.error('Failed to save paused run to localStorage:', error);
+  }
+}
+
+export function clearPausedRun(): void {
+  localStorage.removeItem(PAUSED_RUN_KEY);
+}
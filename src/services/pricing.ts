@@ -0,0 +1,56 @@
+import { AIModel } from '@/types/agent';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// List prices per million tokens. Models missing here (e.g. local models) are treated as free
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4.5-preview': { input: 75, output: 150 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'sonar-deep-research': { input: 2, output: 8 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar': { input: 1, output: 1 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+};
+
+/**
+ * Get the price of a model, if it is known
+ */
+export function getModelPricing(model: AIModel | string): ModelPricing | undefined {
+  return MODEL_PRICING[model];
+}
+
+/**
+ * Calculate what a request cost
+ * @param model Model that served the request
+ * @param promptTokens Tokens sent to the model
+ * @param completionTokens Tokens the model generated
+ * @returns Cost in USD; 0 for models without known pricing
+ */
+export function calculateCost(model: AIModel | string, promptTokens: number, completionTokens: number): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Format a cost in USD, keeping small amounts readable
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
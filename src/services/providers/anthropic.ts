@@ -0,0 +1,157 @@
+import { ConversationTurn, ModelCapabilities, ProviderAdapter } from './types';
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  // tool_use blocks
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface MessagesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface MessagesResponse {
+  content?: ContentBlock[];
+  stop_reason?: string;
+  usage?: MessagesUsage;
+}
+
+interface Message {
+  role: 'user' | 'assistant';
+  content: Record<string, unknown>[];
+}
+
+// Only the event types that carry text, stop reasons or errors matter here
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  error?: { message?: string };
+  // message_start carries the prompt tokens, message_delta the running output count
+  message?: { usage?: MessagesUsage };
+  usage?: MessagesUsage;
+}
+
+const claudeModel: ModelCapabilities = { parameters: ['temperature', 'topP', 'maxTokens'], systemRole: true, jsonMode: false, jsonSchema: false, tools: true };
+
+// Map Messages API stop reasons onto the chat-completions vocabulary used elsewhere
+const stopReasons: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+};
+
+// Turn the tool-call conversation into Messages API turns. Tool results go back as
+// user messages, with results of the same assistant turn grouped into one message
+function buildMessages(userPrompt: string, conversation: ConversationTurn[] = []): Message[] {
+  const messages: Message[] = [{ role: 'user', content: [{ type: 'text', text: userPrompt }] }];
+  for (const turn of conversation) {
+    if (turn.role === 'assistant') {
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(turn.content ? [{ type: 'text', text: turn.content }] : []),
+          ...turn.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+    } else {
+      const result = { type: 'tool_result', tool_use_id: turn.toolCallId, content: turn.content };
+      const last = messages[messages.length - 1];
+      if (last.role === 'user' && last.content.every(block => block.type === 'tool_result')) {
+        last.content.push(result);
+      } else {
+        messages.push({ role: 'user', content: [result] });
+      }
+    }
+  }
+  return messages;
+}
+
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  models: [
+    { id: 'claude-3-7-sonnet-20250219', label: 'Claude 3.7 Sonnet', contextWindow: 200000, maxCompletionTokens: 8192, capabilities: claudeModel },
+    { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', contextWindow: 200000, maxCompletionTokens: 8192, capabilities: claudeModel },
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', contextWindow: 200000, maxCompletionTokens: 8192, capabilities: claudeModel },
+    { id: 'claude-3-opus-20240229', label: 'Claude 3 Opus', contextWindow: 200000, maxCompletionTokens: 4096, capabilities: claudeModel },
+  ],
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'Anthropic API Key',
+      placeholder: 'sk-ant-...',
+      secret: true,
+      helpUrl: 'https://console.anthropic.com/settings/keys'
+    }
+  ],
+  defaultCapabilities: claudeModel,
+  defaultRateLimits: { requestsPerMinute: 50, tokensPerMinute: 40000, maxConcurrent: 3 },
+  buildRequest: ({ model, systemPrompt, userPrompt, maxOutputTokens, capabilities, credentials, stream, params = {}, tools, conversation }) => ({
+    url: 'https://api.anthropic.com/v1/messages',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': credentials.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for calls made directly from the browser
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: {
+      model,
+      // Anthropic takes the system prompt as a top-level field rather than a message role
+      ...(systemPrompt ? { system: systemPrompt } : {}),
+      messages: buildMessages(userPrompt, conversation),
+      ...(tools?.length
+        ? { tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })) }
+        : {}),
+      ...(capabilities.parameters.includes('temperature') ? { temperature: params.temperature ?? 0.7 } : {}),
+      ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+      // The Messages API requires max_tokens
+      max_tokens: params.maxTokens ?? maxOutputTokens,
+      ...(stream ? { stream: true } : {}),
+    },
+    expectsJson: false
+  }),
+  parseResponse: (data) => {
+    const { content, stop_reason, usage } = data as MessagesResponse;
+    if (!Array.isArray(content)) {
+      throw new Error('Invalid response structure');
+    }
+    // Responses are a list of content blocks; text blocks carry the answer, tool_use blocks the tool calls
+    const toolCalls = content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+    return {
+      content: content
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      finishReason: stopReasons[stop_reason] || stop_reason,
+      ...(toolCalls.length ? { toolCalls } : {}),
+      ...(usage ? { usage: { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens } } : {})
+    };
+  },
+  parseStreamEvent: (event) => {
+    const { type, delta, error, message, usage } = event as MessagesStreamEvent;
+    if (type === 'error') {
+      return { error: error?.message || 'Unknown streaming error' };
+    }
+    if (type === 'message_start' && message?.usage) {
+      return { usage: { promptTokens: message.usage.input_tokens } };
+    }
+    if (type === 'content_block_delta' && delta?.type === 'text_delta') {
+      return { delta: delta.text };
+    }
+    if (type === 'message_delta') {
+      return {
+        finishReason: delta?.stop_reason ? stopReasons[delta.stop_reason] || delta.stop_reason : undefined,
+        usage: usage ? { completionTokens: usage.output_tokens } : undefined
+      };
+    }
+    return {};
+  },
+};
@@ -0,0 +1,222 @@
+import { ProviderRequest, ProviderHttpRequest, ProviderResponse, ProviderStreamChunk, ProviderUsage, ToolCall } from './types';
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionsUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionsStreamEvent {
+  choices?: {
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  error?: { message?: string };
+  usage?: ChatCompletionsUsage | null;
+}
+
+interface ChatCompletionsResponse {
+  choices?: {
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason?: string;
+  }[];
+  usage?: ChatCompletionsUsage;
+}
+
+// Phrases that indicate the prompt wants a JSON answer
+const jsonFormatPatterns = [
+  'return json',
+  'respond in json',
+  'output in json',
+  'json format',
+  'json response',
+  'return a json',
+  'provide json',
+  'as json',
+  'json object'
+];
+
+function requestsJsonOutput(systemPrompt: string, userPrompt: string): boolean {
+  return jsonFormatPatterns.some(pattern => {
+    const inSystemPrompt = systemPrompt?.toLowerCase().includes(pattern);
+    const inUserPrompt = userPrompt.toLowerCase().includes(pattern);
+    if (inSystemPrompt || inUserPrompt) {
+      console.info(`JSON format detected: found pattern "${pattern}" in ${inSystemPrompt ? 'system prompt' : 'user prompt'}`);
+      return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Builds a request for any API speaking the OpenAI chat-completions format
+ * @param url Full chat-completions URL
+ * @param request Model, prompts, capabilities and credentials for this call
+ * @param extraBody Provider-specific fields merged into the body
+ * @param maxTokensField Body field that carries the agent's max tokens setting
+ */
+export function buildChatCompletionsRequest(
+  url: string,
+  request: ProviderRequest,
+  extraBody: Record<string, unknown> = {},
+  maxTokensField: string = 'max_tokens'
+): ProviderHttpRequest {
+  const { model, systemPrompt, userPrompt, capabilities, credentials, stream, params = {}, outputSchema, tools, conversation = [] } = request;
+  const messages: ChatMessage[] = [];
+
+  if (capabilities.systemRole) {
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    } else {
+      console.warn(`Standard model: No system prompt provided!`);
+    }
+    messages.push({ role: 'user', content: userPrompt });
+  } else {
+    // Models without a system role (o1/o3) get the system prompt as a user message prefix
+    messages.push({
+      role: 'user',
+      content: systemPrompt ? `${systemPrompt}\n\n${userPrompt}` : userPrompt
+    });
+    console.info(`No system role for ${model}: combined system+user prompt length: ${messages[0].content.length}`);
+  }
+
+  const body: Record<string, unknown> = { model, messages };
+
+  let expectsJson: boolean;
+  if (outputSchema && capabilities.jsonSchema) {
+    // Structured outputs make the model follow the agent's schema directly
+    body.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'agent_output', schema: outputSchema, strict: false }
+    };
+    expectsJson = true;
+    console.info('Requesting JSON schema response format');
+  } else {
+    // Without schema support, fall back to plain JSON mode (which only returns objects)
+    // for agents with an object schema or prompts asking for JSON
+    const wantsObject = outputSchema
+      ? outputSchema.type === undefined || outputSchema.type === 'object'
+      : requestsJsonOutput(systemPrompt, userPrompt);
+    expectsJson = capabilities.jsonMode && wantsObject;
+    if (expectsJson) {
+      body.response_format = { type: 'json_object' };
+      console.info('Requesting JSON response format');
+
+      // OpenAI requires the word "json" to be in the messages when using JSON response format
+      const containsJsonWord = messages.some(msg => msg.content.toLowerCase().includes('json'));
+      if (!containsJsonWord) {
+        console.info('Adding "json" requirement to the user message to satisfy the API');
+        const userMessage = messages.find(msg => msg.role === 'user') || messages[messages.length - 1];
+        userMessage.content += '\n\nPlease provide your response in JSON format.';
+      }
+    }
+  }
+
+  if (tools?.length) {
+    body.tools = tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+  }
+
+  // Replay earlier tool calls and their results so the model can continue from them
+  for (const turn of conversation) {
+    if (turn.role === 'assistant') {
+      messages.push({
+        role: 'assistant',
+        content: turn.content || null,
+        tool_calls: turn.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      });
+    } else {
+      messages.push({ role: 'tool', tool_call_id: turn.toolCallId, content: turn.content });
+    }
+  }
+
+  if (capabilities.parameters.includes('temperature')) {
+    body.temperature = params.temperature ?? 0.7;
+  }
+  if (params.topP !== undefined) body.top_p = params.topP;
+  if (params.maxTokens !== undefined) body[maxTokensField] = params.maxTokens;
+  if (params.frequencyPenalty !== undefined) body.frequency_penalty = params.frequencyPenalty;
+  if (params.presencePenalty !== undefined) body.presence_penalty = params.presencePenalty;
+  if (params.seed !== undefined) body.seed = params.seed;
+
+  if (stream) {
+    body.stream = true;
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (credentials.apiKey) {
+    headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+  }
+
+  return {
+    url,
+    headers,
+    body: { ...body, ...extraBody },
+    expectsJson
+  };
+}
+
+/**
+ * Reads the first choice of a chat-completions response
+ */
+export function parseChatCompletionsResponse(data: unknown): ProviderResponse {
+  const { choices, usage } = (data as ChatCompletionsResponse) || {};
+  if (!choices || !choices.length) {
+    throw new Error('Invalid response structure');
+  }
+  const toolCalls = choices[0]?.message?.tool_calls?.map(parseChatToolCall);
+  return {
+    content: choices[0]?.message?.content || '',
+    finishReason: choices[0]?.finish_reason,
+    ...(toolCalls?.length ? { toolCalls } : {}),
+    ...(usage ? { usage: parseChatUsage(usage) } : {})
+  };
+}
+
+function parseChatUsage(usage: ChatCompletionsUsage): ProviderUsage {
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+// Tool arguments arrive as a JSON string; malformed arguments are passed on as empty
+function parseChatToolCall(call: ChatToolCall): ToolCall {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch (error) {
+    console.warn(`Could not parse arguments for tool call ${call.function.name}: ${call.function.arguments}`);
+  }
+  return { id: call.id, name: call.function.name, arguments: args };
+}
+
+/**
+ * Reads one `data:` event of a streamed chat-completions response
+ */
+export function parseChatCompletionsStreamEvent(event: unknown): ProviderStreamChunk {
+  const { choices, error, usage } = event as ChatCompletionsStreamEvent;
+  if (error) {
+    return { error: error.message || 'Unknown streaming error' };
+  }
+  return {
+    delta: choices?.[0]?.delta?.content || undefined,
+    finishReason: choices?.[0]?.finish_reason || undefined,
+    usage: usage ? parseChatUsage(usage) : undefined
+  };
+}
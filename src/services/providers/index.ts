@@ -0,0 +1,73 @@
+import { AIModel, AIProvider, GenerationParamName, GenerationParams } from '@/types/agent';
+import { ModelCapabilities, ModelInfo, ProviderAdapter } from './types';
+import { openaiProvider } from './openai';
+import { perplexityProvider } from './perplexity';
+import { anthropicProvider } from './anthropic';
+import { localProvider } from './local';
+
+export type { ModelCapabilities, ModelInfo, ProviderAdapter, ProviderHttpRequest, ProviderResponse, ProviderUsage, CredentialField, RateLimitSettings, ToolSpec, ToolCall, ConversationTurn } from './types';
+
+// Registration order is the order providers are listed in the UI
+const providers: Record<AIProvider, ProviderAdapter> = {
+  openai: openaiProvider,
+  perplexity: perplexityProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+/**
+ * Get the adapter for a provider, or undefined if the provider is unknown
+ */
+export function getProviderAdapter(provider: string): ProviderAdapter | undefined {
+  return providers[provider as AIProvider];
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Object.values(providers);
+}
+
+/**
+ * Find the declared limits and capabilities of a model across all providers
+ */
+export function findModelInfo(model: AIModel | string): ModelInfo | undefined {
+  for (const adapter of listProviderAdapters()) {
+    const info = adapter.models.find(m => m.id === model);
+    if (info) return info;
+  }
+  return undefined;
+}
+
+/**
+ * Get the provider's declared model with the largest context window, keeping the given model
+ * unless one is larger (and for providers that declare none, such as local endpoints)
+ */
+export function getLargestContextModel(provider: string, model: AIModel): AIModel {
+  const models = getProviderAdapter(provider)?.models || [];
+  const ownContext = models.find(m => m.id === model)?.contextWindow ?? 0;
+  const largest = models.reduce<ModelInfo | undefined>(
+    (best, info) => info.contextWindow > (best?.contextWindow ?? ownContext) ? info : best,
+    undefined
+  );
+  return largest?.id ?? model;
+}
+
+/**
+ * Get the capabilities of a model, falling back to the provider defaults for unlisted models
+ */
+export function getModelCapabilities(provider: string, model: AIModel | string): ModelCapabilities {
+  const adapter = getProviderAdapter(provider);
+  const info = adapter?.models.find(m => m.id === model);
+  return info?.capabilities || adapter?.defaultCapabilities || { parameters: ['temperature', 'maxTokens'], systemRole: true, jsonMode: false, jsonSchema: false, tools: false };
+}
+
+/**
+ * Drop generation settings the model does not accept, returning undefined when none are left
+ */
+export function getSupportedParams(params: GenerationParams | undefined, capabilities: ModelCapabilities): GenerationParams | undefined {
+  const supported = Object.entries(params || {})
+    .filter(([name, value]) => value !== undefined && value !== null && capabilities.parameters.includes(name as GenerationParamName));
+  return supported.length > 0 ? Object.fromEntries(supported) : undefined;
+}
@@ -0,0 +1,53 @@
+import { ModelCapabilities, ProviderAdapter } from './types';
+import { buildChatCompletionsRequest, parseChatCompletionsResponse, parseChatCompletionsStreamEvent } from './chatCompletions';
+
+const localModel: ModelCapabilities = {
+  parameters: ['temperature', 'topP', 'maxTokens', 'frequencyPenalty', 'presencePenalty', 'seed'],
+  systemRole: true,
+  jsonMode: true,
+  // Support for response_format json_schema and function calling varies between servers
+  jsonSchema: false,
+  tools: false
+};
+
+/**
+ * Any self-hosted server exposing the OpenAI chat-completions API (Ollama, llama.cpp, vLLM, ...)
+ */
+export const localProvider: ProviderAdapter = {
+  id: 'local',
+  label: 'OpenAI-Compatible (Local)',
+  // Model names are whatever the server serves, configured in Settings
+  models: [],
+  credentialFields: [
+    {
+      key: 'baseUrl',
+      label: 'Base URL',
+      placeholder: 'http://localhost:11434/v1',
+      secret: false,
+      helpText: 'Any server exposing /chat/completions, such as Ollama, llama.cpp or vLLM'
+    },
+    {
+      key: 'model',
+      label: 'Model',
+      placeholder: 'Model name, e.g. llama3.1',
+      secret: false
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'API key (optional)',
+      secret: true,
+      optional: true
+    }
+  ],
+  defaultCapabilities: localModel,
+  // Local servers usually work through one request at a time
+  defaultRateLimits: { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 1 },
+  configuredModelField: 'model',
+  buildRequest: (request) => buildChatCompletionsRequest(
+    `${request.credentials.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    request
+  ),
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+};
@@ -0,0 +1,47 @@
+import { ModelCapabilities, ProviderAdapter } from './types';
+import { buildChatCompletionsRequest, parseChatCompletionsResponse, parseChatCompletionsStreamEvent } from './chatCompletions';
+
+const chatModel: ModelCapabilities = {
+  parameters: ['temperature', 'topP', 'maxTokens', 'frequencyPenalty', 'presencePenalty', 'seed'],
+  systemRole: true,
+  jsonMode: true,
+  jsonSchema: true,
+  tools: true
+};
+// Reasoning models reject sampling settings and the system role
+const reasoningModel: ModelCapabilities = { parameters: ['maxTokens', 'seed'], systemRole: false, jsonMode: true, jsonSchema: true, tools: true };
+// o1-mini predates structured outputs and function calling
+const legacyReasoningModel: ModelCapabilities = { ...reasoningModel, jsonSchema: false, tools: false };
+
+export const openaiProvider: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI',
+  models: [
+    { id: 'gpt-4.5-preview', label: 'GPT-4.5 Preview', contextWindow: 128000, maxCompletionTokens: 3500, capabilities: chatModel },
+    { id: 'gpt-4o', label: 'GPT-4o', contextWindow: 128000, maxCompletionTokens: 3500, capabilities: chatModel },
+    { id: 'o1-mini', label: 'O1-mini', contextWindow: 32768, maxCompletionTokens: 8192, capabilities: legacyReasoningModel },
+    { id: 'o3-mini', label: 'O3-mini', contextWindow: 32768, maxCompletionTokens: 8192, capabilities: reasoningModel },
+  ],
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'OpenAI API Key',
+      placeholder: 'sk-...',
+      secret: true,
+      helpUrl: 'https://platform.openai.com/account/api-keys'
+    }
+  ],
+  defaultCapabilities: chatModel,
+  defaultRateLimits: { requestsPerMinute: 500, tokensPerMinute: 30000, maxConcurrent: 3 },
+  // Token limit parameters are optional for OpenAI, so one is only sent when the agent sets it.
+  // max_tokens is deprecated there and rejected by reasoning models
+  // Streamed responses only report token usage when asked to
+  buildRequest: (request) => buildChatCompletionsRequest(
+    'https://api.openai.com/v1/chat/completions',
+    request,
+    request.stream ? { stream_options: { include_usage: true } } : {},
+    'max_completion_tokens'
+  ),
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+};
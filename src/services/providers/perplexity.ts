@@ -0,0 +1,38 @@
+import { ModelCapabilities, ProviderAdapter } from './types';
+import { buildChatCompletionsRequest, parseChatCompletionsResponse, parseChatCompletionsStreamEvent } from './chatCompletions';
+
+const sonarModel: ModelCapabilities = {
+  parameters: ['temperature', 'topP', 'maxTokens', 'frequencyPenalty', 'presencePenalty'],
+  systemRole: true,
+  jsonMode: false,
+  jsonSchema: false,
+  tools: false
+};
+
+export const perplexityProvider: ProviderAdapter = {
+  id: 'perplexity',
+  label: 'Perplexity',
+  models: [
+    { id: 'sonar-deep-research', label: 'Sonar Deep Research', contextWindow: 128000, maxCompletionTokens: 4096, capabilities: sonarModel },
+    { id: 'sonar-reasoning-pro', label: 'Sonar Reasoning Pro', contextWindow: 128000, maxCompletionTokens: 4096, capabilities: sonarModel },
+    { id: 'sonar-reasoning', label: 'Sonar Reasoning', contextWindow: 128000, maxCompletionTokens: 4096, capabilities: sonarModel },
+    { id: 'sonar-pro', label: 'Sonar Pro', contextWindow: 200000, maxCompletionTokens: 4096, capabilities: sonarModel },
+    { id: 'sonar', label: 'Sonar', contextWindow: 128000, maxCompletionTokens: 4096, capabilities: sonarModel },
+  ],
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'Perplexity API Key',
+      placeholder: 'pplx-...',
+      secret: true,
+      helpUrl: 'https://www.perplexity.ai/settings/api'
+    }
+  ],
+  defaultCapabilities: sonarModel,
+  defaultRateLimits: { requestsPerMinute: 50, tokensPerMinute: 0, maxConcurrent: 3 },
+  buildRequest: (request) => buildChatCompletionsRequest('https://api.perplexity.ai/chat/completions', request, {
+    max_tokens: request.params?.maxTokens ?? 1000, // Perplexity API uses max_tokens
+  }),
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+};
@@ -0,0 +1,164 @@
+import { AIModel, AIProvider, GenerationParamName, GenerationParams, JsonSchema } from '@/types/agent';
+
+/**
+ * Request parameters a model may or may not accept
+ */
+export interface ModelCapabilities {
+  // Generation parameters the model accepts (reasoning models such as o1/o3 reject sampling settings)
+  parameters: GenerationParamName[];
+  // Accepts a dedicated system role/field; otherwise the system prompt is folded into the user message
+  systemRole: boolean;
+  // Can be asked to return a JSON object
+  jsonMode: boolean;
+  // Can be given a JSON Schema the answer must follow
+  jsonSchema: boolean;
+  // Can call tools (function calling)
+  tools: boolean;
+}
+
+/**
+ * Static description of a model offered by a provider
+ */
+export interface ModelInfo {
+  id: AIModel;
+  label: string;
+  contextWindow: number;
+  maxCompletionTokens: number;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Client-side request limits for a provider. A value of 0 means "no limit".
+ */
+export interface RateLimitSettings {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  // Requests allowed to be in flight at the same time
+  maxConcurrent: number;
+}
+
+/**
+ * A value the user has to configure in Settings before the provider can be used.
+ * The `apiKey` field is stored encrypted in the store's apiKey slot; any other
+ * field is stored as a plain provider setting.
+ */
+export interface CredentialField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  // Rendered as a password input
+  secret: boolean;
+  optional?: boolean;
+  helpText?: string;
+  helpUrl?: string;
+}
+
+/**
+ * A tool the model may call, described by a JSON Schema for its arguments
+ */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Turns that follow the user prompt while the model is working through tool calls
+ */
+export type ConversationTurn =
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+/**
+ * Everything an adapter needs to build a request for one completion
+ */
+export interface ProviderRequest {
+  model: AIModel;
+  systemPrompt: string;
+  userPrompt: string;
+  maxOutputTokens: number;
+  capabilities: ModelCapabilities;
+  credentials: Record<string, string>;
+  // Ask for the answer as a server-sent event stream
+  stream: boolean;
+  // Agent generation settings, already narrowed to the ones the model supports
+  params?: GenerationParams;
+  // Schema the answer has to follow
+  outputSchema?: JsonSchema;
+  // Tools the model may call
+  tools?: ToolSpec[];
+  // Tool calls and their results so far, appended after the user prompt
+  conversation?: ConversationTurn[];
+}
+
+/**
+ * Provider-specific HTTP request produced by an adapter
+ */
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  // Whether the body asks the model for a JSON object
+  expectsJson: boolean;
+}
+
+// Token counts reported by the provider; either may be missing
+export interface ProviderUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * Provider response normalized to what the rest of the app needs
+ */
+export interface ProviderResponse {
+  content: string;
+  // Normalized to the chat-completions vocabulary ('stop', 'length', 'content_filter', 'tool_calls', ...)
+  finishReason?: string;
+  // Tools the model wants called before it answers
+  toolCalls?: ToolCall[];
+  usage?: ProviderUsage;
+}
+
+/**
+ * One parsed event of a streamed response
+ */
+export interface ProviderStreamChunk {
+  // Newly generated text, if any
+  delta?: string;
+  finishReason?: string;
+  // Set when the provider reports a failure mid-stream
+  error?: string;
+  // Token counts, usually sent with the first or last event of the stream
+  usage?: ProviderUsage;
+}
+
+/**
+ * Everything the app needs to know about a provider. Adding a provider means writing
+ * one of these and registering it in providers/index.ts.
+ */
+export interface ProviderAdapter {
+  id: AIProvider;
+  label: string;
+  models: ModelInfo[];
+  credentialFields: CredentialField[];
+  // Capabilities assumed for model names not listed in `models`
+  defaultCapabilities: ModelCapabilities;
+  // If set, the model is free text read from this credential field instead of chosen per agent
+  configuredModelField?: string;
+  // Limits used until the user configures their own in Settings
+  defaultRateLimits: RateLimitSettings;
+  buildRequest: (request: ProviderRequest) => ProviderHttpRequest;
+  parseResponse: (data: unknown) => ProviderResponse;
+  // Parse one server-sent event; providers without it never stream
+  parseStreamEvent?: (event: unknown) => ProviderStreamChunk;
+}
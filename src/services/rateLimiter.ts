@@ -0,0 +1,187 @@
+import { RateLimitSettings } from './providers';
+
+/**
+ * A request waiting for capacity
+ */
+interface Waiter {
+  tokens: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token buckets and in-flight count for one provider
+ */
+interface ProviderBucket {
+  limits: RateLimitSettings;
+  // Request slots left in the per-minute bucket
+  availableRequests: number;
+  // Tokens left in the per-minute bucket
+  availableTokens: number;
+  lastRefill: number;
+  active: number;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Client-side rate limiter with a requests-per-minute and a tokens-per-minute
+ * token bucket plus a concurrency cap for every provider. Waiting requests are
+ * served in arrival order.
+ */
+class RateLimiter {
+  private static instance: RateLimiter;
+  private buckets: Map<string, ProviderBucket> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton limiter instance
+   */
+  public static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter();
+    }
+    return RateLimiter.instance;
+  }
+
+  /**
+   * Wait until the provider has capacity for a request
+   * @param provider Provider the request goes to
+   * @param limits Current limits for the provider
+   * @param tokens Estimated tokens the request will use (prompt plus completion)
+   * @param signal Stops waiting when aborted
+   * @returns Function that must be called once the request has finished
+   */
+  public acquire(provider: string, limits: RateLimitSettings, tokens: number, signal?: AbortSignal): Promise<() => void> {
+    const bucket = this.getBucket(provider, limits);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortError());
+        return;
+      }
+
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          bucket.queue = bucket.queue.filter(queued => queued !== waiter);
+          reject(this.abortError());
+          this.drain(provider);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      bucket.queue.push(waiter);
+      this.drain(provider);
+    });
+  }
+
+  /**
+   * Number of requests currently waiting for a provider
+   */
+  public getQueueLength(provider: string): number {
+    return this.buckets.get(provider)?.queue.length || 0;
+  }
+
+  /**
+   * Forget all buckets, e.g. after the limits were changed
+   */
+  public reset(): void {
+    this.buckets.forEach(bucket => clearTimeout(bucket.timer));
+    this.buckets.clear();
+  }
+
+  private getBucket(provider: string, limits: RateLimitSettings): ProviderBucket {
+    let bucket = this.buckets.get(provider);
+    if (!bucket) {
+      bucket = {
+        limits,
+        availableRequests: limits.requestsPerMinute,
+        availableTokens: limits.tokensPerMinute,
+        lastRefill: Date.now(),
+        active: 0,
+        queue: []
+      };
+      this.buckets.set(provider, bucket);
+    } else {
+      this.refill(bucket);
+      bucket.limits = limits;
+      // Keep the buckets within the (possibly lowered) capacity
+      bucket.availableRequests = Math.min(bucket.availableRequests, limits.requestsPerMinute);
+      bucket.availableTokens = Math.min(bucket.availableTokens, limits.tokensPerMinute);
+    }
+    return bucket;
+  }
+
+  // Top up both buckets for the time that passed since the last refill
+  private refill(bucket: ProviderBucket): void {
+    const now = Date.now();
+    const elapsedMinutes = (now - bucket.lastRefill) / 60000;
+    const { requestsPerMinute, tokensPerMinute } = bucket.limits;
+    bucket.availableRequests = Math.min(requestsPerMinute, bucket.availableRequests + elapsedMinutes * requestsPerMinute);
+    bucket.availableTokens = Math.min(tokensPerMinute, bucket.availableTokens + elapsedMinutes * tokensPerMinute);
+    bucket.lastRefill = now;
+  }
+
+  // Start as many queued requests as the limits allow, then schedule a wake-up for the rest
+  private drain(provider: string): void {
+    const bucket = this.buckets.get(provider);
+    if (!bucket) return;
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+
+    while (bucket.queue.length > 0) {
+      const { requestsPerMinute, tokensPerMinute, maxConcurrent } = bucket.limits;
+
+      // A slot frees up when a running request releases it
+      if (maxConcurrent > 0 && bucket.active >= maxConcurrent) return;
+
+      this.refill(bucket);
+      const waiter = bucket.queue[0];
+      // A request larger than the whole bucket would never fit, so it only waits for a full bucket
+      const tokens = tokensPerMinute > 0 ? Math.min(waiter.tokens, tokensPerMinute) : 0;
+
+      const requestWaitMs = requestsPerMinute > 0 && bucket.availableRequests < 1
+        ? (1 - bucket.availableRequests) / requestsPerMinute * 60000
+        : 0;
+      const tokenWaitMs = tokensPerMinute > 0 && bucket.availableTokens < tokens
+        ? (tokens - bucket.availableTokens) / tokensPerMinute * 60000
+        : 0;
+      const waitMs = Math.ceil(Math.max(requestWaitMs, tokenWaitMs));
+
+      if (waitMs > 0) {
+        console.info(`Rate limit reached for ${provider}, waiting ${waitMs}ms (${bucket.queue.length} queued)`);
+        bucket.timer = setTimeout(() => this.drain(provider), waitMs);
+        return;
+      }
+
+      if (requestsPerMinute > 0) bucket.availableRequests -= 1;
+      if (tokensPerMinute > 0) bucket.availableTokens -= tokens;
+      bucket.active++;
+      bucket.queue.shift();
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        bucket.active--;
+        this.drain(provider);
+      });
+    }
+  }
+
+  private abortError(): Error {
+    const error = new Error('Request was cancelled while waiting for the rate limiter');
+    error.name = 'AbortError';
+    return error;
+  }
+}
+
+// Export a singleton instance
+export const rateLimiter = RateLimiter.getInstance();
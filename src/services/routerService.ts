@@ -0,0 +1,113 @@
+import { JsonComparison, JsonSchema, RouteCondition, RouterConfig } from '@/types/agent';
+import { extractJson } from '@/utils/jsonSchema';
+import { queryJson } from './tools/jsonQuery';
+
+// Handle of the route a router takes when no other route matches
+export const ELSE_ROUTE_ID = 'else';
+
+/**
+ * Picks one of the labels for an input; used by classification routes
+ */
+export type Classifier = (input: string, labels: string[]) => Promise<string | null>;
+
+// JSON values compare as their JSON text, strings as themselves, so `true`, `3` and `approved` all work
+const valueText = (value: unknown): string => typeof value === 'string' ? value : JSON.stringify(value);
+
+function compareJson(actual: unknown, operator: JsonComparison, expected: string = ''): boolean {
+  const expectedText = expected.trim();
+  switch (operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'equals':
+      return actual !== undefined && valueText(actual) === expectedText;
+    case 'notEquals':
+      return valueText(actual) !== expectedText;
+    case 'greaterThan':
+    case 'lessThan': {
+      const actualNumber = Number(actual);
+      const expectedNumber = Number(expectedText);
+      if (actual === null || actual === '' || !isFinite(actualNumber) || !isFinite(expectedNumber)) return false;
+      return operator === 'greaterThan' ? actualNumber > expectedNumber : actualNumber < expectedNumber;
+    }
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => valueText(item) === expectedText);
+      return typeof actual === 'string' && actual.includes(expectedText);
+  }
+}
+
+/**
+ * Check a route condition that doesn't need a model
+ * @param condition Contains, regex or JSON condition
+ * @param input Text the router received
+ * @returns Whether the route matches
+ * @throws Error when a regex pattern is invalid
+ */
+export function evaluateCondition(condition: Exclude<RouteCondition, { type: 'classify' }>, input: string): boolean {
+  switch (condition.type) {
+    case 'contains':
+      return condition.caseSensitive
+        ? input.includes(condition.text)
+        : input.toLowerCase().includes(condition.text.toLowerCase());
+    case 'regex':
+      try {
+        return new RegExp(condition.pattern, condition.flags).test(input);
+      } catch (error) {
+        throw new Error(`Invalid route pattern /${condition.pattern}/: ${error.message}`);
+      }
+    case 'json': {
+      let data: unknown;
+      try {
+        data = extractJson(input);
+      } catch (error) {
+        console.warn('Router input is not JSON, JSON route does not match');
+        return false;
+      }
+      return compareJson(queryJson(data, condition.path), condition.operator, condition.value);
+    }
+  }
+}
+
+/**
+ * Schema that makes a classifier answer with exactly one of the labels
+ */
+export function getClassificationSchema(labels: string[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: { label: { type: 'string', enum: labels } },
+    required: ['label'],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Evaluate a router's routes in order
+ * @param config Router configuration
+ * @param input Text the router received
+ * @param classify Classifier for classification routes; only called when the router has one
+ * @returns Ids of the selected routes, or the else route when none matched
+ */
+export async function selectRoutes(config: RouterConfig, input: string, classify: Classifier): Promise<string[]> {
+  const classifyLabels = config.routes
+    .filter(route => route.condition.type === 'classify')
+    .map(route => (route.condition as { label: string }).label);
+  // Every classification route shares one classification of the input
+  let classification: Promise<string | null> | undefined;
+
+  const selected: string[] = [];
+  for (const route of config.routes) {
+    let matches: boolean;
+    if (route.condition.type === 'classify') {
+      classification = classification || classify(input, [...new Set(classifyLabels)]);
+      matches = (await classification) === route.condition.label;
+    } else {
+      matches = evaluateCondition(route.condition, input);
+    }
+
+    if (matches) {
+      selected.push(route.id);
+      if (!config.matchAll) break;
+    }
+  }
+
+  return selected.length > 0 ? selected : [ELSE_ROUTE_ID];
+}
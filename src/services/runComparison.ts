@@ -0,0 +1,128 @@
+import { AgentExecutionResult, AgentNode } from '@/types/agent';
+import { diffWords, DiffPart } from '@/utils/textDiff';
+import { NodeRunRecord, Run } from './runHistory';
+import { AGENT_CONFIG_FIELDS } from './workflowEngine';
+
+/**
+ * A setting or input of a node that differs between two runs
+ */
+export interface NodeChange {
+  // e.g. "systemPrompt", "model" or "inputs"
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * How one node differs between two runs
+ */
+export interface NodeComparison {
+  nodeId: string;
+  label: string;
+  // Undefined when the node wasn't on the canvas or didn't run
+  statusBefore?: AgentExecutionResult['status'];
+  statusAfter?: AgentExecutionResult['status'];
+  // Agent settings and node inputs that changed, which explain changes in the output
+  changes: NodeChange[];
+  inputDiff: DiffPart[];
+  outputDiff: DiffPart[];
+  // Whether anything about the node differs
+  changed: boolean;
+}
+
+// Settings are compared as text, so objects like generation params and schemas show readably
+const describeValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+const hasDifference = (parts: DiffPart[]) => parts.some(part => part.type !== 'equal');
+
+/**
+ * Whether two runs were made on the same canvas, i.e. share at least one node
+ */
+export function isSameCanvas(first: Run, second: Run): boolean {
+  const firstIds = new Set(first.snapshot.nodes.map(node => node.id));
+  return second.snapshot.nodes.some(node => firstIds.has(node.id));
+}
+
+// Agent settings and inputs of a node as they were in a run
+function describeNodeConfig(run: Run, node: AgentNode | undefined): Record<string, string> {
+  if (!node) return {};
+  const agent = node.data.agentId ? run.snapshot.agents.find(a => a.id === node.data.agentId) : undefined;
+  const config: Record<string, string> = { inputs: node.data.inputs.join('\n\n') };
+  if (node.data.router) {
+    config.router = describeValue(node.data.router);
+  }
+  if (node.data.map) {
+    config.map = describeValue(node.data.map);
+  }
+  if (node.data.reduce) {
+    config.reduce = describeValue(node.data.reduce);
+  }
+  if (node.data.approval) {
+    config.approval = describeValue(node.data.approval);
+  }
+  if (node.data.errorPolicy) {
+    config.errorPolicy = describeValue(node.data.errorPolicy);
+  }
+  if (agent) {
+    config.agent = agent.name;
+    for (const field of AGENT_CONFIG_FIELDS) {
+      config[field] = describeValue(agent[field]);
+    }
+    if (agent.fallbackModels) {
+      config.fallbackModels = describeValue(agent.fallbackModels);
+    }
+    if (agent.timeoutSeconds) {
+      config.timeoutSeconds = describeValue(agent.timeoutSeconds);
+    }
+  }
+  return config;
+}
+
+/**
+ * Compare two runs node by node: word-level diffs of combined inputs and outputs, plus the
+ * agent settings and node inputs that changed
+ * @param before The older run
+ * @param after The newer run
+ * @returns One entry per node on either canvas, in the newer run's canvas order
+ */
+export function compareRuns(before: Run, after: Run): NodeComparison[] {
+  const nodeIds = [
+    ...after.snapshot.nodes.map(node => node.id),
+    ...before.snapshot.nodes.map(node => node.id).filter(id => !after.snapshot.nodes.some(node => node.id === id))
+  ];
+
+  return nodeIds.map(nodeId => {
+    const nodeBefore = before.snapshot.nodes.find(node => node.id === nodeId);
+    const nodeAfter = after.snapshot.nodes.find(node => node.id === nodeId);
+    const recordBefore: NodeRunRecord | undefined = before.nodes[nodeId];
+    const recordAfter: NodeRunRecord | undefined = after.nodes[nodeId];
+
+    const configBefore = describeNodeConfig(before, nodeBefore);
+    const configAfter = describeNodeConfig(after, nodeAfter);
+    const fields = [...new Set([...Object.keys(configBefore), ...Object.keys(configAfter)])];
+    const changes = fields
+      .filter(field => (configBefore[field] || '') !== (configAfter[field] || ''))
+      .map(field => ({ field, before: configBefore[field] || '', after: configAfter[field] || '' }));
+
+    const inputDiff = diffWords(recordBefore?.input || '', recordAfter?.input || '');
+    const outputDiff = diffWords(recordBefore?.output || '', recordAfter?.output || '');
+
+    return {
+      nodeId,
+      label: (nodeAfter || nodeBefore).data.label,
+      statusBefore: recordBefore?.status,
+      statusAfter: recordAfter?.status,
+      changes,
+      inputDiff,
+      outputDiff,
+      changed: changes.length > 0
+        || hasDifference(inputDiff)
+        || hasDifference(outputDiff)
+        || recordBefore?.status !== recordAfter?.status
+    };
+  });
+}
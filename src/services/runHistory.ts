@@ -0,0 +1,196 @@
+import { AgentExecutionResult } from '@/types/agent';
+import { RunScope, RunStatus, WorkflowEvent, WorkflowGraph } from './workflowEngine';
+
+/**
+ * What happened to one node during a run
+ */
+export interface NodeRunRecord extends AgentExecutionResult {
+  // Effective system prompt and combined input an agent node sent
+  systemPrompt?: string;
+  input?: string;
+  // Epoch milliseconds; unset for nodes that didn't run
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * A canvas run as it executed, kept in the run history
+ */
+export interface Run {
+  id: string;
+  // Epoch milliseconds
+  startedAt: number;
+  finishedAt?: number;
+  status: RunStatus | 'running';
+  // Why the run was halted or rejected
+  reason?: string;
+  scope: RunScope;
+  incremental: boolean;
+  // The canvas as it was when the run started
+  snapshot: WorkflowGraph;
+  nodes: Record<string, NodeRunRecord>;
+  // Totals over every provider call of the run
+  tokens: number;
+  cost: number;
+}
+
+const DB_NAME = 'swarmweaver';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+
+// Oldest runs are deleted once the history holds more than this
+export const MAX_STORED_RUNS = 100;
+
+/**
+ * Builds a Run from the events of a workflow engine. Subscribe `handleEvent` before the run starts.
+ */
+export class RunRecorder {
+  private run: Run;
+
+  constructor(graph: WorkflowGraph, scope: RunScope = { type: 'all' }, incremental: boolean = false) {
+    this.run = {
+      id: `run-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+      startedAt: Date.now(),
+      status: 'running',
+      scope,
+      incremental,
+      // Copy the canvas so later edits don't change the record
+      snapshot: JSON.parse(JSON.stringify(graph)),
+      nodes: {},
+      tokens: 0,
+      cost: 0
+    };
+  }
+
+  public handleEvent = (event: WorkflowEvent): void => {
+    const now = Date.now();
+    switch (event.type) {
+      case 'nodeStarted':
+        this.updateNode(event.nodeId, { status: 'running', output: '', startedAt: now });
+        break;
+      case 'nodeInput':
+        this.updateNode(event.nodeId, { systemPrompt: event.systemPrompt, input: event.input });
+        break;
+      case 'nodeCompleted':
+      case 'nodeFailed':
+      case 'nodeCancelled':
+      case 'nodeSkipped':
+      case 'nodeReused': {
+        const { partialOutput, ...result } = event.result;
+        const startedAt = this.run.nodes[event.nodeId]?.startedAt;
+        this.updateNode(event.nodeId, { ...result, finishedAt: startedAt !== undefined ? now : undefined });
+        break;
+      }
+      case 'usage':
+        this.run.tokens += event.usage.promptTokens + event.usage.completionTokens;
+        this.run.cost += event.usage.cost;
+        break;
+      case 'runFinished':
+        this.run.status = event.summary.status;
+        this.run.reason = event.summary.reason;
+        this.run.finishedAt = now;
+        break;
+    }
+  };
+
+  public getRun(): Run {
+    return this.run;
+  }
+
+  private updateNode(nodeId: string, update: Partial<NodeRunRecord>): void {
+    const current = this.run.nodes[nodeId] || { nodeId, output: '', status: 'pending' };
+    this.run.nodes[nodeId] = { ...current, ...update };
+  }
+}
+
+/**
+ * Past runs, stored in IndexedDB so they survive reloads
+ */
+class RunHistory {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Store a run, deleting the oldest runs beyond MAX_STORED_RUNS
+   */
+  public async saveRun(run: Run): Promise<void> {
+    await this.request('readwrite', store => store.put(run));
+
+    const runs = await this.listRuns();
+    for (const oldRun of runs.slice(MAX_STORED_RUNS)) {
+      await this.request('readwrite', store => store.delete(oldRun.id));
+    }
+    console.info(`Saved run ${run.id} to the run history`);
+    this.notify();
+  }
+
+  /**
+   * All stored runs, newest first
+   */
+  public async listRuns(): Promise<Run[]> {
+    const runs = await this.request<Run[]>('readonly', store => store.getAll());
+    return runs.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  public async getRun(id: string): Promise<Run | undefined> {
+    return this.request<Run | undefined>('readonly', store => store.get(id));
+  }
+
+  public async deleteRun(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+    this.notify();
+  }
+
+  public async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+    this.notify();
+  }
+
+  /**
+   * Get notified whenever runs are saved or deleted
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(RUN_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Try again on the next call instead of keeping a failed connection
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(RUN_STORE, mode).objectStore(RUN_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const runHistory = new RunHistory();
@@ -0,0 +1,136 @@
+import { ToolDefinition } from './types';
+
+const functions: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  log: Math.log,
+  log10: Math.log10,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const constants: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluate an arithmetic expression without eval, using a small recursive descent parser.
+ * Supports + - * / % ^, parentheses, unary minus, the functions above and pi/e.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|[-+*/%^(),]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in expression: ${expression}`);
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in expression: ${expression}`);
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := power (("*" | "/" | "%") power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // power := unary ("^" power)?  (right associative)
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  // unary := "-" unary | primary
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  // primary := number | constant | function "(" args ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of expression: ${expression}`);
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (name in constants) return constants[name];
+    if (name in functions) {
+      expect('(');
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        next();
+        args.push(parseExpression());
+      }
+      expect(')');
+      return functions[name](...args);
+    }
+    throw new Error(`Unknown name "${token}" in expression`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in expression: ${expression}`);
+  }
+  return result;
+}
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, abs, round, floor, ceil, log, log10, exp, sin, cos, tan, min, max and pow.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "(3 + 4) * sqrt(16)"' }
+    },
+    required: ['expression']
+  },
+  execute: ({ expression }) => {
+    const result = evaluateExpression(String(expression));
+    if (!isFinite(result)) {
+      throw new Error(`Expression does not have a finite result: ${expression}`);
+    }
+    return String(result);
+  },
+};
@@ -0,0 +1,72 @@
+import { ToolDefinition } from './types';
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Length of each fixed-size unit in milliseconds (months and years are handled by the calendar)
+const unitMs: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function parseDate(value: unknown, field: string): Date {
+  const date = value === undefined || value === '' ? new Date() : new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return date;
+}
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date.getTime());
+  if (unit === 'months') {
+    result.setUTCMonth(result.getUTCMonth() + amount);
+  } else if (unit === 'years') {
+    result.setUTCFullYear(result.getUTCFullYear() + amount);
+  } else {
+    result.setTime(result.getTime() + amount * unitMs[unit]);
+  }
+  return result;
+}
+
+function differenceBetween(from: Date, to: Date, unit: string): number {
+  if (unit === 'months' || unit === 'years') {
+    const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    return unit === 'months' ? months : Math.floor(months / 12);
+  }
+  return (to.getTime() - from.getTime()) / unitMs[unit];
+}
+
+export const dateMathTool: ToolDefinition = {
+  name: 'date_math',
+  label: 'Date Math',
+  description: 'Date arithmetic in UTC. "now" returns the current date and time, "add" adds an amount of a unit to a date, "difference" returns how many units lie between date and otherDate, "weekday" names the day of the week of a date. Dates are ISO 8601 strings; date defaults to now.',
+  parameters: {
+    type: 'object',
+    properties: {
+      operation: { type: 'string', enum: ['now', 'add', 'difference', 'weekday'] },
+      date: { type: 'string', description: 'ISO 8601 date, defaults to now' },
+      otherDate: { type: 'string', description: 'Second ISO 8601 date for "difference"' },
+      amount: { type: 'number', description: 'Amount to add for "add"; may be negative' },
+      unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] }
+    },
+    required: ['operation']
+  },
+  execute: ({ operation, date, otherDate, amount, unit = 'days' }) => {
+    const baseDate = parseDate(date, 'date');
+    switch (operation) {
+      case 'now':
+        return new Date().toISOString();
+      case 'add':
+        if (typeof amount !== 'number') throw new Error('"add" needs a numeric amount');
+        return addToDate(baseDate, amount, String(unit)).toISOString();
+      case 'difference':
+        return String(differenceBetween(baseDate, parseDate(otherDate, 'otherDate'), String(unit)));
+      case 'weekday':
+        return weekdays[baseDate.getUTCDay()];
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
+    }
+  },
+};
@@ -0,0 +1,31 @@
+import { ToolDefinition } from './types';
+import { calculatorTool } from './calculator';
+import { dateMathTool } from './dateMath';
+import { jsonQueryTool } from './jsonQuery';
+import { regexExtractTool } from './regexExtract';
+import { readNodeOutputTool } from './readNodeOutput';
+
+export type { ToolContext, ToolDefinition } from './types';
+
+// Registration order is the order tools are listed in the UI
+const tools: ToolDefinition[] = [
+  calculatorTool,
+  dateMathTool,
+  jsonQueryTool,
+  regexExtractTool,
+  readNodeOutputTool,
+];
+
+/**
+ * Get the tool registered under a name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.find(tool => tool.name === name);
+}
+
+/**
+ * List all built-in tools in display order
+ */
+export function listTools(): ToolDefinition[] {
+  return tools;
+}
@@ -0,0 +1,46 @@
+import { ToolDefinition } from './types';
+import { extractJson } from '@/utils/jsonSchema';
+
+/**
+ * Read a value out of parsed JSON with a path such as `$.items[0].name`, `items.0.name`
+ * or `items[*].name` (the wildcard maps over every element of an array)
+ */
+export function queryJson(data: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .replace(/\[["']([^"']+)["']\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0);
+
+  const resolve = (value: unknown, index: number): unknown => {
+    if (index === segments.length) return value;
+    const segment = segments[index];
+    if (segment === '*') {
+      if (!Array.isArray(value)) throw new Error(`Cannot use [*] on a non-array value`);
+      return value.map(item => resolve(item, index + 1));
+    }
+    if (value === null || typeof value !== 'object') return undefined;
+    return resolve((value as Record<string, unknown>)[segment], index + 1);
+  };
+
+  return resolve(data, 0);
+}
+
+export const jsonQueryTool: ToolDefinition = {
+  name: 'json_query',
+  label: 'JSON Query',
+  description: 'Extract a value from a JSON document with a path like "$.items[0].name" or "items[*].price" ([*] selects every array element). Returns the value as JSON.',
+  parameters: {
+    type: 'object',
+    properties: {
+      json: { type: 'string', description: 'The JSON document' },
+      path: { type: 'string', description: 'Path to the value, e.g. "$.results[0].title"' }
+    },
+    required: ['json', 'path']
+  },
+  execute: ({ json, path }) => {
+    const result = queryJson(extractJson(String(json)), String(path));
+    return result === undefined ? 'null' : JSON.stringify(result);
+  },
+};
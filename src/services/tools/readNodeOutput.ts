@@ -0,0 +1,24 @@
+import { ToolDefinition } from './types';
+
+export const readNodeOutputTool: ToolDefinition = {
+  name: 'read_node_output',
+  label: 'Read Node Output',
+  description: "Read the latest output of another node on the canvas, identified by its label (or node id). Returns an empty string if the node hasn't produced output yet.",
+  parameters: {
+    type: 'object',
+    properties: {
+      node: { type: 'string', description: 'Label or id of the node to read' }
+    },
+    required: ['node']
+  },
+  execute: ({ node }, context) => {
+    if (!context.readNodeOutput) {
+      throw new Error('Node outputs are not available here');
+    }
+    const output = context.readNodeOutput(String(node));
+    if (output === undefined) {
+      throw new Error(`No node named "${node}" on the canvas`);
+    }
+    return output;
+  },
+};
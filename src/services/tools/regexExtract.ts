@@ -0,0 +1,29 @@
+import { ToolDefinition } from './types';
+
+// Keep tool results small enough to hand back to the model
+const MAX_MATCHES = 100;
+
+export const regexExtractTool: ToolDefinition = {
+  name: 'regex_extract',
+  label: 'Regex Extract',
+  description: `Find all matches of a JavaScript regular expression in a text. Returns a JSON array of the matches (or of the given capture group), at most ${MAX_MATCHES}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Text to search' },
+      pattern: { type: 'string', description: 'Regular expression without slashes' },
+      flags: { type: 'string', description: 'Regex flags such as "i" or "m"; "g" is always added' },
+      group: { type: 'integer', minimum: 0, description: 'Capture group to return instead of the whole match' }
+    },
+    required: ['text', 'pattern']
+  },
+  execute: ({ text, pattern, flags = '', group = 0 }) => {
+    const regex = new RegExp(String(pattern), String(flags).replace(/g/g, '') + 'g');
+    const matches: (string | null)[] = [];
+    for (const match of String(text).matchAll(regex)) {
+      matches.push(match[Number(group)] ?? null);
+      if (matches.length >= MAX_MATCHES) break;
+    }
+    return JSON.stringify(matches);
+  },
+};
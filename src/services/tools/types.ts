@@ -0,0 +1,23 @@
+import { JsonSchema } from '@/types/agent';
+
+/**
+ * What a tool may read from the running canvas
+ */
+export interface ToolContext {
+  // Latest output of another node, looked up by node id or label
+  readNodeOutput?: (node: string) => string | undefined;
+}
+
+/**
+ * A built-in tool agents can call. Tools must be free of side effects:
+ * they only compute an answer from their arguments and the context.
+ */
+export interface ToolDefinition {
+  name: string;
+  label: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: JsonSchema;
+  // Returns the text handed back to the model; throws on invalid input
+  execute: (args: Record<string, unknown>, context: ToolContext) => string | Promise<string>;
+}
@@ -0,0 +1,1355 @@
+import { Agent, AgentEdge, AgentExecutionResult, AgentNode, ModelChoice, RouterConfig, TokenUsage, ToolCallRecord } from '@/types/agent';
+import type { GenerateOptions } from './ai-service';
+import { formatCombinedInputs } from '@/utils/tokenManager';
+import { BudgetSettings, checkBudget, estimateRequestCost, estimateRunCost, RunCostEstimate } from './budgetService';
+import { formatCost } from './pricing';
+import { hashContent } from '@/utils/contentHash';
+import { extractJson } from '@/utils/jsonSchema';
+import { evaluateCondition, getClassificationSchema, selectRoutes } from './routerService';
+import { DEFAULT_ITEM_CONCURRENCY, joinItems, splitItems } from './mapService';
+
+/**
+ * The canvas a run works on
+ */
+export interface WorkflowGraph {
+  nodes: AgentNode[];
+  edges: AgentEdge[];
+  agents: Agent[];
+}
+
+/**
+ * One agent request the engine needs answered
+ */
+export interface AgentRequest {
+  agent: Agent;
+  systemPrompt: string;
+  input: string;
+  // Signal, streaming, retry, tool and usage callbacks for the request
+  options: GenerateOptions;
+}
+
+/**
+ * Answers agent requests; the app uses the configured AI providers, tests can use a stub
+ */
+export interface AgentProvider {
+  generate: (request: AgentRequest) => Promise<string>;
+}
+
+/**
+ * Which nodes a run executes: `all` runs everything feeding an Output Box, `from` runs a node
+ * and everything downstream of it, `only` runs a single node on the latest outputs before it
+ */
+export type RunScope =
+  | { type: 'all' }
+  | { type: 'from'; nodeId: string }
+  | { type: 'only'; nodeId: string };
+
+export interface WorkflowEngineOptions {
+  // Defaults to running every node feeding an Output Box
+  scope?: RunScope;
+  // Reuse the latest output of nodes whose run hash hasn't changed since it was produced
+  incremental?: boolean;
+  // Spending caps for the run; no caps when omitted
+  budget?: BudgetSettings;
+  // Amount already spent today, counted against the daily cap
+  spentToday?: number;
+  // Most nodes running at once; defaults to DEFAULT_MAX_PARALLELISM
+  maxParallelism?: number;
+  // Results of nodes that settled before the run was paused; those nodes don't run again
+  resumeFrom?: Record<string, AgentExecutionResult>;
+  // Pause before agent nodes that have a breakpoint, see resumeBreakpoint
+  debug?: boolean;
+  // Milliseconds the whole run may take; when they run out, nodes still running time out and
+  // the rest are skipped. No deadline when omitted.
+  deadlineMs?: number;
+}
+
+/**
+ * Content waiting at an approval node for a reviewer
+ */
+export interface PendingApproval {
+  nodeId: string;
+  content: string;
+  instructions?: string;
+}
+
+/**
+ * A reviewer's answer: approve, optionally with edited content, or reject with a note
+ */
+export type ApprovalDecision =
+  | { type: 'approve'; content?: string }
+  | { type: 'reject'; note?: string };
+
+/**
+ * What it takes to resume a paused run later, e.g. after the page was reloaded
+ */
+export interface ResumeState {
+  graph: WorkflowGraph;
+  scope: RunScope;
+  incremental: boolean;
+  results: Record<string, AgentExecutionResult>;
+}
+
+/**
+ * The request an agent node is about to send, held at a breakpoint of a debug run
+ */
+export interface BreakpointPause {
+  nodeId: string;
+  systemPrompt: string;
+  input: string;
+  // Set when the node answers once per item; the input then can't be edited
+  itemCount?: number;
+}
+
+/**
+ * How a debug run goes on from a breakpoint: `step` pauses again before the next agent node,
+ * `continue` runs to the next breakpoint and `abort` stops the run. Both step and continue can
+ * send an edited system prompt and input.
+ */
+export type DebugCommand =
+  | { type: 'step' | 'continue'; systemPrompt?: string; input?: string }
+  | { type: 'abort' };
+
+// Commands that let a paused request go on
+type ResumeCommand = Exclude<DebugCommand, { type: 'abort' }>;
+
+// Routes an approval node takes
+export const APPROVED_ROUTE_ID = 'approved';
+export const REJECTED_ROUTE_ID = 'rejected';
+
+/**
+ * How a run ended: `rejected` runs never started because their estimate exceeded a cap,
+ * `halted` runs stopped before a request that could have exceeded one and `timeout` runs
+ * were stopped at their deadline
+ */
+export type RunStatus = 'completed' | 'cancelled' | 'halted' | 'rejected' | 'timeout';
+
+export interface RunSummary {
+  status: RunStatus;
+  results: Record<string, AgentExecutionResult>;
+  // Why a run was halted, rejected or timed out
+  reason?: string;
+}
+
+export type WorkflowEvent =
+  // The controller cancels just this node
+  | { type: 'nodeStarted'; nodeId: string; controller: AbortController }
+  // The effective system prompt and combined input an agent node is about to send
+  | { type: 'nodeInput'; nodeId: string; systemPrompt: string; input: string }
+  // Streamed text, retries and tool calls of a running node
+  | { type: 'nodeProgress'; nodeId: string; result: AgentExecutionResult }
+  | { type: 'nodeCompleted'; nodeId: string; result: AgentExecutionResult }
+  | { type: 'nodeFailed'; nodeId: string; result: AgentExecutionResult }
+  | { type: 'nodeCancelled'; nodeId: string; result: AgentExecutionResult }
+  | { type: 'nodeSkipped'; nodeId: string; result: AgentExecutionResult }
+  // The node didn't need to run and kept its latest output
+  | { type: 'nodeReused'; nodeId: string; result: AgentExecutionResult }
+  // Tokens and cost of one provider call
+  | { type: 'usage'; nodeId: string; usage: TokenUsage }
+  // The run waits at an approval node until resolveApproval is called
+  | { type: 'approvalRequested'; nodeId: string; approval: PendingApproval }
+  // A debug run holds a request until resumeBreakpoint is called
+  | { type: 'breakpointHit'; nodeId: string; pause: BreakpointPause }
+  | { type: 'runFinished'; summary: RunSummary };
+
+export type WorkflowListener = (event: WorkflowEvent) => void;
+
+// What the engine hears about a request while it is answered
+interface GenerateCallbacks {
+  onAttempt: (attempt: number) => void;
+  onToolCall: (record: ToolCallRecord) => void;
+  onUsage: (usage: TokenUsage) => void;
+  onText: (text: string) => void;
+  // Called before each model of the agent's fallback chain is asked
+  onModel: (choice: ModelChoice, isFallback: boolean) => void;
+}
+
+const OUTPUT_BOX_LABEL = 'Output Box';
+
+// Independent nodes running at once unless the run asks otherwise
+export const DEFAULT_MAX_PARALLELISM = 4;
+
+// Seconds a request may take unless its agent sets a timeout; deep research models can take minutes
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 600;
+
+const getRequestTimeoutMs = (agent: Agent): number => (agent.timeoutSeconds || DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000;
+
+// Streamed text is published at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a helpful AI assistant. Respond to the user input below in a clear and concise manner.';
+
+// Reason given for nodes that only sit on routes a router didn't take
+const NOT_ROUTED_REASON = 'Not on the route the router selected';
+
+// Statuses of results a resumed run keeps instead of running the node again
+const RESUMABLE_STATUSES: AgentExecutionResult['status'][] = ['completed', 'error', 'timeout', 'skipped'];
+
+export const DEFAULT_MAX_ITERATIONS = 3;
+
+// A loop edge with the nodes it repeats: those on a path from its target to its source
+interface WorkflowLoop {
+  edge: AgentEdge;
+  body: string[];
+  iteration: number;
+  finished: boolean;
+}
+
+/**
+ * Nodes whose output feeds into a node, in edge order. Loop edges only feed back
+ * into a node once it has run, so they aren't dependencies.
+ */
+export function getNodeDependencies(edges: AgentEdge[], nodeId: string): string[] {
+  return edges.filter(edge => edge.target === nodeId && !edge.loop).map(edge => edge.source);
+}
+
+/**
+ * Agent settings that can change what an agent answers; name and color don't
+ */
+export const AGENT_CONFIG_FIELDS = [
+  'provider',
+  'model',
+  'systemPrompt',
+  'generationParams',
+  'outputSchema',
+  'tools',
+  'maxToolSteps'
+] as const satisfies readonly (keyof Agent)[];
+
+/**
+ * Hash of everything a node's output depends on: its own inputs, its agent's configuration
+ * and the outputs of the nodes feeding it, in edge order
+ */
+export function getNodeRunHash(node: AgentNode, agent: Agent | undefined, dependencyOutputs: string[]): string {
+  const agentConfig = agent && AGENT_CONFIG_FIELDS.map(field => agent[field]);
+  return hashContent(JSON.stringify([node.data.inputs, agentConfig ?? null, dependencyOutputs]));
+}
+
+/**
+ * Whether a node collects the final results of a run
+ */
+export function isOutputNode(node: AgentNode): boolean {
+  return node.data.label === OUTPUT_BOX_LABEL;
+}
+
+/**
+ * Whether a node sends its input down only the routes whose conditions match
+ */
+export function isRouterNode(node: AgentNode): boolean {
+  return node.type === 'router';
+}
+
+/**
+ * Whether a node splits its input into items for the agents after it to work on one by one
+ */
+export function isMapNode(node: AgentNode): boolean {
+  return node.type === 'map';
+}
+
+/**
+ * Whether a node pauses the run until a reviewer approves or rejects its content
+ */
+export function isApprovalNode(node: AgentNode): boolean {
+  return node.type === 'approval';
+}
+
+/**
+ * Whether a node joins the items of the nodes before it
+ */
+export function isReduceNode(node: AgentNode): boolean {
+  return node.type === 'reduce';
+}
+
+/**
+ * Runs a canvas: every node an Output Box depends on runs once, as soon as all of its
+ * dependencies have finished, with independent branches running side by side.
+ * Progress is reported through events; the engine has no UI or store dependencies,
+ * so it runs the same in the browser, in tests and in scripts.
+ */
+export class WorkflowEngine {
+  private listeners = new Set<WorkflowListener>();
+  private results: Record<string, AgentExecutionResult> = {};
+  // Final result of every node that has finished, whatever its status
+  private settled = new Map<string, AgentExecutionResult>();
+  // Nodes that run even when they could reuse their latest output
+  private forced = new Set<string>();
+  // Nodes skipped because no router sent anything their way
+  private unrouted = new Set<string>();
+  private loops: WorkflowLoop[] = [];
+  // Outputs of every iteration of the nodes inside loops
+  private iterationOutputs = new Map<string, string[]>();
+  private pendingApprovals = new Map<string, { approval: PendingApproval; resolve: (decision: ApprovalDecision) => void }>();
+  private breakpointPauses = new Map<string, { pause: BreakpointPause; resolve: (command: ResumeCommand) => void }>();
+  // Set by `step`: the next agent node pauses whether or not it has a breakpoint
+  private stepping = false;
+  private nodeControllers = new Map<string, AbortController>();
+  private runController = new AbortController();
+  private started = false;
+  private spent = 0;
+  // Estimated cost of requests in flight that isn't spent yet; it counts against the caps, so
+  // nodes running side by side can't all pass the budget check on the same spend
+  private reserved = 0;
+  private haltReason: string | null = null;
+  // Set once the run's deadline has passed
+  private deadlineReason: string | null = null;
+
+  constructor(
+    private graph: WorkflowGraph,
+    private provider: AgentProvider,
+    private options: WorkflowEngineOptions = {}
+  ) {}
+
+  /**
+   * Listen to run events
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: WorkflowListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Upper-bound cost of running every node that feeds an Output Box
+   */
+  public estimateCost(): RunCostEstimate {
+    return estimateRunCost(this.graph.nodes, this.graph.edges, this.graph.agents);
+  }
+
+  /**
+   * Run the canvas. An engine runs once; create a new one for the next run.
+   */
+  public async run(): Promise<RunSummary> {
+    if (this.started) {
+      throw new Error('This workflow has already been run');
+    }
+    this.started = true;
+
+    const plan = this.planRun();
+    this.loops = this.findLoops(plan);
+    const remaining = plan.filter(nodeId => !this.restore(nodeId));
+
+    // Pre-flight: don't start a run whose worst case would go over a spending cap.
+    // Nodes inside a loop may run as many times as the loop allows.
+    const estimate = this.estimateCost();
+    const estimatedTotal = remaining
+      .filter(nodeId => this.mayRun(nodeId))
+      .reduce((total, nodeId) => total + (estimate.nodes[nodeId] || 0) * this.getMaxRuns(nodeId), 0);
+    console.info(`Estimated run cost: ${estimate.lowerBound ? 'at least' : 'up to'} ${formatCost(estimatedTotal)}`);
+    const budgetProblem = this.checkBudget(estimatedTotal);
+    if (budgetProblem) {
+      remaining.forEach(nodeId => this.skip(nodeId, budgetProblem));
+      return this.finish({ status: 'rejected', results: this.results, reason: budgetProblem });
+    }
+
+    const deadline = this.options.deadlineMs
+      ? setTimeout(() => this.expire(), this.options.deadlineMs)
+      : undefined;
+    try {
+      await this.schedule(remaining);
+    } finally {
+      clearTimeout(deadline);
+    }
+
+    if (this.deadlineReason) {
+      return this.finish({ status: 'timeout', results: this.results, reason: this.deadlineReason });
+    }
+    if (this.runController.signal.aborted) {
+      return this.finish({ status: 'cancelled', results: this.results });
+    }
+    if (this.haltReason) {
+      return this.finish({ status: 'halted', results: this.results, reason: this.haltReason });
+    }
+    return this.finish({ status: 'completed', results: this.results });
+  }
+
+  /**
+   * Stop the run: requests in flight are aborted and no further nodes start
+   */
+  public cancel(): void {
+    this.runController.abort();
+    this.nodeControllers.forEach(controller => controller.abort());
+  }
+
+  /**
+   * Cancel a single running node; nodes depending on it are cancelled too
+   */
+  public cancelNode(nodeId: string): void {
+    this.nodeControllers.get(nodeId)?.abort();
+  }
+
+  /**
+   * Content currently waiting for a reviewer, in the order it arrived
+   */
+  public getPendingApprovals(): PendingApproval[] {
+    return [...this.pendingApprovals.values()].map(pending => pending.approval);
+  }
+
+  /**
+   * Let a run waiting at an approval node continue
+   * @param nodeId The approval node
+   * @param decision The reviewer's answer
+   */
+  public resolveApproval(nodeId: string, decision: ApprovalDecision): void {
+    const pending = this.pendingApprovals.get(nodeId);
+    if (!pending) {
+      console.warn(`No approval is waiting at node ${nodeId}`);
+      return;
+    }
+    pending.resolve(decision);
+  }
+
+  /**
+   * Requests held at breakpoints, in the order they were reached
+   */
+  public getBreakpointPauses(): BreakpointPause[] {
+    return [...this.breakpointPauses.values()].map(paused => paused.pause);
+  }
+
+  /**
+   * Let a debug run go on from a breakpoint
+   * @param nodeId The node paused at the breakpoint
+   * @param command Step, continue or abort
+   */
+  public resumeBreakpoint(nodeId: string, command: DebugCommand): void {
+    const paused = this.breakpointPauses.get(nodeId);
+    if (!paused) {
+      console.warn(`No request is paused at node ${nodeId}`);
+      return;
+    }
+    if (command.type === 'abort') {
+      this.cancel();
+      return;
+    }
+    this.stepping = command.type === 'step';
+    paused.resolve(command);
+  }
+
+  /**
+   * Everything needed to resume this run in a new engine: the nodes that settled keep their results
+   */
+  public getResumeState(): ResumeState {
+    // A node's result is recorded, and its event emitted, before the scheduler settles it, so a
+    // snapshot taken on that event still has to include the node
+    const finished = Object.values(this.results).filter(result => RESUMABLE_STATUSES.includes(result.status));
+    return {
+      graph: this.graph,
+      scope: this.options.scope || { type: 'all' },
+      incremental: Boolean(this.options.incremental),
+      results: { ...Object.fromEntries(this.settled), ...Object.fromEntries(finished.map(result => [result.nodeId, result])) }
+    };
+  }
+
+  /**
+   * Latest result of every node touched by the run
+   */
+  public getResults(): Record<string, AgentExecutionResult> {
+    return { ...this.results };
+  }
+
+  private emit(event: WorkflowEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Workflow listener failed on ${event.type}:`, error);
+      }
+    });
+  }
+
+  // The deadline passed: stop the run like cancel does, but time out the nodes that were running
+  private expire(): void {
+    this.deadlineReason = `Run deadline of ${this.options.deadlineMs / 1000}s passed`;
+    console.warn(`${this.deadlineReason}, stopping the run`);
+    this.cancel();
+  }
+
+  private finish(summary: RunSummary): RunSummary {
+    console.info(`Workflow run finished: ${summary.status}${summary.reason ? ` (${summary.reason})` : ''}`);
+    this.emit({ type: 'runFinished', summary });
+    return summary;
+  }
+
+  private record(
+    type: 'nodeCompleted' | 'nodeFailed' | 'nodeCancelled' | 'nodeSkipped' | 'nodeReused',
+    result: AgentExecutionResult
+  ): AgentExecutionResult {
+    if (type === 'nodeCompleted' && this.findLoop(result.nodeId)) {
+      const outputs = [...(this.iterationOutputs.get(result.nodeId) || []), result.output];
+      this.iterationOutputs.set(result.nodeId, outputs);
+      result = { ...result, iterations: outputs };
+    }
+    this.results[result.nodeId] = result;
+    this.emit({ type, nodeId: result.nodeId, result });
+    return result;
+  }
+
+  private fail(nodeId: string, errorMessage: string, extra: Partial<AgentExecutionResult> = {}): AgentExecutionResult {
+    return this.record('nodeFailed', { nodeId, output: `[Error: ${errorMessage}]`, status: 'error', error: errorMessage, ...extra });
+  }
+
+  // Fail a node, stop the run, or complete the node with a stand-in output, as its error policy says
+  private failWithPolicy(node: AgentNode, errorMessage: string, extra: Partial<AgentExecutionResult> = {}): AgentExecutionResult {
+    const policy = node.data.errorPolicy;
+    if (policy?.type === 'fail') {
+      // Halt like the budget does: running nodes are stopped and pending ones skipped, not cancelled
+      this.haltReason = `Run stopped: ${node.data.label} failed: ${errorMessage}`;
+      console.warn(`Halting run at node ${node.id}: ${errorMessage}`);
+      this.nodeControllers.forEach((controller, nodeId) => {
+        if (nodeId !== node.id) controller.abort();
+      });
+      return this.fail(node.id, errorMessage, extra);
+    }
+    if (policy?.type !== 'placeholder' && policy?.type !== 'default' && policy?.type !== 'empty') {
+      return this.fail(node.id, errorMessage, extra);
+    }
+
+    console.warn(`Node ${node.id} failed, passing on ${policy.type === 'empty' ? 'an empty' : `a ${policy.type}`} output: ${errorMessage}`);
+    const output = policy.type === 'default'
+      ? policy.text
+      : policy.type === 'empty' ? '' : `[No output from ${node.data.label}: ${errorMessage}]`;
+    // No run hash: a stand-in is never reused as if it were a real answer
+    return this.record('nodeCompleted', { ...extra, nodeId: node.id, output, status: 'completed', degraded: errorMessage });
+  }
+
+  // Nodes before this one, directly or not, whose outputs are stand-ins or fallback answers
+  private getDegradedInputs(nodeId: string): string[] {
+    const degraded = new Set<string>();
+    const visit = (id: string) => {
+      getNodeDependencies(this.graph.edges, id).forEach(depId => {
+        if (degraded.has(depId)) return;
+        if (this.settled.get(depId)?.degraded) degraded.add(depId);
+        visit(depId);
+      });
+    };
+    visit(nodeId);
+    return this.graph.nodes.map(node => node.id).filter(id => degraded.has(id));
+  }
+
+  private cancelled(nodeId: string, reason: string): AgentExecutionResult {
+    return this.record('nodeCancelled', { nodeId, output: '', status: 'cancelled', error: reason });
+  }
+
+  // Skipped nodes didn't run, but nothing went wrong in them
+  private skip(nodeId: string, reason: string): AgentExecutionResult {
+    return this.record('nodeSkipped', { nodeId, output: '', status: 'skipped', error: reason });
+  }
+
+  private checkBudget(cost: number): string | null {
+    const budget = this.options.budget;
+    if (!budget) return null;
+    const committed = this.spent + this.reserved;
+    return checkBudget(cost, budget, committed, (this.options.spentToday || 0) + committed);
+  }
+
+  // Nodes in the run's scope and every node they depend on, directly or not, in canvas order
+  private planRun(): string[] {
+    const scope = this.options.scope || { type: 'all' };
+    if (scope.type === 'only') {
+      // Running a single node never runs the nodes before it; they keep their latest output
+      getNodeDependencies(this.graph.edges, scope.nodeId).forEach(depId => {
+        const depNode = this.graph.nodes.find(n => n.id === depId);
+        this.settled.set(depId, !depNode
+          ? { nodeId: depId, output: '', status: 'error', error: 'Node not found' }
+          : this.reuse(depNode) || this.skip(depId, 'No output from an earlier run; run the canvas first'));
+      });
+      this.forced = new Set([scope.nodeId]);
+      return [scope.nodeId];
+    }
+
+    const inScope = scope.type === 'all'
+      ? this.graph.nodes.filter(isOutputNode).map(node => node.id)
+      : this.getDownstreamNodes(scope.nodeId);
+    console.info(`Planning ${scope.type} run for nodes:`, inScope);
+
+    const needed = new Set<string>();
+    const visit = (nodeId: string) => {
+      if (needed.has(nodeId)) return;
+      needed.add(nodeId);
+      getNodeDependencies(this.graph.edges, nodeId).forEach(visit);
+      // A loop back into a needed node needs the nodes it loops through
+      this.graph.edges.filter(edge => edge.loop && edge.target === nodeId).forEach(edge => visit(edge.source));
+    };
+    inScope.forEach(visit);
+
+    // A full run executes everything it needs unless incremental mode may skip unchanged nodes;
+    // running from a node executes it and everything after it, reusing what comes before
+    if (scope.type === 'all') {
+      this.forced = new Set(this.options.incremental ? [] : needed);
+    } else {
+      this.forced = new Set(inScope);
+    }
+
+    const nodeIds = this.graph.nodes.filter(node => needed.has(node.id)).map(node => node.id);
+    // Edges can still point at nodes that were removed from the canvas
+    needed.forEach(nodeId => {
+      if (!nodeIds.includes(nodeId)) {
+        console.error(`Error: Node not found for node ${nodeId}`);
+        this.settled.set(nodeId, { nodeId, output: '', status: 'error', error: 'Node not found' });
+      }
+    });
+    return nodeIds;
+  }
+
+  /**
+   * Run nodes as their dependencies finish, at most maxParallelism at a time. Ready nodes
+   * start in canvas order, so runs with the same graph schedule the same way.
+   */
+  private schedule(nodeIds: string[]): Promise<void> {
+    const limit = Math.max(1, this.options.maxParallelism || DEFAULT_MAX_PARALLELISM);
+    const pending = [...nodeIds];
+    let running = 0;
+
+    return new Promise(resolve => {
+      const startReadyNodes = () => {
+        for (let i = 0; i < pending.length && running < limit;) {
+          const nodeId = pending[i];
+          const dependencies = getNodeDependencies(this.graph.edges, nodeId);
+          // Nodes after a loop wait for its last iteration
+          if (!dependencies.every(depId => this.settled.has(depId) && !this.isLoopRunning(depId, nodeId))) {
+            i++;
+            continue;
+          }
+
+          pending.splice(i, 1);
+          running++;
+          this.executeNode(nodeId)
+            .then(result => {
+              this.settled.set(nodeId, result);
+              return this.continueLoops(nodeId, result);
+            })
+            .catch(error => {
+              this.settleUnexpectedError(nodeId, error);
+              return [];
+            })
+            .then(again => {
+              running--;
+              pending.push(...again);
+              startReadyNodes();
+            });
+        }
+
+        if (running > 0) return;
+        if (pending.length === 0) {
+          resolve();
+          return;
+        }
+
+        // Nothing is running and nothing can start, so the remaining nodes wait on a cycle.
+        // Failing the nodes on it lets the nodes downstream fail with a dependency error.
+        for (const nodeId of this.findCycleNodes(pending)) {
+          console.error(`Cycle detected: Node ${nodeId} depends on itself. Aborting to prevent an endless run.`);
+          pending.splice(pending.indexOf(nodeId), 1);
+          this.settled.set(nodeId, this.fail(nodeId, 'Circular dependency detected'));
+        }
+        startReadyNodes();
+      };
+      startReadyNodes();
+    });
+  }
+
+  // Fail a node that threw outside its own error handling, so the run still settles.
+  // A node that settled before the throw (e.g. in continueLoops) keeps its result.
+  private settleUnexpectedError(nodeId: string, error: Error): void {
+    console.error(`Unexpected error running node ${nodeId}:`, error);
+    this.nodeControllers.delete(nodeId);
+    if (this.settled.has(nodeId)) return;
+    this.settled.set(nodeId, this.fail(nodeId, `Unexpected error: ${error?.message || 'Unknown error'}`));
+  }
+
+  // A node and every node that depends on it, directly or not
+  private getDownstreamNodes(nodeId: string): string[] {
+    const downstream = [nodeId];
+    for (let i = 0; i < downstream.length; i++) {
+      this.graph.edges
+        .filter(edge => edge.source === downstream[i] && !edge.loop && !downstream.includes(edge.target))
+        .forEach(edge => downstream.push(edge.target));
+    }
+    return downstream;
+  }
+
+  // Whether a planned node might make requests, for the pre-flight estimate
+  private mayRun(nodeId: string): boolean {
+    if (this.forced.has(nodeId)) return true;
+    const node = this.graph.nodes.find(n => n.id === nodeId);
+    return this.options.incremental || !node?.data.runHash;
+  }
+
+  // Keep the latest output of a node that doesn't have to run; null when it has none to keep
+  private reuse(node: AgentNode): AgentExecutionResult | null {
+    // Only outputs of successful runs carry a run hash
+    if (node.data.runHash === undefined || node.data.outputs.length === 0) return null;
+
+    console.info(`Node ${node.id} doesn't need to run, reusing its latest output`);
+    const output = node.data.outputs[node.data.outputs.length - 1];
+    return this.record('nodeReused', { nodeId: node.id, output, status: 'completed', runHash: node.data.runHash, reused: true });
+  }
+
+  // Settle a node with its result from before the run was paused; false when it has to run
+  private restore(nodeId: string): boolean {
+    const result = this.options.resumeFrom?.[nodeId];
+    if (!result || !RESUMABLE_STATUSES.includes(result.status)) return false;
+
+    this.settled.set(nodeId, result);
+    if (result.status === 'skipped' && result.error === NOT_ROUTED_REASON) {
+      this.unrouted.add(nodeId);
+    }
+    this.record(result.status === 'completed' ? 'nodeCompleted' : result.status === 'skipped' ? 'nodeSkipped' : 'nodeFailed', result);
+    return true;
+  }
+
+  // Loop edges whose target reaches their source within the plan; the others are ignored
+  private findLoops(plan: string[]): WorkflowLoop[] {
+    return this.graph.edges.filter(edge => edge.loop).flatMap(edge => {
+      const upstream = new Set<string>();
+      const visit = (nodeId: string) => {
+        if (upstream.has(nodeId)) return;
+        upstream.add(nodeId);
+        getNodeDependencies(this.graph.edges, nodeId).forEach(visit);
+      };
+      visit(edge.source);
+      const body = this.getDownstreamNodes(edge.target).filter(nodeId => upstream.has(nodeId));
+
+      if (!body.includes(edge.source)) {
+        console.warn(`Loop edge ${edge.id} doesn't lead back to ${edge.source}; ignoring it`);
+        return [];
+      }
+      // Running part of a loop runs it once
+      if (!body.every(nodeId => plan.includes(nodeId))) {
+        return [];
+      }
+      return [{ edge, body: plan.filter(nodeId => body.includes(nodeId)), iteration: 1, finished: false }];
+    });
+  }
+
+  private findLoop(nodeId: string): WorkflowLoop | undefined {
+    return this.loops.find(loop => loop.body.includes(nodeId));
+  }
+
+  // Whether a node's output may still change because its loop runs again; not for nodes in the same loop
+  private isLoopRunning(nodeId: string, dependentId: string): boolean {
+    return this.loops.some(loop => !loop.finished && loop.body.includes(nodeId) && !loop.body.includes(dependentId));
+  }
+
+  private getMaxRuns(nodeId: string): number {
+    const loop = this.findLoop(nodeId);
+    return loop ? Math.max(1, loop.edge.loop.maxIterations || DEFAULT_MAX_ITERATIONS) : 1;
+  }
+
+  /**
+   * After a loop edge's source settles, decide whether its loop runs again
+   * @returns Nodes to run again, in canvas order
+   */
+  private continueLoops(nodeId: string, result: AgentExecutionResult): string[] {
+    const again: string[] = [];
+    for (const loop of this.loops) {
+      if (loop.finished || loop.edge.source !== nodeId) continue;
+
+      const { maxIterations, stopWhen } = loop.edge.loop;
+      let stopReason: string | null = null;
+      if (result.status !== 'completed') {
+        const outcome = result.status === 'error' ? 'failed' : result.status === 'timeout' ? 'timed out' : `was ${result.status}`;
+        stopReason = `${nodeId} ${outcome}`;
+      } else if (loop.iteration >= Math.max(1, maxIterations || DEFAULT_MAX_ITERATIONS)) {
+        stopReason = `reached ${loop.iteration} iterations`;
+      } else if (stopWhen) {
+        try {
+          if (evaluateCondition(stopWhen, result.output)) stopReason = 'stop condition met';
+        } catch (error) {
+          stopReason = error.message;
+        }
+      }
+
+      if (stopReason) {
+        console.info(`Loop ${loop.edge.id} finished after iteration ${loop.iteration}: ${stopReason}`);
+        loop.finished = true;
+        continue;
+      }
+
+      loop.iteration++;
+      console.info(`Loop ${loop.edge.id} starting iteration ${loop.iteration}`);
+      // The source keeps its output until it runs again, so the loop's target can read it
+      loop.body.filter(bodyId => bodyId !== nodeId).forEach(bodyId => this.settled.delete(bodyId));
+      again.push(...loop.body);
+    }
+    return again;
+  }
+
+  // Edges leaving a router only carry data on the routes it selected
+  private isEdgeActive(edge: AgentEdge): boolean {
+    if (this.unrouted.has(edge.source)) return false;
+    const source = this.settled.get(edge.source);
+    return !(source?.status === 'completed' && source.routes && !source.routes.includes(edge.sourceHandle ?? ''));
+  }
+
+  // Nodes that can reach themselves through dependencies that haven't finished
+  private findCycleNodes(pending: string[]): string[] {
+    const unfinished = (nodeId: string) =>
+      getNodeDependencies(this.graph.edges, nodeId).filter(depId => pending.includes(depId));
+
+    return pending.filter(start => {
+      const seen = new Set<string>();
+      const stack = unfinished(start);
+      while (stack.length > 0) {
+        const nodeId = stack.pop();
+        if (nodeId === start) return true;
+        if (seen.has(nodeId)) continue;
+        seen.add(nodeId);
+        stack.push(...unfinished(nodeId));
+      }
+      return false;
+    });
+  }
+
+  /**
+   * @param fallbackFrom Error of the node's own agent when it is retried on its fallback agent
+   */
+  private async executeNode(nodeId: string, fallbackFrom?: string): Promise<AgentExecutionResult> {
+    const node = this.graph.nodes.find(n => n.id === nodeId);
+    if (this.runController.signal.aborted) {
+      return this.deadlineReason ? this.skip(nodeId, this.deadlineReason) : this.cancelled(nodeId, 'Run was stopped');
+    }
+    if (this.haltReason) {
+      return this.skip(nodeId, this.haltReason);
+    }
+
+    // Nodes after a router run on the routes it took and are skipped on the others
+    const incomingEdges = this.graph.edges.filter(edge => edge.target === nodeId && !edge.loop);
+    const activeEdges = incomingEdges.filter(edge => this.isEdgeActive(edge));
+    if (incomingEdges.length > 0 && activeEdges.length === 0) {
+      this.unrouted.add(nodeId);
+      return this.skip(nodeId, NOT_ROUTED_REASON);
+    }
+    // From the second iteration on, a loop's target also gets the output of the loop's source
+    const feedbackEdges = this.loops
+      .filter(loop => loop.edge.target === nodeId && loop.iteration > 1)
+      .map(loop => loop.edge);
+    // Inputs follow edge order, not the order in which dependencies finished
+    const dependencyResults = [...activeEdges, ...feedbackEdges].map(edge => this.settled.get(edge.source));
+
+    // A node only runs when all of its dependencies completed
+    const blockingDependency = dependencyResults.find(result => result.status !== 'completed');
+    if (blockingDependency?.status === 'cancelled') {
+      return this.cancelled(nodeId, 'Dependency was cancelled');
+    }
+    if (blockingDependency?.status === 'skipped') {
+      return this.skip(nodeId, blockingDependency.error || 'Dependency was skipped');
+    }
+    if (blockingDependency?.status === 'timeout') {
+      return this.failWithPolicy(node, `Dependency timed out: ${blockingDependency.error}`);
+    }
+    if (blockingDependency) {
+      return this.failWithPolicy(node, `Dependency error: ${blockingDependency.error}`);
+    }
+
+    const dependencyOutputs = dependencyResults.map(result => result.output);
+    const agentId = fallbackFrom !== undefined && node.data.errorPolicy?.type === 'fallback'
+      ? node.data.errorPolicy.agentId
+      : node.data.agentId;
+    const agent = agentId ? this.graph.agents.find(a => a.id === agentId) : undefined;
+    const runHash = getNodeRunHash(node, agent, dependencyOutputs);
+    // Incremental runs only reuse outputs produced from exactly the same inputs. Routers, approval
+    // and Map nodes, nodes working on items and nodes in loops always run, since routes, items
+    // and iterations aren't kept with their output.
+    const keepsMoreThanOutput = isRouterNode(node)
+      || isApprovalNode(node)
+      || isMapNode(node)
+      || dependencyResults.some(result => result.items)
+      || Boolean(this.findLoop(nodeId));
+    if (fallbackFrom === undefined && !this.forced.has(nodeId) && !keepsMoreThanOutput && !(this.options.incremental && node.data.runHash !== runHash)) {
+      const reused = this.reuse(node);
+      if (reused) return reused;
+    }
+
+    console.info(`Starting processing for node ${nodeId}`);
+    const controller = new AbortController();
+    this.nodeControllers.set(nodeId, controller);
+    this.results[nodeId] = { nodeId, output: '', status: 'running' };
+    this.emit({ type: 'nodeStarted', nodeId, controller });
+
+    // Set when the node's own agent failed and its fallback agent should answer instead
+    let fallbackError: string | undefined;
+    // Provider attempts made for this node's own request (set once the request starts)
+    let attempts: number | undefined;
+    // Tool calls the agent made while answering
+    let toolCalls: ToolCallRecord[] | undefined;
+    // Model that answered; once a fallback model answered any item it stays recorded
+    let answeredBy: ModelChoice | undefined;
+    let fellBack = false;
+    // Set when a request ran out of time; the node then fails with the timeout status
+    let timedOut = false;
+    // Tokens and cost summed over every provider call made for this node
+    let usage: Pick<AgentExecutionResult, 'promptTokens' | 'completionTokens' | 'cost'> | undefined;
+    const progress = (update: Partial<AgentExecutionResult>) => {
+      const result: AgentExecutionResult = { nodeId, output: '', status: 'running', attempts, toolCalls, answeredBy, ...usage, ...update };
+      this.results[nodeId] = result;
+      this.emit({ type: 'nodeProgress', nodeId, result });
+    };
+    // Part of this node's estimate still held in this.reserved
+    let reservation = 0;
+    const addUsage = (callUsage: TokenUsage) => {
+      this.spent += callUsage.cost;
+      // Actual spend takes the place of the estimate held for it
+      const released = Math.min(reservation, callUsage.cost);
+      reservation -= released;
+      this.reserved -= released;
+      usage = {
+        promptTokens: (usage?.promptTokens || 0) + callUsage.promptTokens,
+        completionTokens: (usage?.completionTokens || 0) + callUsage.completionTokens,
+        cost: (usage?.cost || 0) + callUsage.cost
+      };
+      this.emit({ type: 'usage', nodeId, usage: callUsage });
+    };
+
+    try {
+      if (isOutputNode(node)) {
+        const output = [...node.data.inputs, ...dependencyOutputs].join('\n\n---\n\n');
+        const degradedInputs = this.getDegradedInputs(nodeId);
+        if (degradedInputs.length > 0) {
+          console.warn(`Output Box ${nodeId} received degraded inputs from:`, degradedInputs);
+          return this.record('nodeCompleted', { nodeId, output, status: 'completed', degradedInputs });
+        }
+        return this.record('nodeCompleted', { nodeId, output, status: 'completed', runHash });
+      }
+
+      if (isRouterNode(node)) {
+        // Routers pass their input on unchanged, down the routes whose conditions match it
+        const config = node.data.router || { routes: [] };
+        const input = formatCombinedInputs([...node.data.inputs, ...dependencyOutputs]);
+        const routes = await selectRoutes(config, input, (text, labels) =>
+          this.classify(nodeId, config, text, labels, controller.signal, addUsage)
+        );
+        if (this.haltReason) {
+          return this.skip(nodeId, this.haltReason);
+        }
+        console.info(`Router ${nodeId} selected routes:`, routes);
+        return this.record('nodeCompleted', { nodeId, output: input, status: 'completed', routes, runHash, ...usage });
+      }
+
+      if (isApprovalNode(node)) {
+        const config = node.data.approval || {};
+        const content = formatCombinedInputs([...node.data.inputs, ...dependencyOutputs]);
+        const decision = await this.requestApproval({ nodeId, content, instructions: config.instructions }, controller.signal);
+        if (decision.type === 'approve') {
+          console.info(`Node ${nodeId} approved${decision.content !== undefined ? ' with edits' : ''}`);
+          const output = decision.content ?? content;
+          return this.record('nodeCompleted', { nodeId, output, status: 'completed', routes: [APPROVED_ROUTE_ID], runHash });
+        }
+
+        const feedback = decision.note?.trim() ? `Rejected by reviewer: ${decision.note.trim()}` : 'Rejected by reviewer';
+        if (config.onReject !== 'route') {
+          throw new Error(feedback);
+        }
+        // The rejected route gets the content with the reviewer's note, e.g. for a rewrite
+        console.info(`Node ${nodeId} rejected, taking the rejected route`);
+        const output = `${content}\n\n${feedback}`;
+        return this.record('nodeCompleted', { nodeId, output, status: 'completed', routes: [REJECTED_ROUTE_ID], runHash });
+      }
+
+      if (isMapNode(node)) {
+        const items = this.getItemSources(node, dependencyResults).flatMap(source => splitItems(source, node.data.map || { split: 'lines' }));
+        console.info(`Map node ${nodeId} split its input into ${items.length} items`);
+        const output = [...node.data.inputs, ...dependencyOutputs].join('\n\n');
+        return this.record('nodeCompleted', { nodeId, output, status: 'completed', items, runHash });
+      }
+
+      if (isReduceNode(node)) {
+        const items = this.getItemSources(node, dependencyResults);
+        const output = joinItems(items, node.data.reduce || { format: 'concat' });
+        return this.record('nodeCompleted', { nodeId, output, status: 'completed', runHash });
+      }
+
+      if (!agent) {
+        throw new Error(fallbackFrom !== undefined ? 'Fallback agent not found' : 'No agent configuration found for this node');
+      }
+      console.info(`Node ${nodeId} using agent ${agent.id || 'unknown'} (provider: ${agent.provider}, model: ${agent.model})`);
+
+      let systemPrompt = agent.systemPrompt?.trim() ? agent.systemPrompt : DEFAULT_SYSTEM_PROMPT;
+      // After a Map node the agent answers once per item, with the other inputs as shared context
+      const itemSource = dependencyResults.find(result => result.items);
+      const context = [...node.data.inputs, ...dependencyResults.filter(result => result !== itemSource).map(result => result.output)];
+      const itemInputs = itemSource?.items.map(item => formatCombinedInputs([...context, item]));
+      let input = itemInputs
+        ? itemInputs.map((itemInput, index) => `--- ITEM ${index + 1} ---\n${itemInput}`).join('\n\n')
+        : formatCombinedInputs([...node.data.inputs, ...dependencyOutputs]);
+      if (!input && !itemInputs) {
+        throw new Error('No input provided for agent');
+      }
+      console.info(`Combined input for node ${nodeId} (length: ${input.length}): ${input.substring(0, 50)}...`);
+
+      // Debug runs hold the request at a breakpoint, where it can be edited before it's sent
+      let outputHash = runHash;
+      if (this.options.debug && (this.stepping || node.data.breakpoint)) {
+        const command = await this.pauseAtBreakpoint({ nodeId, systemPrompt, input, itemCount: itemInputs?.length }, controller.signal);
+        const editedInput = itemInputs ? undefined : command.input;
+        if ((command.systemPrompt ?? systemPrompt) !== systemPrompt || (editedInput ?? input) !== input) {
+          // The output no longer comes from what the run hash describes
+          outputHash = undefined;
+          systemPrompt = command.systemPrompt ?? systemPrompt;
+          input = editedInput ?? input;
+          console.info(`Node ${nodeId} continues with an edited request`);
+        }
+      }
+
+      // Halt the run before a request that could take it over a spending cap
+      const estimatedCost = (itemInputs || [input])
+        .reduce((total, requestInput) => total + estimateRequestCost(agent, systemPrompt, requestInput), 0);
+      const budgetProblem = this.checkBudget(estimatedCost);
+      if (budgetProblem) {
+        console.warn(`Halting run at node ${nodeId}: ${budgetProblem}`);
+        this.haltReason = budgetProblem;
+        return this.skip(nodeId, budgetProblem);
+      }
+      reservation = estimatedCost;
+      this.reserved += estimatedCost;
+
+      this.emit({ type: 'nodeInput', nodeId, systemPrompt, input });
+      attempts = 1;
+      const ask = async (requestInput: string, streaming: boolean): Promise<string> => {
+        let answer: string;
+        // Model asked last, which is the one that answered when the request succeeds
+        let model: { choice: ModelChoice; isFallback: boolean };
+        try {
+          answer = await this.generate(nodeId, agent, systemPrompt, requestInput, controller.signal, {
+            onAttempt: (attempt) => {
+              attempts = Math.max(attempts, attempt);
+              progress({});
+            },
+            onToolCall: (record) => {
+              toolCalls = [...(toolCalls || []), record];
+              progress({});
+            },
+            onUsage: addUsage,
+            onText: (text) => streaming && progress({ partialOutput: text }),
+            onModel: (choice, isFallback) => {
+              model = { choice, isFallback };
+            }
+          });
+        } catch (apiError) {
+          if (controller.signal.aborted) throw apiError;
+          timedOut = timedOut || apiError?.kind === 'timeout';
+          console.error(`API error for node ${nodeId}:`, apiError);
+          throw new Error(`API error: ${apiError.message || 'Unknown API error'}`);
+        }
+
+        if (answer.startsWith('[Error:')) {
+          throw new Error(answer.substring(8, answer.length - 1));
+        }
+        if (answer.startsWith('[ERROR::')) {
+          throw new Error(answer.substring(8, answer.length - 1));
+        }
+        if (model.isFallback || !fellBack) {
+          answeredBy = model.choice;
+          fellBack = model.isFallback;
+        }
+        return answer;
+      };
+
+      if (itemInputs) {
+        const items = await this.askPerItem(nodeId, itemSource.nodeId, itemInputs, ask, progress);
+        console.info(`Node ${nodeId} answered ${items.length} items`);
+        return this.record('nodeCompleted', {
+          nodeId, output: items.join('\n\n'), status: 'completed', items, attempts, toolCalls, answeredBy, ...usage,
+          runHash: fellBack ? undefined : outputHash
+        });
+      }
+
+      const output = await ask(input, true);
+      if (!output.trim()) {
+        console.warn(`Empty output returned for node ${nodeId} without error`);
+        throw new Error('Empty response received from the API');
+      }
+
+      if (fallbackFrom !== undefined) {
+        console.info(`Node ${nodeId} answered by its fallback agent ${agent.id}`);
+        const degraded = `Answered by fallback agent ${agent.name} after: ${fallbackFrom}`;
+        return this.record('nodeCompleted', { nodeId, output, status: 'completed', degraded, attempts, toolCalls, answeredBy, ...usage });
+      }
+      console.info(`Node ${nodeId} processed successfully`);
+      // An answer from a fallback model isn't reused, so the next run asks the agent's own model again
+      return this.record('nodeCompleted', {
+        nodeId, output, status: 'completed', attempts, toolCalls, answeredBy, ...usage, runHash: fellBack ? undefined : outputHash
+      });
+    } catch (error) {
+      if (controller.signal.aborted && this.deadlineReason) {
+        console.warn(`Node ${nodeId} was stopped at the run deadline`);
+        return this.fail(nodeId, this.deadlineReason, { status: 'timeout', attempts, toolCalls, ...usage });
+      }
+      if (controller.signal.aborted && this.haltReason && !this.runController.signal.aborted) {
+        console.info(`Node ${nodeId} was stopped by the run halting`);
+        return this.skip(nodeId, this.haltReason);
+      }
+      if (controller.signal.aborted) {
+        console.info(`Node ${nodeId} was cancelled`);
+        return this.cancelled(nodeId, 'Cancelled by user');
+      }
+      console.error(`Error processing node ${nodeId}:`, error);
+      const errorMessage = error.message || 'Unknown error';
+      // Router classifications aren't wrapped, so their timeouts still carry the error kind
+      const status = timedOut || error?.kind === 'timeout' ? 'timeout' : 'error';
+      if (fallbackFrom !== undefined) {
+        return this.fail(nodeId, `${fallbackFrom}; fallback agent: ${errorMessage}`, { status, attempts, toolCalls, ...usage });
+      }
+      if (node.data.errorPolicy?.type !== 'fallback') {
+        return this.failWithPolicy(node, errorMessage, { status, attempts, toolCalls, ...usage });
+      }
+      fallbackError = errorMessage;
+    } finally {
+      this.nodeControllers.delete(nodeId);
+      this.reserved -= reservation;
+    }
+
+    console.warn(`Node ${nodeId} failed, retrying with its fallback agent: ${fallbackError}`);
+    return this.executeNode(nodeId, fallbackError);
+  }
+
+  // Wait for a reviewer; stopping the run or the node gives up waiting
+  private requestApproval(approval: PendingApproval, signal: AbortSignal): Promise<ApprovalDecision> {
+    const { nodeId } = approval;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pendingApprovals.delete(nodeId);
+        reject(new Error('Approval was cancelled'));
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pendingApprovals.set(nodeId, {
+        approval,
+        resolve: (decision) => {
+          signal.removeEventListener('abort', onAbort);
+          this.pendingApprovals.delete(nodeId);
+          resolve(decision);
+        }
+      });
+
+      console.info(`Node ${nodeId} is waiting for approval`);
+      const result: AgentExecutionResult = { nodeId, output: approval.content, status: 'waiting' };
+      this.results[nodeId] = result;
+      this.emit({ type: 'nodeProgress', nodeId, result });
+      this.emit({ type: 'approvalRequested', nodeId, approval });
+    });
+  }
+
+  // Hold a request until the debugger says how to go on; stopping the run or the node gives up waiting
+  private pauseAtBreakpoint(pause: BreakpointPause, signal: AbortSignal): Promise<ResumeCommand> {
+    const { nodeId } = pause;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.breakpointPauses.delete(nodeId);
+        reject(new Error('Debug run was aborted'));
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.breakpointPauses.set(nodeId, {
+        pause,
+        resolve: (command) => {
+          signal.removeEventListener('abort', onAbort);
+          this.breakpointPauses.delete(nodeId);
+          resolve(command);
+        }
+      });
+
+      console.info(`Node ${nodeId} paused at a breakpoint`);
+      const result: AgentExecutionResult = { nodeId, output: '', status: 'paused' };
+      this.results[nodeId] = result;
+      this.emit({ type: 'nodeProgress', nodeId, result });
+      this.emit({ type: 'breakpointHit', nodeId, pause });
+    });
+  }
+
+  // Texts a Map or Reduce node works on: the items of dependencies that have them, else whole outputs
+  private getItemSources(node: AgentNode, dependencyResults: AgentExecutionResult[]): string[] {
+    return [...node.data.inputs, ...dependencyResults.flatMap(result => result.items || [result.output])];
+  }
+
+  // Item concurrency comes from the Map node the items started at
+  private getItemConcurrency(nodeId: string): number {
+    const node = this.graph.nodes.find(n => n.id === nodeId);
+    if (!node) return DEFAULT_ITEM_CONCURRENCY;
+    if (isMapNode(node)) return Math.max(1, node.data.map?.concurrency || DEFAULT_ITEM_CONCURRENCY);
+    const itemSource = getNodeDependencies(this.graph.edges, nodeId).find(depId => this.settled.get(depId)?.items);
+    return itemSource ? this.getItemConcurrency(itemSource) : DEFAULT_ITEM_CONCURRENCY;
+  }
+
+  /**
+   * Answer every item, a few at a time; the first failing item fails the node
+   * @returns Answers in item order
+   */
+  private async askPerItem(
+    nodeId: string,
+    itemSourceId: string,
+    itemInputs: string[],
+    ask: (input: string, streaming: boolean) => Promise<string>,
+    progress: (update: Partial<AgentExecutionResult>) => void
+  ): Promise<string[]> {
+    const answers: string[] = new Array(itemInputs.length);
+    const concurrency = this.getItemConcurrency(itemSourceId);
+    let next = 0;
+    let done = 0;
+    let failed = false;
+    progress({ itemProgress: { done, total: itemInputs.length } });
+
+    const work = async () => {
+      while (next < itemInputs.length && !failed) {
+        const index = next++;
+        try {
+          const answer = await ask(itemInputs[index], false);
+          if (!answer.trim()) {
+            throw new Error('Empty response received from the API');
+          }
+          answers[index] = answer;
+        } catch (error) {
+          // Items already started still finish, but no new ones start
+          failed = true;
+          throw new Error(`Item ${index + 1} of ${itemInputs.length}: ${error.message || 'Unknown error'}`);
+        }
+        done++;
+        progress({ itemProgress: { done, total: itemInputs.length } });
+      }
+    };
+
+    console.info(`Node ${nodeId} answering ${itemInputs.length} items, ${concurrency} at a time`);
+    await Promise.all(Array.from({ length: Math.min(concurrency, itemInputs.length) }, work));
+    return answers;
+  }
+
+  // Ask a router's classifier agent which label fits the input; null when it can't decide
+  private async classify(
+    nodeId: string,
+    config: RouterConfig,
+    input: string,
+    labels: string[],
+    signal: AbortSignal,
+    onUsage: (usage: TokenUsage) => void
+  ): Promise<string | null> {
+    const classifier = this.graph.agents.find(a => a.id === config.classifierAgentId);
+    if (!classifier) {
+      throw new Error('Classification routes need a classifier agent');
+    }
+    const instructions = `Classify the input under exactly one of these labels: ${labels.join(', ')}. Answer with JSON such as {"label": "${labels[0]}"}.`;
+    const systemPrompt = classifier.systemPrompt?.trim() ? `${classifier.systemPrompt}\n\n${instructions}` : instructions;
+    // The schema limits the answer to the labels; tools aren't needed to classify
+    const agent: Agent = { ...classifier, outputSchema: getClassificationSchema(labels), tools: undefined };
+
+    const estimatedCost = estimateRequestCost(agent, systemPrompt, input);
+    const budgetProblem = this.checkBudget(estimatedCost);
+    if (budgetProblem) {
+      console.warn(`Halting run at router ${nodeId}: ${budgetProblem}`);
+      this.haltReason = budgetProblem;
+      return null;
+    }
+
+    console.info(`Classifying input of router ${nodeId} into:`, labels);
+    // Held against the caps like an agent node's request, until the classification is paid for
+    let reservation = estimatedCost;
+    this.reserved += reservation;
+    let answer: string;
+    try {
+      answer = await this.provider.generate({
+        agent,
+        systemPrompt,
+        input,
+        options: {
+          signal,
+          timeoutMs: getRequestTimeoutMs(agent),
+          params: agent.generationParams,
+          outputSchema: agent.outputSchema,
+          onUsage: (usage) => {
+            const released = Math.min(reservation, usage.cost);
+            reservation -= released;
+            this.reserved -= released;
+            onUsage(usage);
+          }
+        }
+      });
+    } finally {
+      this.reserved -= reservation;
+    }
+    try {
+      const label = (extractJson(answer) as { label?: unknown })?.label;
+      return typeof label === 'string' && labels.includes(label) ? label : null;
+    } catch (error) {
+      console.warn(`Classifier of router ${nodeId} gave no label:`, answer);
+      return null;
+    }
+  }
+
+  // Ask the agent's model, then its fallback models in order for as long as they fail in ways
+  // another model might not (see ProviderError.fallsBack)
+  private async generate(
+    nodeId: string,
+    agent: Agent,
+    systemPrompt: string,
+    input: string,
+    signal: AbortSignal,
+    callbacks: GenerateCallbacks
+  ): Promise<string> {
+    const chain: ModelChoice[] = [{ provider: agent.provider, model: agent.model }, ...(agent.fallbackModels || [])];
+    for (let index = 0; ; index++) {
+      const choice = chain[index];
+      callbacks.onModel(choice, index > 0);
+      try {
+        return await this.request(nodeId, { ...agent, ...choice }, systemPrompt, input, signal, callbacks);
+      } catch (error) {
+        const next = chain[index + 1];
+        if (signal.aborted || !next || !error?.fallsBack) throw error;
+        console.warn(`${choice.provider}/${choice.model} failed for node ${nodeId} (${error.kind}), falling back to ${next.provider}/${next.model}`);
+      }
+    }
+  }
+
+  // Ask the provider for an agent's answer, turning its callbacks into node progress
+  private request(
+    nodeId: string,
+    agent: Agent,
+    systemPrompt: string,
+    input: string,
+    signal: AbortSignal,
+    callbacks: GenerateCallbacks
+  ): Promise<string> {
+    console.info(`Generating agent response for node ${nodeId}`);
+    let lastPublished = 0;
+
+    return this.provider.generate({
+      agent,
+      systemPrompt,
+      input,
+      options: {
+        signal,
+        timeoutMs: getRequestTimeoutMs(agent),
+        params: agent.generationParams,
+        outputSchema: agent.outputSchema,
+        tools: agent.tools,
+        maxToolSteps: agent.maxToolSteps,
+        toolContext: { readNodeOutput: (nodeRef) => this.readNodeOutput(nodeRef) },
+        onToolCall: callbacks.onToolCall,
+        onUsage: callbacks.onUsage,
+        onRetry: (attempt) => callbacks.onAttempt(attempt),
+        // Stream the answer into the node, publishing at most every PROGRESS_INTERVAL_MS
+        onToken: (_delta, text) => {
+          const now = Date.now();
+          if (now - lastPublished < PROGRESS_INTERVAL_MS || signal.aborted) return;
+          lastPublished = now;
+          callbacks.onText(text);
+        }
+      }
+    });
+  }
+
+  // Latest output of a node, looked up by id or label, for the read_node_output tool
+  private readNodeOutput(nodeRef: string): string | undefined {
+    const { nodes } = this.graph;
+    const target = nodes.find(n => n.id === nodeRef) || nodes.find(n => n.data.label === nodeRef);
+    if (!target) return undefined;
+    const result = this.results[target.id];
+    if (result?.status === 'completed') return result.output;
+    return target.data.outputs[target.data.outputs.length - 1] || '';
+  }
+}
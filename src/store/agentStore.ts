@@ -5,21 +5,36 @@ import { encryptData, decryptData } from '@/utils/encryption';
 import { toast } from 'sonner';
 import { useState } from 'react';
 import { responseCache } from '@/services/cacheService';
+import { listProviderAdapters, RateLimitSettings } from '@/services/providers';
+import { BudgetSettings, DailySpend, DEFAULT_BUDGET, getSpentToday, getTodayKey } from '@/services/budgetService';
+import { DEFAULT_MAX_PARALLELISM } from '@/services/workflowEngine';
+
+type ApiKeys = Record<AIProvider, string>;
+// Non-secret credential fields declared by each provider adapter (base URLs, model names, ...)
+type ProviderSettings = Record<AIProvider, Record<string, string>>;
+type RateLimits = Record<AIProvider, RateLimitSettings>;
 
 interface AgentState {
   agents: Agent[];
   nodes: AgentNode[];
   edges: AgentEdge[];
   executionResults: Record<string, AgentExecutionResult>;
-  apiKey: {
-    openai: string;
-    perplexity: string;
-  };
+  apiKey: ApiKeys;
+  providerSettings: ProviderSettings;
+  rateLimits: RateLimits;
+  // Most canvas nodes running at once
+  maxParallelism: number;
+  // Minutes a canvas run may take before it's stopped; 0 for no deadline
+  runDeadlineMinutes: number;
+  budget: BudgetSettings;
+  dailySpend: DailySpend;
   cacheStats: {
     enabled: boolean;
     size: number;
   };
   processingApiCalls: Record<string, Promise<string>>;
+  // Abort controllers of the node requests that are currently in flight
+  abortControllers: Record<string, AbortController>;
   
   // Agent CRUD actions
   addAgent: (agent: Omit<Agent, 'id'>) => void;
@@ -31,13 +46,15 @@ interface AgentState {
   updateNode: (id: string, updates: Partial<Omit<AgentNode, 'id'>>) => void;
   removeNode: (id: string) => void;
   addEdge: (edge: Omit<AgentEdge, 'id'>) => void;
+  updateEdge: (id: string, updates: Partial<Omit<AgentEdge, 'id'>>) => void;
   removeEdge: (id: string) => void;
   clearCanvas: () => void;
   clearAgents: () => void;
   
   // Canvas inputs/outputs
   addNodeInput: (nodeId: string, input: string) => void;
-  setNodeOutput: (nodeId: string, output: string) => void;
+  // Replaces the node's output; runHash marks it as the result of a successful run
+  setNodeOutput: (nodeId: string, output: string, runHash?: string) => void;
   
   // Execution
   setExecutionResult: (result: AgentExecutionResult) => void;
@@ -45,7 +62,17 @@ interface AgentState {
   
   // API Keys
   setApiKey: (provider: AIProvider, key: string) => void;
-  loadApiKeys: () => { openai: string; perplexity: string };
+  loadApiKeys: () => ApiKeys;
+  
+  // Provider settings
+  setProviderSettings: (provider: AIProvider, settings: Record<string, string>) => void;
+  setRateLimits: (provider: AIProvider, limits: RateLimitSettings) => void;
+  setMaxParallelism: (maxParallelism: number) => void;
+  setRunDeadlineMinutes: (minutes: number) => void;
+  
+  // Spending caps
+  setBudget: (budget: BudgetSettings) => void;
+  recordSpend: (cost: number) => void;
   
   // Cache management
   clearResponseCache: () => void;
@@ -55,17 +82,25 @@ interface AgentState {
   // API call tracking
   setProcessingApiCalls: (processingCalls: Record<string, Promise<string>>) => void;
   
+  // Cancellation
+  setAbortController: (nodeId: string, controller: AbortController | null) => void;
+  cancelNode: (nodeId: string) => void;
+  cancelRun: () => void;
+  
   // Save functions
   saveAgentToLibrary: (node: AgentNode) => void;
   saveCanvasState: () => void;
   exportCanvasToFile: () => void;
   loadCanvasState: () => void;
+  // Put back the canvas a paused run was started from
+  restoreCanvas: (state: { nodes: AgentNode[], edges: AgentEdge[], agents: Agent[] }) => void;
 }
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
 // Load API keys from localStorage on initialization
-const loadApiKeys = (): { openai: string; perplexity: string } => {
+const loadApiKeys = (): ApiKeys => {
+  const keys = Object.fromEntries(listProviderAdapters().map(adapter => [adapter.id, ''])) as ApiKeys;
   try {
     const storedKeys = localStorage.getItem('swarmweaver_api_keys');
     if (storedKeys) {
@@ -81,30 +116,118 @@ const loadApiKeys = (): { openai: string; perplexity: string } => {
         }
         return encryptedKey; // assume plain text
       };
-      return {
-        openai: parsedKeys.openai ? decryptKey(parsedKeys.openai, 'openai_salt') : '',
-        perplexity: parsedKeys.perplexity ? decryptKey(parsedKeys.perplexity, 'perplexity_salt') : ''
-      };
+      for (const { id } of listProviderAdapters()) {
+        keys[id] = parsedKeys[id] ? decryptKey(parsedKeys[id], `${id}_salt`) : '';
+      }
     }
   } catch (error) {
     console.error('Failed to load API keys from localStorage:', error);
   }
-  return { openai: '', perplexity: '' };
+  return keys;
 };
 
 // Save API keys to localStorage
-const saveApiKeys = (keys: { openai: string; perplexity: string }) => {
+const saveApiKeys = (keys: ApiKeys) => {
   try {
-    const encryptedKeys = {
-      openai: keys.openai ? encryptData(keys.openai, 'openai_salt') : '',
-      perplexity: keys.perplexity ? encryptData(keys.perplexity, 'perplexity_salt') : ''
-    };
+    const encryptedKeys = Object.fromEntries(Object.entries(keys).map(([provider, key]) => [
+      provider,
+      key ? encryptData(key, `${provider}_salt`) : ''
+    ]));
     localStorage.setItem('swarmweaver_api_keys', JSON.stringify(encryptedKeys));
   } catch (error) {
     console.error('Failed to save API keys to localStorage:', error);
   }
 };
 
+// Save/load provider settings from localStorage
+const loadProviderSettings = (): ProviderSettings => {
+  const settings = Object.fromEntries(listProviderAdapters().map(adapter => [adapter.id, {}])) as ProviderSettings;
+  try {
+    const storedSettings = localStorage.getItem('swarmweaver_provider_settings');
+    if (storedSettings) {
+      const parsedSettings = JSON.parse(storedSettings);
+      for (const { id } of listProviderAdapters()) {
+        settings[id] = parsedSettings[id] || {};
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load provider settings from localStorage:', error);
+  }
+  return settings;
+};
+
+const saveProviderSettings = (settings: ProviderSettings) => {
+  try {
+    localStorage.setItem('swarmweaver_provider_settings', JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save provider settings to localStorage:', error);
+  }
+};
+
+// Save/load rate limits from localStorage, falling back to each provider's defaults
+const loadRateLimits = (): RateLimits => {
+  const limits = Object.fromEntries(listProviderAdapters().map(adapter => [adapter.id, { ...adapter.defaultRateLimits }])) as RateLimits;
+  try {
+    const storedLimits = localStorage.getItem('swarmweaver_rate_limits');
+    if (storedLimits) {
+      const parsedLimits = JSON.parse(storedLimits);
+      for (const { id } of listProviderAdapters()) {
+        limits[id] = { ...limits[id], ...parsedLimits[id] };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load rate limits from localStorage:', error);
+  }
+  return limits;
+};
+
+const saveRateLimits = (limits: RateLimits) => {
+  try {
+    localStorage.setItem('swarmweaver_rate_limits', JSON.stringify(limits));
+  } catch (error) {
+    console.error('Failed to save rate limits to localStorage:', error);
+  }
+};
+
+const loadMaxParallelism = (): number => {
+  try {
+    const storedValue = localStorage.getItem('swarmweaver_max_parallelism');
+    if (storedValue) {
+      const parsed = parseInt(storedValue, 10);
+      if (parsed > 0) return parsed;
+    }
+  } catch (error) {
+    console.error('Failed to load max parallelism from localStorage:', error);
+  }
+  return DEFAULT_MAX_PARALLELISM;
+};
+
+const saveMaxParallelism = (maxParallelism: number) => {
+  try {
+    localStorage.setItem('swarmweaver_max_parallelism', String(maxParallelism));
+  } catch (error) {
+    console.error('Failed to save max parallelism to localStorage:', error);
+  }
+};
+
+const loadRunDeadlineMinutes = (): number => {
+  try {
+    const parsed = parseFloat(localStorage.getItem('swarmweaver_run_deadline_minutes') || '');
+    if (parsed > 0) return parsed;
+  } catch (error) {
+    console.error('Failed to load run deadline from localStorage:', error);
+  }
+  return 0;
+};
+
+const saveRunDeadlineMinutes = (minutes: number) => {
+  try {
+    localStorage.setItem('swarmweaver_run_deadline_minutes', String(minutes));
+  } catch (error) {
+    console.error('Failed to save run deadline to localStorage:', error);
+  }
+};
+
 // Save/load canvas state from localStorage
 const saveCanvasStateToLocalStorage = (state: { nodes: AgentNode[], edges: AgentEdge[], agents: Agent[] }) => {
   try {
@@ -126,6 +249,47 @@ const loadCanvasStateFromLocalStorage = () => {
   return { nodes: [], edges: [], agents: [] };
 };
 
+// Save/load spending caps and today's spend from localStorage
+const loadBudget = (): BudgetSettings => {
+  try {
+    const storedBudget = localStorage.getItem('swarmweaver_budget');
+    if (storedBudget) {
+      return { ...DEFAULT_BUDGET, ...JSON.parse(storedBudget) };
+    }
+  } catch (error) {
+    console.error('Failed to load budget from localStorage:', error);
+  }
+  return { ...DEFAULT_BUDGET };
+};
+
+const saveBudget = (budget: BudgetSettings) => {
+  try {
+    localStorage.setItem('swarmweaver_budget', JSON.stringify(budget));
+  } catch (error) {
+    console.error('Failed to save budget to localStorage:', error);
+  }
+};
+
+const loadDailySpend = (): DailySpend => {
+  try {
+    const storedSpend = localStorage.getItem('swarmweaver_daily_spend');
+    if (storedSpend) {
+      return JSON.parse(storedSpend);
+    }
+  } catch (error) {
+    console.error('Failed to load daily spend from localStorage:', error);
+  }
+  return { date: getTodayKey(), cost: 0 };
+};
+
+const saveDailySpend = (spend: DailySpend) => {
+  try {
+    localStorage.setItem('swarmweaver_daily_spend', JSON.stringify(spend));
+  } catch (error) {
+    console.error('Failed to save daily spend to localStorage:', error);
+  }
+};
+
 // Initialize with stored state
 const initialState = loadCanvasStateFromLocalStorage();
 
@@ -135,8 +299,15 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   edges: initialState.edges || [],
   executionResults: {},
   apiKey: loadApiKeys(), // Initialize with stored keys
+  providerSettings: loadProviderSettings(),
+  rateLimits: loadRateLimits(),
+  maxParallelism: loadMaxParallelism(),
+  runDeadlineMinutes: loadRunDeadlineMinutes(),
+  budget: loadBudget(),
+  dailySpend: loadDailySpend(),
   cacheStats: { enabled: true, size: 0 },
   processingApiCalls: {}, // Initialize with empty object
+  abortControllers: {},
   
   addAgent: (agent) => set((state) => ({
     agents: [...state.agents, { ...agent, id: generateId() }]
@@ -217,9 +388,9 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   },
 
   addEdge: (edge) => set((state) => {
-    // Prevent duplicate edges and self-connections
+    // Prevent duplicate edges and self-connections; a router may reach a node on several routes
     const isDuplicate = state.edges.some(
-      (e) => e.source === edge.source && e.target === edge.target
+      (e) => e.source === edge.source && e.target === edge.target && e.sourceHandle === edge.sourceHandle
     );
     
     if (isDuplicate || edge.source === edge.target) {
@@ -231,6 +402,10 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     };
   }),
   
+  updateEdge: (id, updates) => set((state) => ({
+    edges: state.edges.map((edge) => edge.id === id ? { ...edge, ...updates } : edge)
+  })),
+
   removeEdge: (id) => set((state) => ({
     edges: state.edges.filter((edge) => edge.id !== id)
   })),
@@ -249,14 +424,16 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     )
   })),
   
-  setNodeOutput: (nodeId, output) => set((state) => ({
+  setNodeOutput: (nodeId, output, runHash) => set((state) => ({
     nodes: state.nodes.map((node) => 
       node.id === nodeId 
         ? { 
             ...node, 
             data: { 
               ...node.data, 
-              outputs: [...(node.data.outputs || []), output] 
+              // Only the latest output is kept, so re-running a node doesn't pile up old answers
+              outputs: [output],
+              runHash
             } 
           } 
         : node
@@ -298,6 +475,49 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     return keys;
   },
   
+  setProviderSettings: (provider, settings) => {
+    set((state) => {
+      const updatedSettings = {
+        ...state.providerSettings,
+        [provider]: { ...state.providerSettings[provider], ...settings }
+      };
+      saveProviderSettings(updatedSettings);
+      return { providerSettings: updatedSettings };
+    });
+  },
+  
+  setRateLimits: (provider, limits) => {
+    set((state) => {
+      const updatedLimits = { ...state.rateLimits, [provider]: limits };
+      saveRateLimits(updatedLimits);
+      return { rateLimits: updatedLimits };
+    });
+  },
+  
+  setMaxParallelism: (maxParallelism) => {
+    saveMaxParallelism(maxParallelism);
+    set({ maxParallelism });
+  },
+
+  setRunDeadlineMinutes: (minutes) => {
+    saveRunDeadlineMinutes(minutes);
+    set({ runDeadlineMinutes: minutes });
+  },
+  
+  setBudget: (budget) => {
+    saveBudget(budget);
+    set({ budget });
+  },
+  
+  recordSpend: (cost) => {
+    set((state) => {
+      // Spend from an earlier day no longer counts
+      const dailySpend = { date: getTodayKey(), cost: getSpentToday(state.dailySpend) + cost };
+      saveDailySpend(dailySpend);
+      return { dailySpend };
+    });
+  },
+  
   saveAgentToLibrary: (node: AgentNode) => {
     if (!node.data.agentId) {
       throw new Error('Node is not an agent');
@@ -315,6 +535,12 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       provider: agent.provider,
       model: agent.model,
       color: agent.color,
+      generationParams: agent.generationParams,
+      outputSchema: agent.outputSchema,
+      tools: agent.tools,
+      maxToolSteps: agent.maxToolSteps,
+      fallbackModels: agent.fallbackModels,
+      timeoutSeconds: agent.timeoutSeconds,
       savedToLibrary: true
     };
 
@@ -358,6 +584,10 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     return false;
   },
 
+  restoreCanvas: ({ nodes, edges, agents }) => {
+    set({ nodes, edges, agents });
+  },
+
   clearResponseCache: () => {
     responseCache.clearCache();
     set((state) => ({
@@ -395,5 +625,55 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     set(() => ({
       processingApiCalls: processingCalls
     }));
+  },
+
+  setAbortController: (nodeId, controller) => {
+    set((state) => {
+      const abortControllers = { ...state.abortControllers };
+      if (controller) {
+        abortControllers[nodeId] = controller;
+      } else {
+        delete abortControllers[nodeId];
+      }
+      return { abortControllers };
+    });
+  },
+
+  cancelNode: (nodeId) => {
+    const { abortControllers, processingApiCalls, executionResults } = get();
+    abortControllers[nodeId]?.abort();
+
+    const remainingCalls = { ...processingApiCalls };
+    delete remainingCalls[nodeId];
+    const remainingControllers = { ...abortControllers };
+    delete remainingControllers[nodeId];
+
+    const result = executionResults[nodeId];
+    set({
+      processingApiCalls: remainingCalls,
+      abortControllers: remainingControllers,
+      executionResults: result && (result.status === 'pending' || result.status === 'running')
+        ? { ...executionResults, [nodeId]: { ...result, status: 'cancelled', error: 'Cancelled by user' } }
+        : executionResults
+    });
+  },
+
+  cancelRun: () => {
+    const { abortControllers, executionResults } = get();
+    Object.values(abortControllers).forEach(controller => controller.abort());
+
+    // Mark everything that has not finished yet as cancelled
+    const updatedResults = { ...executionResults };
+    Object.values(executionResults).forEach(result => {
+      if (result.status === 'pending' || result.status === 'running') {
+        updatedResults[result.nodeId] = { ...result, status: 'cancelled', error: 'Cancelled by user' };
+      }
+    });
+
+    set({
+      processingApiCalls: {},
+      abortControllers: {},
+      executionResults: updatedResults
+    });
   }
 }));
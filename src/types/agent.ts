@@ -9,9 +9,44 @@ export type AIModel =
   | 'sonar-reasoning-pro'
   | 'sonar-reasoning'
   | 'sonar-pro'
-  | 'sonar';
+  | 'sonar'
+  // Anthropic models
+  | 'claude-3-7-sonnet-20250219'
+  | 'claude-3-5-sonnet-20241022'
+  | 'claude-3-5-haiku-20241022'
+  | 'claude-3-opus-20240229';
 
-export type AIProvider = 'openai' | 'perplexity';
+export type AIProvider = 'openai' | 'perplexity' | 'anthropic' | 'local';
+
+// Optional sampling settings; anything left unset uses the provider's default
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+}
+
+export type GenerationParamName = keyof GenerationParams;
+
+// The subset of JSON Schema agents can use to describe their output
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
 
 export interface Agent {
   id: string;
@@ -21,11 +56,106 @@ export interface Agent {
   model: AIModel;
   color: string;
   savedToLibrary?: boolean;
+  generationParams?: GenerationParams;
+  // When set, the agent must answer with JSON matching this schema
+  outputSchema?: JsonSchema;
+  // Names of built-in tools the agent may call
+  tools?: string[];
+  // Maximum rounds of tool calls before the agent has to answer
+  maxToolSteps?: number;
+  // Models tried in order when the agent's own model is rate limited, down, out of context or filtered
+  fallbackModels?: ModelChoice[];
+  // Seconds each request may take before it's aborted; defaults to DEFAULT_REQUEST_TIMEOUT_SECONDS
+  timeoutSeconds?: number;
+}
+
+/**
+ * A provider and one of its models
+ */
+export interface ModelChoice {
+  provider: AIProvider;
+  model: AIModel;
+}
+
+// How a JSON route compares the value at its path
+export type JsonComparison = 'equals' | 'notEquals' | 'greaterThan' | 'lessThan' | 'contains' | 'exists';
+
+export type RouteCondition =
+  | { type: 'contains'; text: string; caseSensitive?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  // Parses the input as JSON and compares the value at a path such as `review.score`
+  | { type: 'json'; path: string; operator: JsonComparison; value?: string }
+  // Matches when the classifier agent puts the input under this label
+  | { type: 'classify'; label: string };
+
+export interface RouterRoute {
+  // Source handle of the edges leaving the router on this route
+  id: string;
+  name: string;
+  condition: RouteCondition;
+}
+
+export interface RouterConfig {
+  // Checked in order
+  routes: RouterRoute[];
+  // Take every matching route instead of only the first
+  matchAll?: boolean;
+  // Agent that picks a label for classification routes
+  classifierAgentId?: string;
 }
 
+// Ends a loop early when the output of the loop edge's source matches it
+export type LoopStopCondition = Exclude<RouteCondition, { type: 'classify' }>;
+
+export interface LoopConfig {
+  // Most times the nodes in the loop run, counting the first pass
+  maxIterations: number;
+  stopWhen?: LoopStopCondition;
+}
+
+// How a Map node splits its input into items
+export type MapSplitMode = 'lines' | 'json' | 'delimiter' | 'chunks';
+
+export interface MapConfig {
+  split: MapSplitMode;
+  delimiter?: string;
+  // Size of each item when splitting into chunks
+  chunkTokens?: number;
+  // Most items the agents after the Map node work on at once
+  concurrency?: number;
+}
+
+// How a Reduce node joins items: as a JSON array, a numbered list or one after another
+export type JoinFormat = 'json' | 'numbered' | 'concat';
+
+export interface ReduceConfig {
+  format: JoinFormat;
+  // Put between items when concatenating
+  separator?: string;
+}
+
+export interface ApprovalConfig {
+  // Shown to the reviewer, e.g. what to check
+  instructions?: string;
+  // Rejecting fails the node, or sends the content down the node's rejected route
+  onReject?: 'fail' | 'route';
+}
+
+/**
+ * What a node does when it fails: without a policy it fails along with the nodes after it, `fail`
+ * stops the whole run, `empty`, `placeholder` and `default` pass on a stand-in output instead, and
+ * `fallback` asks another agent first
+ */
+export type ErrorPolicy =
+  | { type: 'fail' }
+  | { type: 'empty' }
+  | { type: 'placeholder' }
+  | { type: 'default'; text: string }
+  | { type: 'fallback'; agentId: string };
+
 export interface AgentNode {
   id: string;
-  type: 'agent' | 'output';
+  type: 'agent' | 'output' | 'router' | 'map' | 'reduce' | 'approval';
   position: {
     x: number;
     y: number;
@@ -36,6 +166,17 @@ export interface AgentNode {
     inputs: string[];
     outputs: string[];
     color?: string;
+    // Hash of the inputs, agent config and upstream outputs the latest output was produced from
+    runHash?: string;
+    // Routes of a Router node
+    router?: RouterConfig;
+    map?: MapConfig;
+    reduce?: ReduceConfig;
+    approval?: ApprovalConfig;
+    // Debug runs pause before this node sends its request
+    breakpoint?: boolean;
+    // What happens when the node fails; failing is the default
+    errorPolicy?: ErrorPolicy;
   };
 }
 
@@ -43,13 +184,64 @@ export interface AgentEdge {
   id: string;
   source: string;
   target: string;
+  // Route of a Router node the edge leaves from
+  sourceHandle?: string;
+  // Marks an edge that feeds a later node's output back to an earlier one
+  loop?: LoopConfig;
   type?: string;
   animated?: boolean;
 }
 
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // USD
+  cost: number;
+  // Set when the provider didn't report token counts and they were estimated
+  estimated?: boolean;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  // Set when the tool failed; the result then holds the error message
+  error?: boolean;
+}
+
 export interface AgentExecutionResult {
   nodeId: string;
   output: string;
-  status: 'pending' | 'running' | 'completed' | 'error';
+  // `timeout` nodes failed because a request or the run's deadline ran out of time
+  status: 'pending' | 'running' | 'waiting' | 'paused' | 'completed' | 'error' | 'timeout' | 'cancelled' | 'skipped';
   error?: string;
+  // Text streamed so far while the node is still running
+  partialOutput?: string;
+  // Number of provider attempts the node's request took, including retries
+  attempts?: number;
+  // Tools the agent called while producing its output, in order
+  toolCalls?: ToolCallRecord[];
+  // Tokens and cost of every provider call the node made, including chunk and helper calls
+  promptTokens?: number;
+  completionTokens?: number;
+  cost?: number;
+  // Hash of what the node ran with, see AgentNode.data.runHash
+  runHash?: string;
+  // Set when the node didn't run and kept the output of an earlier run
+  reused?: boolean;
+  // Ids of the routes a Router node selected
+  routes?: string[];
+  // Outputs of a node inside a loop, one per iteration so far; the last is the current output
+  iterations?: string[];
+  // Items of a Map node, or the answer for each item of a node after one
+  items?: string[];
+  // Items answered so far while the node works through them
+  itemProgress?: { done: number; total: number };
+  // Model that produced the output; differs from the agent's own after falling back
+  answeredBy?: ModelChoice;
+  // Why the output is a stand-in or came from a fallback agent, see ErrorPolicy
+  degraded?: string;
+  // Ids of the nodes before an Output Box whose outputs were degraded
+  degradedInputs?: string[];
 }
@@ -0,0 +1,51 @@
+/**
+ * Reads a server-sent events stream and hands the data of every event to a callback
+ * @param response Fetch response whose body is a text/event-stream
+ * @param onData Called with the (possibly multi-line) data payload of each event
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) {
+      onData(data);
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any incomplete trailing event buffered
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      events.forEach(dispatch);
+    }
+  } catch (error) {
+    // Stop the download if a handler rejected an event
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
@@ -0,0 +1,87 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Texts whose changed middle parts have more word pairs than this are compared as whole blocks
+const MAX_DIFF_CELLS = 4000000;
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+// Append a part, merging it with the previous one when both have the same type
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts, based on their longest common subsequence of words
+ * @param before Old text
+ * @param after New text
+ * @returns Parts in reading order; `removed` parts only appear in the old text, `added` parts only in the new one
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const oldTokens = tokenize(before);
+  const newTokens = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  // Skip the common start and end, which is most of the text for small edits
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  pushPart(parts, 'equal', oldTokens.slice(0, start).join(''));
+
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', oldMiddle.join(''));
+    pushPart(parts, 'added', newMiddle.join(''));
+  } else {
+    // lengths[i][j] is the length of the longest common subsequence of oldMiddle[i:] and newMiddle[j:]
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Uint32Array(newMiddle.length + 1));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        pushPart(parts, 'equal', oldMiddle[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushPart(parts, 'removed', oldMiddle[i]);
+        i++;
+      } else {
+        pushPart(parts, 'added', newMiddle[j]);
+        j++;
+      }
+    }
+    pushPart(parts, 'removed', oldMiddle.slice(i).join(''));
+    pushPart(parts, 'added', newMiddle.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', oldTokens.slice(oldEnd).join(''));
+  return parts;
+}
@@ -1,4 +1,9 @@
 import { AIModel } from "@/types/agent";
+import { findModelInfo } from "@/services/providers";
+
+// Largest input the chunked strategy sends in one request; inputs with code only switch to
+// chunking above it, so the strategy never hands them straight back to be chunked again
+export const MAX_SAFE_TOKENS_PER_CHUNK = 2000;
 
 // Basic token estimation based on character count
 // This is a rough approximation - for production, use a proper tokenizer
@@ -9,7 +14,11 @@ export function estimateTokenCount(text: string): number {
 
 // Get model context window size
 export function getModelContextSize(model: AIModel): number {
-  // These are approximate context window sizes
+  // Models declared by a provider adapter know their own context size
+  const modelInfo = findModelInfo(model);
+  if (modelInfo) return modelInfo.contextWindow;
+  
+  // These are approximate context window sizes for models no provider declares
   if (typeof model === 'string') {
     if (model.includes('gpt-4-turbo')) return 128000;
     if (model.includes('gpt-4o')) return 128000;
@@ -30,7 +39,11 @@ export function getModelContextSize(model: AIModel): number {
 
 // Get maximum allowed completion tokens for a model
 export function getMaxCompletionTokens(model: AIModel): number {
-  // These are the maximum allowed completion tokens for each model
+  // Models declared by a provider adapter know their own completion limit
+  const modelInfo = findModelInfo(model);
+  if (modelInfo) return modelInfo.maxCompletionTokens;
+  
+  // These are the maximum allowed completion tokens for models no provider declares
   if (typeof model === 'string') {
     const modelStr = model.toLowerCase();
     